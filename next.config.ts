@@ -2,7 +2,10 @@ import type { NextConfig } from "next";
 import "./src/env";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  experimental: {
+    // Dataset uploads go through a server action; the default limit is 1mb
+    serverActions: { bodySizeLimit: "5mb" },
+  },
 };
 
 export default nextConfig;
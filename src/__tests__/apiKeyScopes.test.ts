@@ -0,0 +1,44 @@
+import { expect, test, vi } from "vitest";
+
+import { DELETE } from "@/app/api/v1/datasets/[id]/route";
+import { deleteDataset } from "@/server/actions/deleteDataset";
+import { deleteDatasetById } from "@/server/db/datasets";
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+// A request with no Clerk session, only a bearer key
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(() => Promise.resolve({ userId: null })),
+}));
+vi.mock("next/headers", () => ({
+  headers: vi.fn(() =>
+    Promise.resolve(new Headers({ authorization: "Bearer pd_readonly" }))
+  ),
+}));
+vi.mock("@/server/db/apiKeys", () => ({
+  getActiveApiKey: vi.fn(() =>
+    Promise.resolve({ id: 1, userId: "user_1", scopes: ["templates:read"] })
+  ),
+  markApiKeyUsed: vi.fn(() => Promise.resolve()),
+}));
+vi.mock("@/server/db/datasets", () => ({
+  deleteDatasetById: vi.fn(() => Promise.resolve()),
+}));
+vi.mock("@/server/db/promptChains", () => ({ getPromptChains: vi.fn() }));
+vi.mock("@/server/db/promptTemplates", () => ({ default: vi.fn() }));
+vi.mock("@/utils/createPromptHandlers", () => ({
+  createPromptHandlers: vi.fn(),
+}));
+
+test("a key without datasets:manage can't delete a dataset", async () => {
+  const response = await DELETE(
+    new Request("http://localhost/api/v1/datasets/7", { method: "DELETE" }),
+    { params: Promise.resolve({ id: "7" }) }
+  );
+
+  expect(response.status).toBe(403);
+  // Server actions only accept sessions, whatever key the request carries
+  await expect(deleteDataset({ id: 7 })).rejects.toThrow(
+    "User not authenticated"
+  );
+  expect(deleteDatasetById).not.toHaveBeenCalled();
+});
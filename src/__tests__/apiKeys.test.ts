@@ -0,0 +1,20 @@
+import { expect, test } from "vitest";
+
+import {
+  API_KEY_PREFIX,
+  generateApiKey,
+  hashApiKey,
+  parseApiKey,
+} from "@/utils/apiKeys";
+
+test("api keys are read from bearer headers and hashed stably", async () => {
+  const key = generateApiKey();
+
+  expect(key).toMatch(new RegExp(`^${API_KEY_PREFIX}[0-9a-f]{64}$`));
+  expect(generateApiKey()).not.toBe(key);
+  expect(parseApiKey(`Bearer ${key}`)).toBe(key);
+  expect(parseApiKey("Bearer eyJhbGciOi.session.token")).toBeUndefined();
+  expect(parseApiKey(null)).toBeUndefined();
+  expect(await hashApiKey(key)).toBe(await hashApiKey(key));
+  expect(await hashApiKey(key)).toMatch(/^[0-9a-f]{64}$/);
+});
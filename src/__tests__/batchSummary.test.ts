@@ -0,0 +1,81 @@
+import { expect, test } from "vitest";
+
+import { PromptResult } from "@/types/promptHandler";
+import { summarizeBatch, summarizeLatency } from "@/utils/batchSummary";
+
+const toResult = (
+  runIndex: number,
+  response: string | object,
+  duration = 100
+): PromptResult => ({
+  runIndex,
+  status: "success",
+  response,
+  duration,
+  timestamp: new Date(),
+});
+
+test("latency percentiles use nearest rank and an averaged median", () => {
+  const durations = Array.from({ length: 20 }, (_, index) => (index + 1) * 10);
+
+  expect(summarizeLatency(durations)).toEqual({
+    min: 10,
+    median: 105,
+    p95: 190,
+    max: 200,
+  });
+  expect(summarizeLatency([])).toBeUndefined();
+});
+
+test("text answers cluster by case, whitespace and trailing punctuation", () => {
+  const summary = summarizeBatch([
+    toResult(0, "Paris."),
+    toResult(1, "paris"),
+    toResult(2, "Lyon"),
+    toResult(3, "  PARIS  "),
+    {
+      ...toResult(4, ""),
+      status: "error",
+      error: "rate limited",
+    },
+  ]);
+
+  expect(summary.errorRate).toBe(0.2);
+  expect(summary.statusCounts).toEqual({
+    success: 4,
+    error: 1,
+    timeout: 0,
+    cancelled: 0,
+    invalid: 0,
+  });
+  expect(summary.answerClusters).toEqual([
+    { answer: "Paris.", count: 3, runIndexes: [0, 1, 3] },
+    { answer: "Lyon", count: 1, runIndexes: [2] },
+  ]);
+});
+
+test("JSON responses are counted per nested field", () => {
+  const summary = summarizeBatch([
+    toResult(0, { label: "spam", meta: { score: 1 } }),
+    toResult(1, { label: "ham", meta: { score: 1 } }),
+    toResult(2, { label: "spam", meta: { score: 2 } }),
+  ]);
+
+  expect(summary.answerClusters).toEqual([]);
+  expect(summary.fieldDistributions).toEqual([
+    {
+      field: "label",
+      values: [
+        { value: "spam", count: 2 },
+        { value: "ham", count: 1 },
+      ],
+    },
+    {
+      field: "meta.score",
+      values: [
+        { value: "1", count: 2 },
+        { value: "2", count: 1 },
+      ],
+    },
+  ]);
+});
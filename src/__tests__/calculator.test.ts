@@ -0,0 +1,27 @@
+import { expect, test } from "vitest";
+
+import { evaluateExpression } from "@/utils/calculator";
+
+test("expressions follow operator precedence", () => {
+  expect(evaluateExpression("1 + 2 * 3")).toBe(7);
+  expect(evaluateExpression("(1 + 2) * 3")).toBe(9);
+  expect(evaluateExpression("2 ^ 3 ^ 2")).toBe(512);
+  expect(evaluateExpression("-2 ^ 2")).toBe(-4);
+  expect(evaluateExpression("2 ^ -1")).toBe(0.5);
+  expect(evaluateExpression("10 % 4 - .5")).toBe(1.5);
+  expect(evaluateExpression("1.5e3 / 3")).toBe(500);
+});
+
+test("invalid expressions are rejected without evaluating code", () => {
+  expect(() => evaluateExpression("1 / 0")).toThrow("Division by zero");
+  expect(() => evaluateExpression("(1 + 2")).toThrow(
+    "Missing closing parenthesis"
+  );
+  expect(() => evaluateExpression("2 *")).toThrow(
+    "Unexpected end of expression"
+  );
+  expect(() => evaluateExpression("process.exit()")).toThrow(
+    'Unexpected character "p"'
+  );
+  expect(() => evaluateExpression("1 2")).toThrow('Unexpected "2"');
+});
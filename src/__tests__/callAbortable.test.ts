@@ -0,0 +1,38 @@
+import { expect, test, vi } from "vitest";
+
+import { cancelGeneration } from "@/server/actions/cancelGeneration";
+import { callAbortable } from "@/utils/callAbortable";
+import { RunCancelledError } from "@/utils/executeRuns";
+
+vi.mock("@/server/actions/cancelGeneration", () => ({
+  cancelGeneration: vi.fn(() => Promise.resolve()),
+}));
+
+test("rejects immediately and cancels the server call by request id", async () => {
+  const controller = new AbortController();
+  let receivedId: string | undefined;
+  const pending = callAbortable({
+    signal: controller.signal,
+    call: (requestId) => {
+      receivedId = requestId;
+      return new Promise<string>(() => {});
+    },
+  });
+
+  controller.abort();
+
+  await expect(pending).rejects.toBeInstanceOf(RunCancelledError);
+  expect(receivedId).toBeDefined();
+  expect(cancelGeneration).toHaveBeenCalledWith(receivedId);
+});
+
+test("does not start a call once the signal has aborted", async () => {
+  const controller = new AbortController();
+  controller.abort();
+  const call = vi.fn(() => Promise.resolve("never"));
+
+  await expect(
+    callAbortable({ signal: controller.signal, call })
+  ).rejects.toBeInstanceOf(RunCancelledError);
+  expect(call).not.toHaveBeenCalled();
+});
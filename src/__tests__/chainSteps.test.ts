@@ -0,0 +1,31 @@
+import { expect, test } from "vitest";
+
+import {
+  formatChainStepOutput,
+  getChainIssues,
+  getChainStepVariables,
+} from "@/utils/chainSteps";
+
+test("steps can only reference the input and earlier steps", () => {
+  const steps = [
+    { name: "outline", template: "Outline {{INPUT}} using {{draft}}" },
+    { name: "draft", template: "Write {{outline}} for {{INPUT}}" },
+    { name: "draft", template: "{{draft}}" },
+    { name: "INPUT", template: "x" },
+    { name: "2nd", template: "x" },
+  ];
+
+  expect(getChainStepVariables({ steps, index: 1 })).toEqual([
+    "INPUT",
+    "outline",
+  ]);
+  expect(getChainIssues(steps)).toEqual([
+    'Step 1 references unknown output "draft"',
+    'Step 3 reuses the name "draft"',
+    "Step 4 can't be named INPUT",
+    "Step 5 needs a name made of letters, digits and underscores",
+  ]);
+  expect(formatChainStepOutput({ steps: ["a"] })).toBe(
+    '{\n  "steps": [\n    "a"\n  ]\n}'
+  );
+});
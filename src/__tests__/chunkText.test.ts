@@ -0,0 +1,21 @@
+import { expect, test } from "vitest";
+
+import { chunkText } from "@/utils/chunkText";
+
+test("chunks break at paragraphs and overlap with the previous chunk", () => {
+  const text = "First para.\n\nSecond para here.\n\nThird para.";
+
+  expect(chunkText({ text, chunkSize: 32, chunkOverlap: 20 })).toEqual([
+    "First para.\n\nSecond para here.",
+    "Second para here.\n\nThird para.",
+  ]);
+});
+
+test("long words are cut to the chunk size", () => {
+  expect(
+    chunkText({ text: "abcdefghij klm", chunkSize: 4, chunkOverlap: 0 })
+  ).toEqual(["abcd", "efgh", "ij", "klm"]);
+  expect(() => chunkText({ text: "x", chunkSize: 4, chunkOverlap: 4 })).toThrow(
+    "Chunk overlap must be smaller than the chunk size"
+  );
+});
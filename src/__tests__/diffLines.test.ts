@@ -0,0 +1,50 @@
+import { expect, test } from "vitest";
+
+import { diffLines } from "@/utils/diffLines";
+
+test("identical texts produce only unchanged rows", () => {
+  const rows = diffLines({ before: "a\nb", after: "a\nb" });
+
+  expect(rows.map((row) => row.type)).toEqual(["unchanged", "unchanged"]);
+});
+
+test("edited lines are paired side by side", () => {
+  const rows = diffLines({
+    before: "intro\nold line\noutro",
+    after: "intro\nnew line\noutro",
+  });
+
+  expect(rows).toEqual([
+    {
+      type: "unchanged",
+      left: "intro",
+      right: "intro",
+      leftLineNumber: 1,
+      rightLineNumber: 1,
+    },
+    {
+      type: "changed",
+      left: "old line",
+      right: "new line",
+      leftLineNumber: 2,
+      rightLineNumber: 2,
+    },
+    {
+      type: "unchanged",
+      left: "outro",
+      right: "outro",
+      leftLineNumber: 3,
+      rightLineNumber: 3,
+    },
+  ]);
+});
+
+test("pure additions and removals leave the other side empty", () => {
+  const added = diffLines({ before: "a", after: "a\nb" });
+  const removed = diffLines({ before: "a\nb", after: "b" });
+
+  expect(added[1]).toMatchObject({ type: "added", right: "b" });
+  expect(added[1].left).toBeUndefined();
+  expect(removed[0]).toMatchObject({ type: "removed", left: "a" });
+  expect(removed[0].right).toBeUndefined();
+});
@@ -0,0 +1,38 @@
+import { expect, test, vi } from "vitest";
+
+import { duplicatePromptTemplate } from "@/server/actions/duplicatePromptTemplate";
+import { insertPromptTemplate } from "@/server/db/promptTemplates";
+
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(() => Promise.resolve({ userId: "user_other" })),
+}));
+// The collection belongs to someone else, so the lookup finds nothing
+vi.mock("@/server/db/collections", () => ({
+  getCollection: vi.fn(() => Promise.resolve(undefined)),
+}));
+vi.mock("@/server/db/promptTemplates", () => ({
+  getPromptTemplate: vi.fn(() =>
+    Promise.resolve({
+      id: 1,
+      name: "Support answer",
+      text: "Answer from {{CONTEXT}}: {{INPUT}}",
+      retrieval: { collectionId: 2 },
+    })
+  ),
+  toPublicPromptTemplate: vi.fn((template) => template),
+  insertPromptTemplate: vi.fn(({ template }) =>
+    Promise.resolve({ ...template, id: 3, version: 1 })
+  ),
+}));
+
+test("non-owners duplicate a retrieval template without its collection", async () => {
+  const { template, removedRetrieval } = await duplicatePromptTemplate(1);
+
+  expect(removedRetrieval).toBe(true);
+  expect(template.retrieval).toBeUndefined();
+  expect(vi.mocked(insertPromptTemplate).mock.calls[0][0]).toMatchObject({
+    template: { name: "Support answer (copy)", retrieval: undefined },
+    userId: "user_other",
+  });
+});
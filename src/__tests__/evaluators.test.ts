@@ -0,0 +1,234 @@
+import { expect, test, vi } from "vitest";
+
+import { judgeResponse } from "@/server/actions/judgeResponse";
+import { PromptResult } from "@/types/promptHandler";
+import {
+  evaluateResult,
+  evaluateResults,
+  getJsonPathValue,
+  getJudgeScores,
+  getPassRate,
+} from "@/utils/evaluators";
+import { validateJsonSchema } from "@/utils/validateJsonSchema";
+
+vi.mock("@/server/actions/judgeResponse", () => ({
+  judgeResponse: vi.fn(),
+}));
+vi.mock("@/server/actions/cancelGeneration", () => ({
+  cancelGeneration: vi.fn(() => Promise.resolve()),
+}));
+
+const toResult = (
+  response: string | object,
+  overrides: Partial<PromptResult> = {}
+): PromptResult => ({
+  runIndex: 0,
+  status: "success",
+  response,
+  duration: 500,
+  timestamp: new Date(),
+  ...overrides,
+});
+
+test("expected values are filled from the run's inputs", async () => {
+  const [exact, contains] = await evaluateResult({
+    result: toResult("  Paris "),
+    evaluators: [
+      { type: "exactMatch", expected: "{{expected}}" },
+      { type: "contains", expected: "London" },
+    ],
+    values: { expected: "Paris" },
+  });
+
+  expect(exact.passed).toBe(true);
+  expect(contains).toMatchObject({
+    passed: false,
+    message: 'Missing "London"',
+  });
+});
+
+test("JSON checks read paths and validate schemas", async () => {
+  const response = { answer: { label: "spam", scores: [0.9] } };
+
+  expect(
+    getJsonPathValue({ value: response, path: "$.answer.scores[0]" })
+  ).toBe(0.9);
+  expect(
+    (
+      await evaluateResult({
+        result: toResult(response),
+        evaluators: [
+          { type: "jsonPathEquals", path: "answer.label", expected: "spam" },
+          {
+            type: "jsonSchema",
+            schema: {
+              type: "object",
+              required: ["answer", "reasoning"],
+              properties: { answer: { type: "object" } },
+            },
+          },
+        ],
+        values: {},
+      })
+    ).map(({ passed, message }) => ({ passed, message }))
+  ).toEqual([
+    { passed: true },
+    { passed: false, message: "$.reasoning is required" },
+  ]);
+  expect(
+    validateJsonSchema({
+      value: { count: 1.5, tags: ["a", 2] },
+      schema: {
+        type: "object",
+        additionalProperties: false,
+        properties: {
+          count: { type: "integer" },
+          tags: { type: "array", items: { type: "string" } },
+        },
+      },
+    })
+  ).toEqual([
+    "$.count should be integer, got number",
+    "$.tags[1] should be string, got number",
+  ]);
+});
+
+test("failed runs fail every evaluator and count against the pass rate", async () => {
+  const evaluators = [{ type: "maxLatency" as const, maxMs: 1000 }];
+  const results = await Promise.all(
+    [
+      toResult("ok"),
+      toResult("", { runIndex: 1, status: "error", error: "boom" }),
+    ].map(async (result) => ({
+      ...result,
+      evaluations: await evaluateResult({ result, evaluators, values: {} }),
+    }))
+  );
+
+  expect(results[1].evaluations[0]).toMatchObject({
+    passed: false,
+    message: "Run did not succeed",
+  });
+  expect(getPassRate(results)).toEqual({ passed: 1, total: 2 });
+  expect(getPassRate([toResult("no evaluators")])).toBeUndefined();
+});
+
+test("judges score successful runs and average per rubric", async () => {
+  const usage = { promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+  vi.mocked(judgeResponse)
+    .mockResolvedValueOnce({
+      score: 4,
+      rationale: "Accurate",
+      attempts: 1,
+      usage,
+      cost: 0.001,
+    })
+    .mockResolvedValueOnce({
+      score: 2,
+      rationale: "Vague",
+      attempts: 1,
+      usage,
+      cost: 0.001,
+    });
+  const evaluators = [
+    {
+      type: "judge" as const,
+      rubric: "Is {{input}} answered accurately?",
+      model: "openai:gpt-4o-mini",
+      scale: { min: 1, max: 5 },
+      passScore: 3,
+    },
+  ];
+  const results = await Promise.all(
+    [
+      toResult("Paris", { prompt: "Capital of France?" }),
+      toResult("Somewhere", { runIndex: 1 }),
+      toResult("", { runIndex: 2, status: "timeout" }),
+    ].map(async (result) => ({
+      ...result,
+      evaluations: await evaluateResult({
+        result,
+        evaluators,
+        values: {},
+        input: "France",
+      }),
+    }))
+  );
+
+  expect(judgeResponse).toHaveBeenCalledTimes(2);
+  expect(judgeResponse).toHaveBeenCalledWith(
+    expect.objectContaining({
+      input: "France",
+      prompt: "Capital of France?",
+      response: "Paris",
+    })
+  );
+  expect(results.map((result) => result.evaluations[0])).toMatchObject([
+    { passed: true, score: 4, rationale: "Accurate", usage, cost: 0.001 },
+    { passed: false, score: 2, message: "Scored below 3" },
+    { passed: false, message: "Run did not succeed" },
+  ]);
+  expect(getJudgeScores(results)).toEqual([
+    {
+      label: "Judge: Is {{input}} answered accurately?",
+      average: 3,
+      count: 2,
+      scale: { min: 1, max: 5 },
+    },
+  ]);
+});
+
+const judgeEvaluator = {
+  type: "judge" as const,
+  rubric: "Is it fine?",
+  model: "openai:gpt-4o-mini",
+  scale: { min: 1, max: 5 },
+  passScore: 3,
+};
+
+const mockJudgeDelay = (getDelay: (response: string) => number) => {
+  const usage = { promptTokens: 1, completionTokens: 1, totalTokens: 2 };
+  vi.mocked(judgeResponse).mockImplementation(async ({ response }) => {
+    await new Promise((resolve) => setTimeout(resolve, getDelay(response)));
+    return { score: 5, rationale: "Fine", attempts: 1, usage };
+  });
+};
+
+test("batch judge calls never exceed the execution's maxConcurrency", async () => {
+  let active = 0;
+  let peak = 0;
+  mockJudgeDelay(() => {
+    active++;
+    peak = Math.max(peak, active);
+    setTimeout(() => active--, 5);
+    return 5;
+  });
+
+  const results = await evaluateResults({
+    results: [0, 1, 2].map((runIndex) => toResult("ok", { runIndex })),
+    evaluators: [judgeEvaluator, { ...judgeEvaluator, rubric: "Is it kind?" }],
+    values: {},
+    execution: { type: "parallel", maxConcurrency: 2 },
+  });
+
+  expect(peak).toBe(2);
+  expect(
+    results.flatMap((result) => result.evaluations!.map(({ passed }) => passed))
+  ).toEqual(Array(6).fill(true));
+});
+
+test("batch judge calls that exceed the execution's timeout fail", async () => {
+  mockJudgeDelay((response) => (response === "slow" ? 50 : 0));
+
+  const results = await evaluateResults({
+    results: [toResult("quick"), toResult("slow", { runIndex: 1 })],
+    evaluators: [judgeEvaluator],
+    values: {},
+    execution: { type: "parallel", timeoutMs: 20 },
+  });
+
+  expect(results.map((result) => result.evaluations![0])).toMatchObject([
+    { passed: true, score: 5 },
+    { passed: false, message: "Judge failed: Timeout after 20ms" },
+  ]);
+});
@@ -0,0 +1,127 @@
+import { expect, test } from "vitest";
+
+import {
+  executeRuns,
+  RunCancelledError,
+  RunSchemaError,
+  RunTimeoutError,
+} from "@/utils/executeRuns";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const toResult = (response: string) => ({
+  response,
+  duration: 0,
+  timestamp: new Date(),
+});
+
+const toErrorDetails = () => ({ duration: 0, timestamp: new Date() });
+
+test("parallel execution never exceeds maxConcurrency", async () => {
+  let active = 0;
+  let peak = 0;
+
+  const { results } = await executeRuns({
+    runCount: 5,
+    execution: { type: "parallel", maxConcurrency: 2 },
+    run: async ({ runIndex }) => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+      return toResult(`run ${runIndex}`);
+    },
+    onError: toErrorDetails,
+  });
+
+  expect(results).toHaveLength(5);
+  expect(peak).toBe(2);
+});
+
+test("slow parallel runs fail with a timeout instead of blocking the batch", async () => {
+  const { results } = await executeRuns({
+    runCount: 2,
+    execution: { type: "parallel", timeoutMs: 10 },
+    run: async ({ runIndex }) => {
+      await delay(runIndex === 0 ? 50 : 0);
+      return toResult("done");
+    },
+    onError: toErrorDetails,
+  });
+
+  expect(results.map((result) => result.status)).toEqual([
+    "timeout",
+    "success",
+  ]);
+  expect(results[0].error).toBe(new RunTimeoutError(10).message);
+});
+
+test("a timed-out run's signal is aborted so its call can be cancelled", async () => {
+  const signals: AbortSignal[] = [];
+  await executeRuns({
+    runCount: 2,
+    execution: { type: "parallel", timeoutMs: 10 },
+    run: async ({ runIndex, runSignal }) => {
+      signals.push(runSignal);
+      await delay(runIndex === 0 ? 50 : 0);
+      return toResult("done");
+    },
+    onError: toErrorDetails,
+  });
+
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+});
+
+test("parallel results keep run order and record each failure's status", async () => {
+  const { results } = await executeRuns({
+    runCount: 4,
+    execution: { type: "parallel" },
+    run: async ({ runIndex }) => {
+      // Later runs finish first
+      await delay((4 - runIndex) * 5);
+      if (runIndex === 1) throw new Error("boom");
+      if (runIndex === 2) throw new RunCancelledError();
+      return toResult(`run ${runIndex}`);
+    },
+    onError: toErrorDetails,
+  });
+
+  expect(
+    results.map(({ runIndex, status, response, error }) => ({
+      runIndex,
+      status,
+      response,
+      error,
+    }))
+  ).toEqual([
+    { runIndex: 0, status: "success", response: "run 0", error: undefined },
+    { runIndex: 1, status: "error", response: "", error: "boom" },
+    { runIndex: 2, status: "cancelled", response: "", error: "Run cancelled" },
+    { runIndex: 3, status: "success", response: "run 3", error: undefined },
+  ]);
+});
+
+test("schema violations are invalid runs that keep their handler details", async () => {
+  const { results } = await executeRuns({
+    runCount: 1,
+    execution: { type: "serial" },
+    run: async () => {
+      throw new RunSchemaError({
+        issues: ["$.label is required"],
+        text: "{}",
+        usage: { promptTokens: 10, completionTokens: 2, totalTokens: 12 },
+      });
+    },
+    onError: ({ error }) => ({
+      ...toErrorDetails(),
+      ...(error instanceof RunSchemaError && { usage: error.usage }),
+    }),
+  });
+
+  expect(results[0]).toMatchObject({
+    status: "invalid",
+    response: "",
+    error: "Schema violation: $.label is required",
+    usage: { totalTokens: 12 },
+  });
+});
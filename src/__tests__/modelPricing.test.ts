@@ -0,0 +1,99 @@
+import { expect, test } from "vitest";
+
+import {
+  calculateCost,
+  summarizeUsage,
+  toTokenUsage,
+} from "@/lib/modelPricing";
+
+test("prices prompt and completion tokens separately", () => {
+  expect(
+    calculateCost({
+      model: "openai:gpt-4o",
+      usage: { promptTokens: 1000, completionTokens: 500, totalTokens: 1500 },
+    })
+  ).toBeCloseTo(0.0075);
+  expect(
+    calculateCost({
+      model: "unknown:model",
+      usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 },
+    })
+  ).toBeUndefined();
+});
+
+test("missing counts are treated as zero", () => {
+  expect(
+    toTokenUsage({ promptTokens: 10, completionTokens: NaN, totalTokens: NaN })
+  ).toEqual({ promptTokens: 10, completionTokens: 0, totalTokens: 0 });
+});
+
+test("batch totals skip runs without usage or cost", () => {
+  const timestamp = new Date();
+  expect(
+    summarizeUsage([
+      {
+        runIndex: 0,
+        status: "success",
+        response: "a",
+        duration: 1,
+        timestamp,
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        cost: 0.5,
+      },
+      {
+        runIndex: 1,
+        status: "error",
+        response: "",
+        error: "failed",
+        duration: 1,
+        timestamp,
+      },
+      {
+        runIndex: 2,
+        status: "success",
+        response: "b",
+        duration: 1,
+        timestamp,
+        usage: { promptTokens: 20, completionTokens: 5, totalTokens: 25 },
+        cost: 0.25,
+      },
+    ])
+  ).toEqual({
+    usage: { promptTokens: 30, completionTokens: 10, totalTokens: 40 },
+    cost: 0.75,
+  });
+});
+
+test("judge calls count toward batch totals", () => {
+  expect(
+    summarizeUsage([
+      {
+        runIndex: 0,
+        status: "success",
+        response: "a",
+        duration: 1,
+        timestamp: new Date(),
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+        cost: 0.5,
+        evaluations: [
+          {
+            type: "judge",
+            label: "Judge: Accurate?",
+            passed: true,
+            score: 4,
+            usage: {
+              promptTokens: 100,
+              completionTokens: 10,
+              totalTokens: 110,
+            },
+            cost: 0.25,
+          },
+          { type: "maxLength", label: "At most 10 characters", passed: true },
+        ],
+      },
+    ])
+  ).toEqual({
+    usage: { promptTokens: 110, completionTokens: 15, totalTokens: 125 },
+    cost: 0.75,
+  });
+});
@@ -14,18 +14,24 @@ vi.mock("@clerk/nextjs", () => ({
   ),
 }));
 
-test("Page", () => {
+// The wrapper reads templates from the database, which tests don't have
+vi.mock("@/components/BasicPromptWrapper", () => ({
+  default: () => <div data-testid="basic-prompt" />,
+}));
+
+test("Page", async () => {
   // Create a new QueryClient for each test
   const queryClient = new QueryClient();
 
   render(
     <QueryClientProvider client={queryClient}>
-      <Page />
+      {await Page()}
     </QueryClientProvider>
   );
 
-  // Check for the Hello World heading
+  // Check for the app heading
   expect(
-    screen.getByRole("heading", { level: 1, name: "Hello World" })
+    screen.getByRole("heading", { level: 1, name: "Prompt Dog" })
   ).toBeDefined();
+  expect(screen.getByTestId("basic-prompt")).toBeDefined();
 });
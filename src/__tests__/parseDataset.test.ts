@@ -0,0 +1,40 @@
+import { expect, test } from "vitest";
+
+import { getDefaultColumnMapping } from "@/utils/executeDataset";
+import { DatasetParseError, parseDataset } from "@/utils/parseDataset";
+
+test("CSV fields may be quoted across commas, quotes and newlines", () => {
+  const text = 'question,notes\r\n"Paris, France","said ""hi""\nthen left"\n\n';
+
+  expect(parseDataset({ fileName: "inputs.csv", text })).toEqual({
+    columns: ["question", "notes"],
+    rows: [{ question: "Paris, France", notes: 'said "hi"\nthen left' }],
+  });
+});
+
+test("JSONL rows share the union of keys and keep nested values as JSON", () => {
+  const text = '{"q": "a", "n": 1}\n\n{"q": "b", "tags": ["x"]}\n';
+
+  expect(parseDataset({ fileName: "inputs.jsonl", text })).toEqual({
+    columns: ["q", "n", "tags"],
+    rows: [
+      { q: "a", n: "1", tags: "" },
+      { q: "b", n: "", tags: '["x"]' },
+    ],
+  });
+  expect(() =>
+    parseDataset({ fileName: "inputs.jsonl", text: "[1, 2]" })
+  ).toThrow(DatasetParseError);
+});
+
+test("columns map to variables by name, falling back for a single input", () => {
+  expect(
+    getDefaultColumnMapping({
+      inputNames: ["topic", "tone"],
+      columns: ["Topic", "audience"],
+    })
+  ).toEqual({ topic: "Topic" });
+  expect(
+    getDefaultColumnMapping({ inputNames: ["INPUT"], columns: ["question"] })
+  ).toEqual({ INPUT: "question" });
+});
@@ -0,0 +1,146 @@
+import { APICallError } from "ai";
+import { afterEach, beforeEach, expect, test, vi } from "vitest";
+
+import { PROVIDER_RATE_LIMITS, RETRY_POLICY } from "@/lib/rateLimits";
+
+const MODEL = "anthropic:claude-3-5-haiku-latest";
+
+const toApiError = (
+  statusCode: number,
+  responseHeaders?: Record<string, string>
+) =>
+  new APICallError({
+    message: `Status ${statusCode}`,
+    url: "https://api.example.com",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+
+// Re-imported per test so each starts with empty rate limit windows
+const loadProviderLimits = async () =>
+  (await import("@/server/server-only/providerLimits")).withProviderLimits;
+
+beforeEach(() => {
+  vi.resetModules();
+  vi.useFakeTimers();
+  // Removes the backoff jitter so delays are exact
+  vi.spyOn(Math, "random").mockReturnValue(0);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+test("calls over the provider's requests per minute wait for the window", async () => {
+  const withProviderLimits = await loadProviderLimits();
+  const { requestsPerMinute } = PROVIDER_RATE_LIMITS.anthropic;
+  const run = vi.fn(async () => "done");
+  const call = () =>
+    withProviderLimits({ model: MODEL, run, getUsage: () => undefined });
+
+  await Promise.all(Array.from({ length: requestsPerMinute }, call));
+  expect(run).toHaveBeenCalledTimes(requestsPerMinute);
+
+  const queued = call();
+  await vi.advanceTimersByTimeAsync(59_999);
+  expect(run).toHaveBeenCalledTimes(requestsPerMinute);
+
+  await vi.advanceTimersByTimeAsync(1);
+  await expect(queued).resolves.toEqual({ result: "done", attempts: 1 });
+  expect(run).toHaveBeenCalledTimes(requestsPerMinute + 1);
+});
+
+test.each([429, 500, 503])(
+  "retries a %i response with backoff",
+  async (statusCode) => {
+    const withProviderLimits = await loadProviderLimits();
+    const run = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(toApiError(statusCode))
+      .mockResolvedValueOnce("done");
+
+    const call = withProviderLimits({
+      model: MODEL,
+      run,
+      getUsage: () => undefined,
+    });
+
+    await vi.advanceTimersByTimeAsync(RETRY_POLICY.baseDelayMs - 1);
+    expect(run).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(call).resolves.toEqual({ result: "done", attempts: 2 });
+  }
+);
+
+test("waits for retry-after instead of the backoff when it's sent", async () => {
+  const withProviderLimits = await loadProviderLimits();
+  const run = vi
+    .fn<() => Promise<string>>()
+    .mockRejectedValueOnce(toApiError(429, { "retry-after": "5" }))
+    .mockResolvedValueOnce("done");
+
+  const call = withProviderLimits({
+    model: MODEL,
+    run,
+    getUsage: () => undefined,
+  });
+
+  await vi.advanceTimersByTimeAsync(4999);
+  expect(run).toHaveBeenCalledTimes(1);
+
+  await vi.advanceTimersByTimeAsync(1);
+  await expect(call).resolves.toEqual({ result: "done", attempts: 2 });
+});
+
+test("other 4xx responses fail without retrying", async () => {
+  const withProviderLimits = await loadProviderLimits();
+  const error = toApiError(400);
+  const run = vi.fn<() => Promise<string>>().mockRejectedValue(error);
+
+  await expect(
+    withProviderLimits({ model: MODEL, run, getUsage: () => undefined })
+  ).rejects.toBe(error);
+  expect(run).toHaveBeenCalledTimes(1);
+});
+
+test("gives up after the maximum attempts", async () => {
+  const withProviderLimits = await loadProviderLimits();
+  const run = vi.fn<() => Promise<string>>().mockRejectedValue(toApiError(503));
+
+  const call = withProviderLimits({
+    model: MODEL,
+    run,
+    getUsage: () => undefined,
+  });
+  const assertion = expect(call).rejects.toThrow(
+    `Status 503 (after ${RETRY_POLICY.maxAttempts} attempts)`
+  );
+
+  await vi.runAllTimersAsync();
+  await assertion;
+  expect(run).toHaveBeenCalledTimes(RETRY_POLICY.maxAttempts);
+});
+
+test("aborting stops waiting for a retry", async () => {
+  const withProviderLimits = await loadProviderLimits();
+  const controller = new AbortController();
+  const run = vi.fn<() => Promise<string>>().mockRejectedValue(toApiError(429));
+
+  const call = withProviderLimits({
+    model: MODEL,
+    abortSignal: controller.signal,
+    run,
+    getUsage: () => undefined,
+  });
+  const assertion = expect(call).rejects.toThrow("Cancelled");
+
+  await vi.advanceTimersByTimeAsync(0);
+  controller.abort(new Error("Cancelled"));
+
+  await assertion;
+  await vi.runAllTimersAsync();
+  expect(run).toHaveBeenCalledTimes(1);
+});
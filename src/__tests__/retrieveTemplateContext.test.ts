@@ -0,0 +1,30 @@
+import { expect, test, vi } from "vitest";
+
+import { retrieveTemplateContext } from "@/server/actions/retrieveTemplateContext";
+import { getCollectionOwner } from "@/server/db/collections";
+import { retrieveChunks } from "@/server/server-only/retrieval";
+
+// No Clerk session, and not inside an API route
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: vi.fn(() => Promise.resolve({ userId: null })),
+}));
+vi.mock("@/server/db/apiKeys", () => ({}));
+vi.mock("@/server/db/promptTemplates", () => ({
+  getPromptTemplate: vi.fn(() =>
+    Promise.resolve({ id: 1, retrieval: { collectionId: 2 } })
+  ),
+}));
+vi.mock("@/server/db/collections", () => ({
+  getCollectionOwner: vi.fn(() => Promise.resolve("user_owner")),
+}));
+vi.mock("@/server/server-only/retrieval", () => ({
+  retrieveChunks: vi.fn(() => Promise.resolve([])),
+}));
+
+test("retrieval is refused without a session or API key", async () => {
+  await expect(
+    retrieveTemplateContext({ templateId: 1, query: "refunds" })
+  ).rejects.toThrow("Sign in");
+  expect(getCollectionOwner).not.toHaveBeenCalled();
+  expect(retrieveChunks).not.toHaveBeenCalled();
+});
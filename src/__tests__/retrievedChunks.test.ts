@@ -0,0 +1,31 @@
+import { expect, test } from "vitest";
+
+import {
+  formatRetrievedContext,
+  toRetrievalLogs,
+} from "@/utils/retrievedChunks";
+
+test("retrieved chunks are tagged with their source", () => {
+  const chunks = [
+    {
+      documentId: 1,
+      documentName: "Handbook",
+      index: 2,
+      content: "Refunds take 5 days.",
+      similarity: 0.8123,
+    },
+  ];
+
+  expect(formatRetrievedContext(chunks)).toBe(
+    '<chunk source="Handbook #3">\nRefunds take 5 days.\n</chunk>'
+  );
+  expect(toRetrievalLogs(chunks)).toEqual([
+    {
+      label: "Handbook #3 (similarity 0.812)",
+      text: "Refunds take 5 days.",
+    },
+  ]);
+  expect(toRetrievalLogs([])).toEqual([
+    { label: "retrieval", text: "No chunks matched the input" },
+  ]);
+});
@@ -0,0 +1,39 @@
+import { expect, test } from "vitest";
+
+import {
+  buildPromptMessages,
+  formatPromptMessages,
+} from "@/utils/templateMessages";
+
+test("plain templates are not sent as messages", () => {
+  expect(
+    buildPromptMessages({
+      template: { text: "Summarise {{INPUT}}" },
+      values: { INPUT: "this" },
+    })
+  ).toBeUndefined();
+});
+
+test("renders placeholders into every message, ending with the template text", () => {
+  const messages = buildPromptMessages({
+    template: {
+      systemMessage: "Reply in {{language}}",
+      messages: [
+        { role: "user", content: "Hello" },
+        { role: "assistant", content: "Bonjour" },
+      ],
+      text: "{{INPUT}}",
+    },
+    values: { language: "French", INPUT: "Goodbye" },
+  });
+
+  expect(messages).toEqual([
+    { role: "system", content: "Reply in French" },
+    { role: "user", content: "Hello" },
+    { role: "assistant", content: "Bonjour" },
+    { role: "user", content: "Goodbye" },
+  ]);
+  expect(formatPromptMessages(messages ?? [])).toBe(
+    "[System]\nReply in French\n\n[User]\nHello\n\n[Assistant]\nBonjour\n\n[User]\nGoodbye"
+  );
+});
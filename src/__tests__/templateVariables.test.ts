@@ -0,0 +1,63 @@
+import { expect, test } from "vitest";
+
+import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+import {
+  extractTemplateVariables,
+  resolveTemplateVariables,
+  TemplateVariableError,
+  validateTemplateValues,
+} from "@/utils/templateVariables";
+
+test("detects each placeholder once, in order of appearance", () => {
+  expect(
+    extractTemplateVariables(
+      "Hi {{customer_name}}, re: {{ document }} {{customer_name}}"
+    )
+  ).toEqual(["customer_name", "document"]);
+});
+
+test("declarations supply types and defaults for detected variables", () => {
+  const variables = resolveTemplateVariables({
+    text: "{{INPUT}} in {{language}}",
+    declared: [
+      { name: "language", type: "text", defaultValue: "English" },
+      { name: "removed", type: "number" },
+    ],
+  });
+
+  expect(variables).toEqual([
+    { name: "INPUT", type: "longText" },
+    { name: "language", type: "text", defaultValue: "English" },
+  ]);
+});
+
+test("reports missing, unknown and mistyped values together", () => {
+  const run = () =>
+    validateTemplateValues({
+      variables: [
+        { name: "name", type: "text" },
+        { name: "count", type: "number" },
+      ],
+      values: { count: "many", extra: "x" },
+    });
+
+  expect(run).toThrow(TemplateVariableError);
+  try {
+    run();
+  } catch (error) {
+    expect((error as TemplateVariableError).issues).toEqual([
+      'Unknown variable "extra"',
+      'Missing value for "name"',
+      '"count" must be a number',
+    ]);
+  }
+});
+
+test("replaces every occurrence of every placeholder", () => {
+  expect(
+    insertInputIntoPrompt({
+      template: "{{a}} and {{a}} then {{ b }} but not {{c}}",
+      values: { a: "1", b: "2" },
+    })
+  ).toBe("1 and 1 then 2 but not {{c}}");
+});
@@ -0,0 +1,34 @@
+import { expect, test } from "vitest";
+
+import { flattenTrace } from "@/utils/traceSpans";
+
+test("spans are flattened depth-first and timed against the root", () => {
+  const rows = flattenTrace({
+    name: "chain",
+    startTime: 1000,
+    endTime: 2000,
+    children: [
+      {
+        name: "outline",
+        startTime: 1000,
+        endTime: 1250,
+        children: [{ name: "retry", startTime: 1100, endTime: 1100 }],
+      },
+      { name: "draft", startTime: 1250, endTime: 2000, error: "Timeout" },
+    ],
+  });
+
+  expect(
+    rows.map(({ span, depth, offset, width }) => [
+      span.name,
+      depth,
+      offset,
+      width,
+    ])
+  ).toEqual([
+    ["chain", 0, 0, 1],
+    ["outline", 1, 0, 0.25],
+    ["retry", 2, 0.1, 0.005],
+    ["draft", 1, 0.25, 0.75],
+  ]);
+});
@@ -0,0 +1,56 @@
+import { expect, test } from "vitest";
+
+import { createInMemoryVectorStore } from "@/utils/vectorStore";
+
+test("search ranks a user's chunks by similarity", async () => {
+  const store = createInMemoryVectorStore();
+  await store.addChunks({
+    userId: "user_1",
+    document: { id: 1, name: "Guide", collectionId: 1 },
+    chunks: [
+      { index: 0, content: "cats", embedding: [1, 0] },
+      { index: 1, content: "dogs", embedding: [0, 1] },
+      { index: 2, content: "both", embedding: [1, 1] },
+    ],
+  });
+  await store.addChunks({
+    userId: "user_1",
+    document: { id: 2, name: "Notes", collectionId: 2 },
+    chunks: [{ index: 0, content: "more cats", embedding: [1, 0.1] }],
+  });
+  await store.addChunks({
+    userId: "user_2",
+    document: { id: 3, name: "Other", collectionId: 3 },
+    chunks: [{ index: 0, content: "cats", embedding: [1, 0] }],
+  });
+
+  const results = await store.search({
+    userId: "user_1",
+    embedding: [1, 0],
+    topK: 2,
+    minSimilarity: 0.5,
+    collectionId: 1,
+  });
+  expect(
+    results.map(({ content, documentName }) => [content, documentName])
+  ).toEqual([
+    ["cats", "Guide"],
+    ["both", "Guide"],
+  ]);
+  expect(results[1].similarity).toBeCloseTo(Math.SQRT1_2);
+  expect(
+    (await store.search({ userId: "user_1", embedding: [1, 0], topK: 2 })).map(
+      (chunk) => chunk.content
+    )
+  ).toEqual(["cats", "more cats"]);
+
+  await store.deleteDocument({ userId: "user_1", documentId: 1 });
+  expect(
+    await store.search({
+      userId: "user_1",
+      embedding: [1, 0],
+      topK: 5,
+      collectionId: 1,
+    })
+  ).toEqual([]);
+});
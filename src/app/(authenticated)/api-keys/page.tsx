@@ -0,0 +1,21 @@
+import ApiKeyManager from "@/components/ApiKeyManager";
+import { getApiKeys } from "@/server/db/apiKeys";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export default async function ApiKeysPage() {
+  const userId = await getUserId();
+  const apiKeys = await getApiKeys(userId);
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-3xl space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">API Keys</h1>
+        <p className="text-sm text-muted-foreground">
+          Send a key as <code>Authorization: Bearer &lt;key&gt;</code> to call
+          the <code>/api/v1</code> routes as yourself
+        </p>
+      </div>
+      <ApiKeyManager apiKeys={apiKeys} />
+    </div>
+  );
+}
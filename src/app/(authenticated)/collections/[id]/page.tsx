@@ -0,0 +1,53 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import DocumentManager from "@/components/DocumentManager";
+import RetrievalQuery from "@/components/RetrievalQuery";
+import { getCollection } from "@/server/db/collections";
+import { getDocuments } from "@/server/db/documents";
+import { getUserId } from "@/server/server-only/getUserId";
+
+interface CollectionPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function CollectionPage({ params }: CollectionPageProps) {
+  const { id } = await params;
+  const collectionId = parseInt(id);
+  if (Number.isNaN(collectionId)) {
+    notFound();
+  }
+
+  const userId = await getUserId();
+  const [collection, documents] = await Promise.all([
+    getCollection({ id: collectionId, userId }),
+    getDocuments({ collectionId, userId }),
+  ]);
+  if (!collection) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-7xl space-y-6">
+      <div className="space-y-1">
+        <Link
+          href="/collections"
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          ← Back to knowledge base
+        </Link>
+        <h1 className="text-2xl font-bold">{collection.name}</h1>
+        {collection.description && (
+          <p className="text-sm text-muted-foreground">
+            {collection.description}
+          </p>
+        )}
+      </div>
+
+      <div className="grid gap-8 lg:grid-cols-2">
+        <DocumentManager collectionId={collection.id} documents={documents} />
+        <RetrievalQuery collectionId={collection.id} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import CollectionManager from "@/components/CollectionManager";
+import { getCollections } from "@/server/db/collections";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export default async function CollectionsPage() {
+  const userId = await getUserId();
+  const collections = await getCollections(userId);
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-3xl space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold">Knowledge Base</h1>
+        <p className="text-sm text-muted-foreground">
+          Templates with retrieval fill {"{{CONTEXT}}"} from one of these
+          collections; the RAG Answer handler searches all of them
+        </p>
+      </div>
+      <CollectionManager collections={collections} />
+    </div>
+  );
+}
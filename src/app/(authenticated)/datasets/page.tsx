@@ -0,0 +1,32 @@
+import DatasetEvaluation from "@/components/DatasetEvaluation";
+import DatasetManager from "@/components/DatasetManager";
+import { getDatasets } from "@/server/db/datasets";
+import { getPromptChains } from "@/server/db/promptChains";
+import getPromptTemplates from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export default async function DatasetsPage() {
+  const userId = await getUserId();
+  const [datasets, promptTemplates, promptChains] = await Promise.all([
+    getDatasets(userId),
+    getPromptTemplates(),
+    getPromptChains(),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-7xl space-y-6">
+      <h1 className="text-2xl font-bold">Dataset Evaluation</h1>
+
+      <div className="grid gap-8 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <DatasetEvaluation
+            datasets={datasets}
+            promptTemplates={promptTemplates}
+            promptChains={promptChains}
+          />
+        </div>
+        <DatasetManager datasets={datasets} />
+      </div>
+    </div>
+  );
+}
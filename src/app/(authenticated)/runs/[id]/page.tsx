@@ -0,0 +1,47 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+
+import MultiplePromptResponse from "@/components/MultiplePromptResponse";
+import { getPromptRun } from "@/server/db/promptRuns";
+import { getUserId } from "@/server/server-only/getUserId";
+
+interface RunPageProps {
+  params: Promise<{ id: string }>;
+}
+
+export default async function RunPage({ params }: RunPageProps) {
+  const { id } = await params;
+  const runId = parseInt(id);
+  if (Number.isNaN(runId)) {
+    notFound();
+  }
+
+  const userId = await getUserId();
+  const run = await getPromptRun({ id: runId, userId });
+  if (!run) {
+    notFound();
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-5xl space-y-6">
+      <div className="space-y-1">
+        <Link
+          href="/runs"
+          className="text-sm text-muted-foreground hover:underline"
+        >
+          ← Back to runs
+        </Link>
+        <h1 className="text-2xl font-bold">{run.handlerName}</h1>
+        <p className="text-sm text-muted-foreground">
+          {run.createdAt.toLocaleString()}
+        </p>
+      </div>
+
+      <MultiplePromptResponse
+        data={run.data}
+        loading={false}
+        title={run.data.results.length === 1 ? "AI Response" : "AI Responses"}
+      />
+    </div>
+  );
+}
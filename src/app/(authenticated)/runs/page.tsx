@@ -0,0 +1,203 @@
+import Link from "next/link";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCost } from "@/lib/modelPricing";
+import { getPromptRunHandlers, getPromptRuns } from "@/server/db/promptRuns";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptResult, PromptRunFilters } from "@/types/promptHandler";
+import {
+  formatJudgeScore,
+  getJudgeScores,
+  getPassRate,
+} from "@/utils/evaluators";
+
+interface RunsPageProps {
+  searchParams: Promise<{
+    handler?: string;
+    from?: string;
+    to?: string;
+    q?: string;
+    failures?: string;
+  }>;
+}
+
+// Empty form fields arrive as "", which should mean "no filter"
+const nonEmpty = (value?: string) => {
+  const trimmed = value?.trim();
+  return trimmed === "" ? undefined : trimmed;
+};
+
+const parseDate = (value?: string) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+const formatDuration = (ms: number) => {
+  if (ms < 1000) return `${ms}ms`;
+  return `${(ms / 1000).toFixed(2)}s`;
+};
+
+// Cancelled runs are labelled separately, so they don't count as failures here
+const countFailed = (results: PromptResult[]) =>
+  results.filter(
+    (result) => result.status !== "success" && result.status !== "cancelled"
+  ).length;
+
+// Only batches from templates with evaluators have a pass rate
+const formatPassRate = (results: PromptResult[]) => {
+  const passRate = getPassRate(results);
+  return passRate && `${passRate.passed} / ${passRate.total} passed`;
+};
+
+export default async function RunsPage({ searchParams }: RunsPageProps) {
+  const params = await searchParams;
+  const userId = await getUserId();
+
+  const toDate = parseDate(params.to);
+  const filters: PromptRunFilters = {
+    handlerId: nonEmpty(params.handler),
+    from: parseDate(params.from),
+    // "to" is inclusive of the whole selected day
+    to: toDate && new Date(toDate.getTime() + 24 * 60 * 60 * 1000),
+    search: nonEmpty(params.q),
+    failuresOnly: params.failures === "1",
+  };
+
+  const [runs, handlers] = await Promise.all([
+    getPromptRuns({ userId, filters }),
+    getPromptRunHandlers(userId),
+  ]);
+
+  return (
+    <div className="container mx-auto px-4 py-10 max-w-5xl space-y-6">
+      <h1 className="text-2xl font-bold">Run History</h1>
+
+      <form
+        method="get"
+        className="grid gap-4 md:grid-cols-5 items-end bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6"
+      >
+        <div className="space-y-2">
+          <Label htmlFor="runs-handler">Handler</Label>
+          <select
+            id="runs-handler"
+            name="handler"
+            defaultValue={params.handler ?? ""}
+            className="border-input dark:bg-input/30 flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+          >
+            <option value="">All handlers</option>
+            {handlers.map((handler) => (
+              <option key={handler.handlerId} value={handler.handlerId}>
+                {handler.handlerName}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="runs-from">From</Label>
+          <Input
+            id="runs-from"
+            name="from"
+            type="date"
+            defaultValue={params.from}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="runs-to">To</Label>
+          <Input id="runs-to" name="to" type="date" defaultValue={params.to} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="runs-search">Search</Label>
+          <Input
+            id="runs-search"
+            name="q"
+            placeholder="Input or response text"
+            defaultValue={params.q}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="flex h-9 items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              name="failures"
+              value="1"
+              defaultChecked={filters.failuresOnly}
+            />
+            Failures only
+          </label>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm">
+              Filter
+            </Button>
+            <Button asChild type="button" size="sm" variant="outline">
+              <Link href="/runs">Reset</Link>
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      {runs.length === 0 ? (
+        <p className="py-8 text-center text-muted-foreground">No runs found</p>
+      ) : (
+        <ul className="space-y-3">
+          {runs.map((run) => (
+            <li key={run.id}>
+              <Link
+                href={`/runs/${run.id}`}
+                className="block rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 hover:border-blue-400 transition-colors"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium">{run.handlerName}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {run.createdAt.toLocaleString()}
+                  </span>
+                </div>
+                <p className="mt-2 text-sm text-slate-600 dark:text-slate-400 line-clamp-2">
+                  {run.data.userInput}
+                </p>
+                <div className="mt-2 flex flex-wrap gap-4 text-xs text-muted-foreground">
+                  <span>
+                    {run.data.results.length}{" "}
+                    {run.data.results.length === 1 ? "run" : "runs"}
+                  </span>
+                  <span>{formatDuration(run.data.totalDuration)}</span>
+                  {run.data.usage && (
+                    <span>
+                      {run.data.usage.totalTokens.toLocaleString()} tokens
+                    </span>
+                  )}
+                  {run.data.cost !== undefined && (
+                    <span>{formatCost(run.data.cost)}</span>
+                  )}
+                  {countFailed(run.data.results) > 0 && (
+                    <span className="text-red-600 dark:text-red-400">
+                      {countFailed(run.data.results)} failed
+                    </span>
+                  )}
+                  {formatPassRate(run.data.results) && (
+                    <span>{formatPassRate(run.data.results)}</span>
+                  )}
+                  {getJudgeScores(run.data.results).map((score) => (
+                    <span key={score.label} title={score.label}>
+                      judge {formatJudgeScore(score)}
+                    </span>
+                  ))}
+                  {run.data.cancelled && (
+                    <span className="text-amber-600 dark:text-amber-400">
+                      Cancelled
+                    </span>
+                  )}
+                  {run.data.templateVersion !== undefined && (
+                    <span>v{run.data.templateVersion}</span>
+                  )}
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { revalidatePath } from "next/cache";
+
+import { deleteDatasetById } from "@/server/db/datasets";
+import { handleApiRequest, parseRouteId } from "@/server/server-only/publicApi";
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest({
+    scope: "datasets:manage",
+    run: async (userId) => {
+      await deleteDatasetById({
+        id: parseRouteId((await params).id),
+        userId,
+      });
+
+      revalidatePath("/datasets");
+      return { deleted: true };
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { revalidatePath } from "next/cache";
+
+import {
+  datasetInputSchema,
+  getDatasets,
+  insertDataset,
+} from "@/server/db/datasets";
+import { handleApiRequest, readJsonBody } from "@/server/server-only/publicApi";
+
+export async function GET() {
+  return handleApiRequest({
+    scope: "datasets:manage",
+    run: async (userId) => ({ datasets: await getDatasets(userId) }),
+  });
+}
+
+// Takes the same { name, columns, rows } shape the upload form sends
+export async function POST(request: Request) {
+  return handleApiRequest({
+    scope: "datasets:manage",
+    run: async (userId) => {
+      const created = await insertDataset({
+        dataset: datasetInputSchema.parse(await readJsonBody(request)),
+        userId,
+      });
+
+      revalidatePath("/datasets");
+      return created;
+    },
+  });
+}
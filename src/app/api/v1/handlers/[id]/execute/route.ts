@@ -0,0 +1,55 @@
+import { DEFAULT_MODEL_ID, getModelDefinition } from "@/lib/models";
+import {
+  ApiError,
+  executeRequestSchema,
+  handleApiRequest,
+  loadPromptHandlers,
+  readJsonBody,
+} from "@/server/server-only/publicApi";
+import { formatTemplateValues } from "@/utils/templateVariables";
+
+/**
+ * Executes a handler and answers with its MultiplePromptResults
+ * The batch is saved to the key owner's run history, so runId can be fetched
+ * later; closing the connection cancels the unfinished runs
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest({
+    scope: "handlers:execute",
+    run: async () => {
+      const { id } = await params;
+      const body = executeRequestSchema.parse(await readJsonBody(request));
+
+      const handlers = await loadPromptHandlers();
+      const handler = handlers.find((handler) => handler.id === id);
+      if (!handler) {
+        throw new ApiError({ status: 404, message: "Handler not found" });
+      }
+
+      const model = body.model ?? DEFAULT_MODEL_ID;
+      if (
+        handler.requiresJson &&
+        !getModelDefinition(model)?.capabilities.json
+      ) {
+        throw new ApiError({
+          status: 400,
+          message: `${handler.name} needs a model with JSON support`,
+        });
+      }
+
+      return handler.execute({
+        input: body.input.trim()
+          ? body.input
+          : formatTemplateValues(body.variables ?? {}),
+        variables: body.variables,
+        runCount: body.runCount,
+        model,
+        parameters: body.parameters,
+        signal: request.signal,
+      });
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import {
+  handleApiRequest,
+  loadPromptHandlers,
+  toHandlerSummary,
+} from "@/server/server-only/publicApi";
+
+export async function GET() {
+  return handleApiRequest({
+    scope: "templates:read",
+    run: async () => {
+      const handlers = await loadPromptHandlers();
+      return { handlers: handlers.map(toHandlerSummary) };
+    },
+  });
+}
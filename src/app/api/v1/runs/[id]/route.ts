@@ -0,0 +1,26 @@
+import { getPromptRun } from "@/server/db/promptRuns";
+import {
+  ApiError,
+  handleApiRequest,
+  parseRouteId,
+} from "@/server/server-only/publicApi";
+
+// Runs are private, so other users' runs are reported as missing
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest({
+    scope: "handlers:execute",
+    run: async (userId) => {
+      const run = await getPromptRun({
+        id: parseRouteId((await params).id),
+        userId,
+      });
+      if (!run) {
+        throw new ApiError({ status: 404, message: "Run not found" });
+      }
+      return run;
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { fetchPromptTemplate } from "@/server/actions/fetchPromptTemplate";
+import {
+  ApiError,
+  handleApiRequest,
+  parseRouteId,
+} from "@/server/server-only/publicApi";
+
+// Read the same way handlers do, so uploaded lookup files stay private
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  return handleApiRequest({
+    scope: "templates:read",
+    run: async () => {
+      const template = await fetchPromptTemplate(
+        parseRouteId((await params).id)
+      );
+      if (!template) {
+        throw new ApiError({ status: 404, message: "Template not found" });
+      }
+      return template;
+    },
+  });
+}
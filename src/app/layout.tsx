@@ -7,6 +7,7 @@ import { SignUpButton } from "@clerk/nextjs";
 import { SignInButton } from "@clerk/nextjs";
 import { SignedOut } from "@clerk/nextjs";
 import { ClerkProvider } from "@clerk/nextjs";
+import Link from "next/link";
 
 import { Providers } from "@/providers";
 
@@ -43,6 +44,36 @@ export default function RootLayout({
                 <SignUpButton />
               </SignedOut>
               <SignedIn>
+                <Link
+                  href="/"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Playground
+                </Link>
+                <Link
+                  href="/runs"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Runs
+                </Link>
+                <Link
+                  href="/datasets"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Datasets
+                </Link>
+                <Link
+                  href="/collections"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  Knowledge Base
+                </Link>
+                <Link
+                  href="/api-keys"
+                  className="text-sm text-muted-foreground hover:text-foreground"
+                >
+                  API Keys
+                </Link>
                 <UserButton />
               </SignedIn>
             </header>
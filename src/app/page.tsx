@@ -2,6 +2,9 @@ import React from "react";
 
 import BasicPromptWrapper from "@/components/BasicPromptWrapper";
 
+// Templates are read from the database on every request
+export const dynamic = "force-dynamic";
+
 export default async function Home() {
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100 dark:from-slate-900 dark:to-slate-800">
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { createApiKey } from "@/server/actions/createApiKey";
+import { revokeApiKey } from "@/server/actions/revokeApiKey";
+import {
+  ApiKey,
+  ApiKeyInput,
+  ApiKeyScope,
+  CreatedApiKey,
+} from "@/types/promptHandler";
+import { API_KEY_SCOPES } from "@/utils/apiKeys";
+
+interface ApiKeyManagerProps {
+  apiKeys: ApiKey[];
+}
+
+const EMPTY_API_KEY: ApiKeyInput = {
+  name: "",
+  scopes: ["templates:read", "handlers:execute"],
+};
+
+const getScopeLabel = (scope: ApiKeyScope) =>
+  API_KEY_SCOPES.find((option) => option.value === scope)?.label ?? scope;
+
+const ApiKeyManager = ({ apiKeys }: ApiKeyManagerProps) => {
+  const [draft, setDraft] = useState<ApiKeyInput>(EMPTY_API_KEY);
+  // Only the create response carries the full key
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh keys arrive via props
+  const runAction = async (action: () => Promise<void>) => {
+    setIsPending(true);
+    setError("");
+
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save API key");
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const toggleScope = (scope: ApiKeyScope) =>
+    setDraft((prev) => ({
+      ...prev,
+      scopes: prev.scopes.includes(scope)
+        ? prev.scopes.filter((current) => current !== scope)
+        : [...prev.scopes, scope],
+    }));
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(async () => {
+      setCreated(await createApiKey({ apiKey: draft }));
+      setDraft(EMPTY_API_KEY);
+    });
+  };
+
+  const handleRevoke = (apiKey: ApiKey) => {
+    if (
+      !window.confirm(
+        `Revoke "${apiKey.name}"? Anything using it will stop working.`
+      )
+    ) {
+      return;
+    }
+    return runAction(async () => {
+      await revokeApiKey({ id: apiKey.id });
+      if (created?.id === apiKey.id) setCreated(null);
+    });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <Label className="text-base font-medium">Keys</Label>
+
+      <form onSubmit={handleCreate} className="space-y-3">
+        <div className="flex gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Key name, e.g. CI"
+            aria-label="Key name"
+            maxLength={256}
+            disabled={isPending}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={
+              isPending || !draft.name.trim() || draft.scopes.length === 0
+            }
+          >
+            New Key
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {API_KEY_SCOPES.map((option) => (
+            <label
+              key={option.value}
+              className="flex items-start gap-2 text-sm cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={draft.scopes.includes(option.value)}
+                onChange={() => toggleScope(option.value)}
+                disabled={isPending}
+                className="mt-0.5 size-4 accent-blue-600"
+              />
+              <span>
+                {option.label}
+                <span className="block text-xs text-muted-foreground">
+                  {option.description}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {created && (
+        <div className="rounded-lg border border-amber-300 dark:border-amber-700 bg-amber-50 dark:bg-amber-900/20 p-3 space-y-1">
+          <p className="text-sm font-medium">
+            Copy {created.name} now; it won&apos;t be shown again
+          </p>
+          <code className="block text-xs break-all">{created.key}</code>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {apiKeys.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No API keys yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {apiKeys.map((apiKey) => (
+          <li
+            key={apiKey.id}
+            className={cn(
+              "rounded-lg border border-slate-200 dark:border-slate-700 p-4 flex items-center justify-between gap-2",
+              apiKey.revokedAt && "opacity-60"
+            )}
+          >
+            <div className="space-y-1">
+              <p className="font-medium text-sm">
+                {apiKey.name}
+                {apiKey.revokedAt && (
+                  <span className="ml-2 text-xs bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 px-2 py-0.5 rounded">
+                    Revoked
+                  </span>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                <code>{apiKey.keyPrefix}…</code> ·{" "}
+                {apiKey.scopes.map(getScopeLabel).join(", ")}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Created {apiKey.createdAt.toLocaleDateString()} · Last used{" "}
+                {apiKey.lastUsedAt?.toLocaleString() ?? "never"}
+                {apiKey.revokedAt &&
+                  ` · Revoked ${apiKey.revokedAt.toLocaleDateString()}`}
+              </p>
+            </div>
+            {!apiKey.revokedAt && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRevoke(apiKey)}
+                disabled={isPending}
+                className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+              >
+                Revoke
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ApiKeyManager;
@@ -9,23 +9,43 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Skeleton } from "@/components/ui/skeleton";
-import { PromptTemplate, MultiplePromptResults } from "@/types/promptHandler";
+import { DEFAULT_MODEL_ID, getModelDefinition, MODELS } from "@/lib/models";
+import { savePromptTemplateParameters } from "@/server/actions/savePromptTemplateParameters";
+import {
+  PromptChain,
+  PromptTemplate,
+  MultiplePromptResults,
+  HandlerComparisonResult,
+  GenerationParameters,
+  PromptResult,
+} from "@/types/promptHandler";
 import { createPromptHandlers } from "@/utils/createPromptHandlers";
+import {
+  executeComparison,
+  mergeHandlerVariables,
+} from "@/utils/executeComparison";
+import { TemplateVariableError } from "@/utils/templateVariables";
 
+import GenerationParametersPanel from "./GenerationParametersPanel";
 import MultiplePromptResponse from "./MultiplePromptResponse";
 import PromptInput from "./PromptInput";
 
+// Above 5 runs the results switch to a summary and paginated table
+const RUN_COUNT_OPTIONS = [1, 2, 3, 4, 5, 10, 25, 50, 100, 200];
+
 interface BasicPromptProps {
   promptTemplates: PromptTemplate[];
+  promptChains: PromptChain[];
 }
 
-const BasicPrompt = ({ promptTemplates }: BasicPromptProps) => {
+const BasicPrompt = ({ promptTemplates, promptChains }: BasicPromptProps) => {
   // Create handlers on the client side to avoid serialization issues
   const promptHandlers = useMemo(
-    () => createPromptHandlers(promptTemplates),
-    [promptTemplates]
+    () => createPromptHandlers(promptTemplates, promptChains),
+    [promptTemplates, promptChains]
   );
 
   const [response, setResponse] = useState<MultiplePromptResults | null>(null);
@@ -33,6 +53,25 @@ const BasicPrompt = ({ promptTemplates }: BasicPromptProps) => {
   const [error, setError] = useState<string>("");
   const [selectedHandlerId, setSelectedHandlerId] = useState<string>("");
   const [runCount, setRunCount] = useState<number>(1);
+  const [modelId, setModelId] = useState<string>(DEFAULT_MODEL_ID);
+  // Panel edits per handler; untouched handlers fall back to template defaults
+  const [parameterOverrides, setParameterOverrides] = useState<
+    Record<string, GenerationParameters>
+  >({});
+  const [isSavingDefaults, setIsSavingDefaults] = useState(false);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareHandlerIds, setCompareHandlerIds] = useState<string[]>([]);
+  const [comparison, setComparison] = useState<
+    HandlerComparisonResult[] | null
+  >(null);
+  const [streamResponses, setStreamResponses] = useState(true);
+  // Replaced for every execution so Cancel only affects the batch in flight
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
+  // Partial results by run index while a streamed batch is in flight
+  const [streamingResults, setStreamingResults] = useState<
+    (PromptResult | undefined)[]
+  >([]);
 
   // Use the first handler ID if none is selected
   const currentHandlerId = selectedHandlerId || promptHandlers[0]?.id || "";
@@ -42,9 +81,132 @@ const BasicPrompt = ({ promptTemplates }: BasicPromptProps) => {
     (handler) => handler.id === currentHandlerId
   );
 
-  const handleSubmit = async (input: string) => {
+  // Keep the Select's order so columns are stable regardless of click order
+  const compareHandlers = promptHandlers.filter((handler) =>
+    compareHandlerIds.includes(handler.id)
+  );
+  const canCompare = compareHandlers.length >= 2;
+
+  // JSON handlers can only run on models with structured output support
+  const requiresJson = compareMode
+    ? compareHandlers.some((handler) => handler.requiresJson)
+    : Boolean(selectedHandler?.requiresJson);
+  const modelSupportsJson = Boolean(
+    getModelDefinition(modelId)?.capabilities.json
+  );
+  const modelMismatch = requiresJson && !modelSupportsJson;
+
+  const parametersKey = compareMode ? "compare" : currentHandlerId;
+  const parameters =
+    parameterOverrides[parametersKey] ??
+    (compareMode ? {} : selectedHandler?.defaultParameters ?? {});
+  const selectedTemplate = compareMode
+    ? undefined
+    : promptTemplates.find(
+        (template) => `db-${template.id}` === currentHandlerId
+      );
+
+  const handleParametersChange = ({
+    parameters,
+  }: {
+    parameters: GenerationParameters;
+  }) => {
+    setParameterOverrides((prev) => ({ ...prev, [parametersKey]: parameters }));
+  };
+
+  const handleSaveDefaults = async () => {
+    if (!selectedTemplate) return;
+    setIsSavingDefaults(true);
+    setError("");
+
+    try {
+      await savePromptTemplateParameters({
+        id: selectedTemplate.id,
+        parameters,
+      });
+    } catch (err) {
+      setError("Failed to save template defaults");
+      console.error(err);
+    } finally {
+      setIsSavingDefaults(false);
+    }
+  };
+
+  const inputVariables = compareMode
+    ? mergeHandlerVariables(compareHandlers)
+    : selectedHandler?.variables;
+
+  const toggleCompareHandler = (id: string) => {
+    setCompareHandlerIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((existing) => existing !== id)
+        : [...prev, id]
+    );
+  };
+
+  const handleCompareModeChange = () => {
+    // Seed the comparison with the handler that was already selected
+    if (!compareMode && compareHandlerIds.length === 0 && currentHandlerId) {
+      setCompareHandlerIds([currentHandlerId]);
+    }
+    setCompareMode((prev) => !prev);
+    setResponse(null);
+    setComparison(null);
+    setError("");
+  };
+
+  const handleCompare = async ({
+    input,
+    variables,
+  }: {
+    input: string;
+    variables?: Record<string, string>;
+  }) => {
+    const controller = new AbortController();
+    setAbortController(controller);
+    setIsLoading(true);
+    setComparison(null);
+    setError("");
+
+    try {
+      const results = await executeComparison({
+        handlers: compareHandlers,
+        input,
+        variables,
+        runCount,
+        model: modelId,
+        // Untouched panel: let each template apply its own saved defaults
+        parameters: parameterOverrides[parametersKey],
+        signal: controller.signal,
+      });
+      setComparison(results);
+    } catch (err) {
+      setError("Failed to get responses from AI");
+      console.error(err);
+    } finally {
+      setIsLoading(false);
+      setAbortController(null);
+    }
+  };
+
+  // Handlers finish the cancelled runs themselves and return partial results
+  const handleCancel = () => {
+    abortController?.abort();
+    setAbortController(null);
+  };
+
+  const handleSubmit = async ({
+    input,
+    variables,
+  }: {
+    input: string;
+    variables?: Record<string, string>;
+  }) => {
+    const controller = new AbortController();
+    setAbortController(controller);
     setIsLoading(true);
     setResponse(null);
+    setStreamingResults([]);
     setError("");
 
     try {
@@ -55,49 +217,146 @@ const BasicPrompt = ({ promptTemplates }: BasicPromptProps) => {
         throw new Error("Selected handler not found");
       }
 
-      const result = await selectedHandler.execute({ input, runCount });
+      const result = await selectedHandler.execute({
+        input,
+        variables,
+        runCount,
+        model: modelId,
+        parameters,
+        onProgress: streamResponses
+          ? ({ runIndex, result }) =>
+              setStreamingResults((prev) => {
+                const next = [...prev];
+                next[runIndex] = result;
+                return next;
+              })
+          : undefined,
+        signal: controller.signal,
+      });
       setResponse(result);
     } catch (err) {
-      setError("Failed to get response from AI");
+      setError(
+        err instanceof TemplateVariableError
+          ? err.message
+          : "Failed to get response from AI"
+      );
       console.error(err);
     } finally {
       setIsLoading(false);
+      setAbortController(null);
+      setStreamingResults([]);
     }
   };
 
   return (
     <div className="space-y-6">
       <div className="space-y-2">
-        <Label htmlFor="prompt-template-select">Prompt Template</Label>
-        <Select
-          value={currentHandlerId}
-          onValueChange={(value) => setSelectedHandlerId(value)}
-        >
-          <SelectTrigger id="prompt-template-select">
-            <SelectValue placeholder="Select a prompt template" />
+        <div className="flex items-center justify-between">
+          <Label htmlFor="prompt-template-select">
+            {compareMode ? "Compare Templates" : "Prompt Template"}
+          </Label>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleCompareModeChange}
+            disabled={isLoading}
+            className="h-6 px-2 text-xs"
+          >
+            {compareMode ? "Single Template" : "Compare Templates"}
+          </Button>
+        </div>
+        {compareMode ? (
+          <div
+            id="prompt-template-select"
+            className="grid gap-2 sm:grid-cols-2 rounded-md border border-input p-3"
+          >
+            {promptHandlers.map((handler) => (
+              <label
+                key={handler.id}
+                className="flex items-center gap-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={compareHandlerIds.includes(handler.id)}
+                  onChange={() => toggleCompareHandler(handler.id)}
+                  disabled={isLoading}
+                  className="size-4 accent-blue-600"
+                />
+                <span>{handler.name}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <Select
+            value={currentHandlerId}
+            onValueChange={(value) => setSelectedHandlerId(value)}
+          >
+            <SelectTrigger id="prompt-template-select">
+              <SelectValue placeholder="Select a prompt template" />
+            </SelectTrigger>
+            <SelectContent>
+              {promptHandlers.map((handler) => (
+                <SelectItem key={handler.id} value={handler.id}>
+                  <div className="flex items-center gap-2">
+                    <span>{handler.name}</span>
+                    <span
+                      className={`text-xs px-2 py-0.5 rounded ${
+                        handler.category === "advanced"
+                          ? "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300"
+                          : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+                      }`}
+                    >
+                      {handler.category.toUpperCase()}
+                    </span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        {compareMode && !canCompare && (
+          <p className="text-sm text-muted-foreground mt-2">
+            Select at least two templates to compare
+          </p>
+        )}
+        {!compareMode && selectedHandler?.description && (
+          <p className="text-sm text-muted-foreground mt-2">
+            {selectedHandler.description}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="model-select">Model</Label>
+        <Select value={modelId} onValueChange={(value) => setModelId(value)}>
+          <SelectTrigger id="model-select">
+            <SelectValue placeholder="Select a model" />
           </SelectTrigger>
           <SelectContent>
-            {promptHandlers.map((handler) => (
-              <SelectItem key={handler.id} value={handler.id}>
+            {MODELS.map((model) => (
+              <SelectItem
+                key={model.id}
+                value={model.id}
+                disabled={requiresJson && !model.capabilities.json}
+              >
                 <div className="flex items-center gap-2">
-                  <span>{handler.name}</span>
-                  <span
-                    className={`text-xs px-2 py-0.5 rounded ${
-                      handler.category === "advanced"
-                        ? "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300"
-                        : "bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
-                    }`}
-                  >
-                    {handler.category.toUpperCase()}
+                  <span>{model.displayName}</span>
+                  <span className="text-xs px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-900/50 text-slate-600 dark:text-slate-400">
+                    {model.provider.toUpperCase()}
                   </span>
+                  {model.capabilities.json && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300">
+                      JSON
+                    </span>
+                  )}
                 </div>
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
-        {selectedHandler?.description && (
-          <p className="text-sm text-muted-foreground mt-2">
-            {selectedHandler.description}
+        {modelMismatch && (
+          <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
+            This template returns JSON; pick a model with JSON support
           </p>
         )}
       </div>
@@ -112,22 +371,67 @@ const BasicPrompt = ({ promptTemplates }: BasicPromptProps) => {
             <SelectValue placeholder="Select number of runs" />
           </SelectTrigger>
           <SelectContent>
-            {[1, 2, 3, 4, 5].map((count) => (
+            {RUN_COUNT_OPTIONS.map((count) => (
               <SelectItem key={count} value={count.toString()}>
                 {count === 1 ? "1 run" : `${count} runs`}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
+        {!compareMode && (
+          <label className="flex items-center gap-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={streamResponses}
+              onChange={() => setStreamResponses((prev) => !prev)}
+              disabled={isLoading}
+              className="size-4 accent-blue-600"
+            />
+            <span>Stream responses</span>
+          </label>
+        )}
       </div>
 
-      <PromptInput onSubmit={handleSubmit} disabled={isLoading} />
+      {/* Keyed so the stop-sequence text resets with the selected handler */}
+      <GenerationParametersPanel
+        key={parametersKey}
+        parameters={parameters}
+        onChange={handleParametersChange}
+        supportsSampling={getModelDefinition(modelId)?.capabilities.temperature}
+        disabled={isLoading}
+        onSaveDefaults={selectedTemplate ? handleSaveDefaults : undefined}
+        isSaving={isSavingDefaults}
+      />
+
+      {/* Keyed by handler(s) so variable fields reset when the selection changes */}
+      <PromptInput
+        key={compareMode ? compareHandlerIds.join(",") : currentHandlerId}
+        variables={inputVariables}
+        onSubmit={compareMode ? handleCompare : handleSubmit}
+        disabled={isLoading || modelMismatch || (compareMode && !canCompare)}
+      />
+
+      {isLoading && abortController && (
+        <div className="flex justify-end">
+          <Button size="sm" variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+        </div>
+      )}
 
       <MultiplePromptResponse
         data={response}
+        comparison={compareMode ? comparison : null}
+        streamingResults={streamingResults}
         loading={isLoading}
         error={error}
-        title={runCount === 1 ? "AI Response" : "AI Responses"}
+        title={
+          compareMode
+            ? "Comparison"
+            : runCount === 1
+            ? "AI Response"
+            : "AI Responses"
+        }
       />
     </div>
   );
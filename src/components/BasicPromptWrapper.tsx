@@ -1,12 +1,39 @@
+import { auth } from "@clerk/nextjs/server";
 import { Suspense } from "react";
 
+import { getCollections } from "@/server/db/collections";
+import { getPromptChains } from "@/server/db/promptChains";
 import getPromptTemplates from "@/server/db/promptTemplates";
 
 import BasicPrompt, { BasicPromptLoading } from "./BasicPrompt";
+import PromptChainManager from "./PromptChainManager";
+import PromptTemplateManager from "./PromptTemplateManager";
 
 async function BasicPromptContent() {
-  const promptTemplates = await getPromptTemplates();
-  return <BasicPrompt promptTemplates={promptTemplates} />;
+  const { userId } = await auth();
+  // Collections are private, so signed-out visitors simply get none
+  const [promptTemplates, promptChains, collections] = await Promise.all([
+    getPromptTemplates(),
+    getPromptChains(),
+    userId ? getCollections(userId) : [],
+  ]);
+  return (
+    <div className="grid gap-8 lg:grid-cols-3">
+      <div className="lg:col-span-2">
+        <BasicPrompt
+          promptTemplates={promptTemplates}
+          promptChains={promptChains}
+        />
+      </div>
+      <div className="space-y-8">
+        <PromptTemplateManager
+          promptTemplates={promptTemplates}
+          collections={collections}
+        />
+        <PromptChainManager promptChains={promptChains} />
+      </div>
+    </div>
+  );
 }
 
 export default function BasicPromptWrapper() {
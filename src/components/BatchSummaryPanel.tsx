@@ -0,0 +1,176 @@
+import React from "react";
+
+import { Label } from "@/components/ui/label";
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { cn } from "@/lib/utils";
+import { BatchSummary, RunStatus } from "@/types/promptHandler";
+
+interface BatchSummaryPanelProps {
+  summary: BatchSummary;
+}
+
+// Answers and field values listed before the rest are folded into "more"
+const MAX_LISTED_VALUES = 10;
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+const renderStat = (label: string, value: React.ReactNode) => (
+  <div className="rounded-lg p-3 border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900/50">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className="text-lg font-semibold text-slate-900 dark:text-slate-100">
+      {value}
+    </div>
+  </div>
+);
+
+// Horizontal bar for how often an answer or value came up
+const renderShare = ({
+  label,
+  count,
+  total,
+}: {
+  label: string;
+  count: number;
+  total: number;
+}) => (
+  <div className="space-y-1">
+    <div className="flex justify-between gap-4 text-sm">
+      <span className="truncate text-slate-700 dark:text-slate-300">
+        {label}
+      </span>
+      <span className="shrink-0 text-muted-foreground">
+        {count} ({Math.round((count / total) * 100)}%)
+      </span>
+    </div>
+    <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-700">
+      <div
+        className="h-1.5 rounded-full bg-blue-500"
+        style={{ width: `${(count / total) * 100}%` }}
+      />
+    </div>
+  </div>
+);
+
+const renderMoreCount = (total: number) =>
+  total > MAX_LISTED_VALUES && (
+    <p className="text-xs text-muted-foreground">
+      +{total - MAX_LISTED_VALUES} more
+    </p>
+  );
+
+/**
+ * Latency, status counts, answer clusters and JSON field distributions for
+ * batches too large to tab through
+ */
+const BatchSummaryPanel = ({ summary }: BatchSummaryPanelProps) => {
+  const successCount = summary.statusCounts.success;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 grid-cols-2 md:grid-cols-6">
+        {renderStat("Error Rate", `${(summary.errorRate * 100).toFixed(1)}%`)}
+        {renderStat("Succeeded", `${successCount} / ${summary.runCount}`)}
+        {renderStat(
+          "Min Latency",
+          summary.latency ? formatDuration(summary.latency.min) : "-"
+        )}
+        {renderStat(
+          "Median Latency",
+          summary.latency
+            ? formatDuration(Math.round(summary.latency.median))
+            : "-"
+        )}
+        {renderStat(
+          "p95 Latency",
+          summary.latency ? formatDuration(summary.latency.p95) : "-"
+        )}
+        {renderStat(
+          "Max Latency",
+          summary.latency ? formatDuration(summary.latency.max) : "-"
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(Object.keys(summary.statusCounts) as RunStatus[])
+          .filter((status) => summary.statusCounts[status] > 0)
+          .map((status) => (
+            <span
+              key={status}
+              className={cn(
+                "text-xs px-2 py-0.5 rounded font-medium",
+                RUN_STATUS_STYLES[status].className
+              )}
+            >
+              {RUN_STATUS_STYLES[status].label}: {summary.statusCounts[status]}
+            </span>
+          ))}
+      </div>
+
+      {summary.answerClusters.length > 0 && (
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">
+            Distinct Answers ({summary.answerClusters.length})
+          </Label>
+          <div className="space-y-2 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+            {summary.answerClusters
+              .slice(0, MAX_LISTED_VALUES)
+              .map((cluster) => (
+                <div
+                  key={cluster.runIndexes[0]}
+                  title={`Runs ${cluster.runIndexes
+                    .map((runIndex) => runIndex + 1)
+                    .join(", ")}`}
+                >
+                  {renderShare({
+                    label: cluster.answer,
+                    count: cluster.count,
+                    total: successCount,
+                  })}
+                </div>
+              ))}
+            {renderMoreCount(summary.answerClusters.length)}
+          </div>
+        </div>
+      )}
+
+      {summary.fieldDistributions.length > 0 && (
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Field Values</Label>
+          <div className="grid gap-3 md:grid-cols-2">
+            {summary.fieldDistributions.map((distribution) => {
+              const fieldTotal = distribution.values.reduce(
+                (sum, value) => sum + value.count,
+                0
+              );
+              return (
+                <div
+                  key={distribution.field}
+                  className="space-y-2 rounded-lg p-4 border border-slate-200 dark:border-slate-700"
+                >
+                  <div className="text-xs font-medium font-mono text-slate-600 dark:text-slate-400">
+                    {distribution.field}
+                  </div>
+                  {distribution.values
+                    .slice(0, MAX_LISTED_VALUES)
+                    .map((value) => (
+                      <div key={value.value}>
+                        {renderShare({
+                          label: value.value,
+                          count: value.count,
+                          total: fieldTotal,
+                        })}
+                      </div>
+                    ))}
+                  {renderMoreCount(distribution.values.length)}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchSummaryPanel;
@@ -0,0 +1,137 @@
+"use client";
+
+import Link from "next/link";
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createCollection } from "@/server/actions/createCollection";
+import { deleteCollection } from "@/server/actions/deleteCollection";
+import { Collection, CollectionInput } from "@/types/promptHandler";
+
+interface CollectionManagerProps {
+  collections: Collection[];
+}
+
+const EMPTY_COLLECTION: CollectionInput = { name: "", description: "" };
+
+const CollectionManager = ({ collections }: CollectionManagerProps) => {
+  const [draft, setDraft] = useState<CollectionInput>(EMPTY_COLLECTION);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh collections arrive via props
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    setError("");
+
+    try {
+      await action();
+      setDraft(EMPTY_COLLECTION);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save collection"
+      );
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    return runAction(() => createCollection({ collection: draft }));
+  };
+
+  const handleDelete = (collection: Collection) => {
+    if (
+      !window.confirm(
+        `Delete "${collection.name}" and its ${collection.documentCount} documents? This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    return runAction(() => deleteCollection({ id: collection.id }));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <Label className="text-base font-medium">Collections</Label>
+
+      <form onSubmit={handleCreate} className="space-y-2">
+        <div className="flex gap-2">
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Collection name"
+            aria-label="Collection name"
+            maxLength={256}
+            disabled={isPending}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            disabled={isPending || !draft.name.trim()}
+          >
+            New Collection
+          </Button>
+        </div>
+        <Input
+          value={draft.description ?? ""}
+          onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+          placeholder="Description (optional)"
+          aria-label="Collection description"
+          disabled={isPending}
+        />
+      </form>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {collections.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No collections yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {collections.map((collection) => (
+          <li
+            key={collection.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <Link
+                href={`/collections/${collection.id}`}
+                className="font-medium text-sm hover:underline"
+              >
+                {collection.name}
+              </Link>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDelete(collection)}
+                disabled={isPending}
+                className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+              >
+                Delete
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              #{collection.id} · {collection.documentCount}{" "}
+              {collection.documentCount === 1 ? "document" : "documents"}
+              {collection.description && ` · ${collection.description}`}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default CollectionManager;
@@ -0,0 +1,38 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+
+interface CopyButtonProps {
+  text: string;
+  label?: string;
+}
+
+// Shows "Copied!" for two seconds after copying
+const CopyButton = ({ text, label = "Copy" }: CopyButtonProps) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy: ", err);
+    }
+  };
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={handleCopy}
+      className="h-6 px-2 text-xs"
+    >
+      {copied ? "Copied!" : label}
+    </Button>
+  );
+};
+
+export default CopyButton;
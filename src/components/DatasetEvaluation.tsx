@@ -0,0 +1,496 @@
+"use client";
+
+import { useMemo, useState } from "react";
+
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { formatCost, summarizeUsage } from "@/lib/modelPricing";
+import { DEFAULT_MODEL_ID, getModelDefinition, MODELS } from "@/lib/models";
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { cn } from "@/lib/utils";
+import {
+  Dataset,
+  DatasetRowResult,
+  PromptChain,
+  PromptResult,
+  PromptTemplate,
+} from "@/types/promptHandler";
+import { createPromptHandlers } from "@/utils/createPromptHandlers";
+import {
+  formatJudgeScore,
+  getJudgeScores,
+  getPassRate,
+} from "@/utils/evaluators";
+import {
+  executeDataset,
+  getDefaultColumnMapping,
+  getHandlerInputNames,
+} from "@/utils/executeDataset";
+
+import MultiplePromptResponse from "./MultiplePromptResponse";
+
+interface DatasetEvaluationProps {
+  datasets: Dataset[];
+  promptTemplates: PromptTemplate[];
+  promptChains: PromptChain[];
+}
+
+const RUN_COUNT_OPTIONS = [1, 2, 3, 5];
+// Sentinel for inputs deliberately left unmapped; Select values can't be ""
+const UNMAPPED = "__unmapped__";
+const PREVIEW_LENGTH = 80;
+
+const getCellPreview = (result: PromptResult) => {
+  const text =
+    result.status !== "success"
+      ? result.error ?? RUN_STATUS_STYLES[result.status].label
+      : typeof result.response === "string"
+      ? result.response
+      : JSON.stringify(result.response);
+  return text.length > PREVIEW_LENGTH
+    ? `${text.slice(0, PREVIEW_LENGTH)}...`
+    : text;
+};
+
+const DatasetEvaluation = ({
+  datasets,
+  promptTemplates,
+  promptChains,
+}: DatasetEvaluationProps) => {
+  // Create handlers on the client side to avoid serialization issues
+  const promptHandlers = useMemo(
+    () => createPromptHandlers(promptTemplates, promptChains),
+    [promptTemplates, promptChains]
+  );
+
+  const [selectedDatasetId, setSelectedDatasetId] = useState<string>("");
+  const [selectedHandlerId, setSelectedHandlerId] = useState<string>("");
+  const [runCount, setRunCount] = useState<number>(1);
+  const [modelId, setModelId] = useState<string>(DEFAULT_MODEL_ID);
+  // Mapping edits per dataset and handler pair, on top of the name-based defaults
+  const [mappingOverrides, setMappingOverrides] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  const [rowResults, setRowResults] = useState<DatasetRowResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [abortController, setAbortController] =
+    useState<AbortController | null>(null);
+  const [selectedCell, setSelectedCell] = useState<{
+    rowIndex: number;
+    runIndex: number;
+  } | null>(null);
+
+  const dataset =
+    datasets.find((dataset) => String(dataset.id) === selectedDatasetId) ??
+    datasets[0];
+  const handler =
+    promptHandlers.find((handler) => handler.id === selectedHandlerId) ??
+    promptHandlers[0];
+
+  const inputNames = handler ? getHandlerInputNames(handler) : [];
+  const mappingKey = `${dataset?.id}:${handler?.id}`;
+  const mapping = {
+    ...getDefaultColumnMapping({
+      inputNames,
+      columns: dataset?.columns ?? [],
+    }),
+    ...mappingOverrides[mappingKey],
+  };
+  // Explicitly unmapped inputs are dropped so template defaults can apply
+  const activeMapping = Object.fromEntries(
+    Object.entries(mapping).filter(([, column]) => column !== UNMAPPED)
+  );
+
+  const modelMismatch =
+    Boolean(handler?.requiresJson) &&
+    !getModelDefinition(modelId)?.capabilities.json;
+
+  const handleMappingChange = ({
+    name,
+    column,
+  }: {
+    name: string;
+    column: string;
+  }) => {
+    setMappingOverrides((prev) => ({
+      ...prev,
+      [mappingKey]: { ...prev[mappingKey], [name]: column },
+    }));
+  };
+
+  const handleRun = async () => {
+    if (!dataset || !handler) return;
+
+    const controller = new AbortController();
+    setAbortController(controller);
+    setIsRunning(true);
+    setRowResults([]);
+    setSelectedCell(null);
+
+    try {
+      await executeDataset({
+        handler,
+        rows: dataset.rows,
+        mapping: activeMapping,
+        runCount,
+        model: modelId,
+        signal: controller.signal,
+        onRowComplete: ({ result }) =>
+          setRowResults((prev) => [...prev, result]),
+      });
+    } finally {
+      setIsRunning(false);
+      setAbortController(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortController?.abort();
+    setAbortController(null);
+  };
+
+  if (datasets.length === 0) {
+    return (
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-8">
+        <p className="py-8 text-center text-muted-foreground">
+          Upload a dataset to run a template over every row
+        </p>
+      </div>
+    );
+  }
+
+  const allResults = rowResults.flatMap((row) => row.data?.results ?? []);
+  const { cost } = summarizeUsage(allResults);
+  const failedRuns = allResults.filter(
+    (result) => result.status !== "success"
+  ).length;
+  const failedRows = rowResults.filter((row) => row.error).length;
+  const passRate = getPassRate(allResults);
+  const judgeScores = getJudgeScores(allResults);
+
+  const selectedRow = rowResults.find(
+    (row) => row.rowIndex === selectedCell?.rowIndex
+  );
+  const selectedResult = selectedRow?.data?.results.find(
+    (result) => result.runIndex === selectedCell?.runIndex
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-6">
+        <div className="grid gap-4 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="dataset-select">Dataset</Label>
+            <Select
+              value={String(dataset.id)}
+              onValueChange={setSelectedDatasetId}
+              disabled={isRunning}
+            >
+              <SelectTrigger id="dataset-select">
+                <SelectValue placeholder="Select a dataset" />
+              </SelectTrigger>
+              <SelectContent>
+                {datasets.map((dataset) => (
+                  <SelectItem key={dataset.id} value={String(dataset.id)}>
+                    {dataset.name} ({dataset.rows.length} rows)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dataset-handler-select">Prompt Template</Label>
+            <Select
+              value={handler?.id ?? ""}
+              onValueChange={setSelectedHandlerId}
+              disabled={isRunning}
+            >
+              <SelectTrigger id="dataset-handler-select">
+                <SelectValue placeholder="Select a template" />
+              </SelectTrigger>
+              <SelectContent>
+                {promptHandlers.map((handler) => (
+                  <SelectItem key={handler.id} value={handler.id}>
+                    {handler.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dataset-model-select">Model</Label>
+            <Select
+              value={modelId}
+              onValueChange={setModelId}
+              disabled={isRunning}
+            >
+              <SelectTrigger id="dataset-model-select">
+                <SelectValue placeholder="Select a model" />
+              </SelectTrigger>
+              <SelectContent>
+                {MODELS.map((model) => (
+                  <SelectItem
+                    key={model.id}
+                    value={model.id}
+                    disabled={handler?.requiresJson && !model.capabilities.json}
+                  >
+                    {model.displayName}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dataset-run-count-select">Runs per Row</Label>
+            <Select
+              value={runCount.toString()}
+              onValueChange={(value) => setRunCount(parseInt(value))}
+              disabled={isRunning}
+            >
+              <SelectTrigger id="dataset-run-count-select">
+                <SelectValue placeholder="Select number of runs" />
+              </SelectTrigger>
+              <SelectContent>
+                {RUN_COUNT_OPTIONS.map((count) => (
+                  <SelectItem key={count} value={count.toString()}>
+                    {count === 1 ? "1 run" : `${count} runs`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Column Mapping</Label>
+          <div className="grid gap-3 md:grid-cols-2">
+            {inputNames.map((name) => (
+              <div key={name} className="space-y-1">
+                <Label
+                  htmlFor={`mapping-${name}`}
+                  className="text-xs font-mono"
+                >
+                  {`{{${name}}}`}
+                </Label>
+                <Select
+                  value={mapping[name] ?? UNMAPPED}
+                  onValueChange={(column) =>
+                    handleMappingChange({ name, column })
+                  }
+                  disabled={isRunning}
+                >
+                  <SelectTrigger id={`mapping-${name}`} className="w-full">
+                    <SelectValue placeholder="Select a column" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {dataset.columns.map((column) => (
+                      <SelectItem key={column} value={column}>
+                        {column}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {modelMismatch && (
+          <p className="text-sm text-amber-600 dark:text-amber-400">
+            This template returns JSON; pick a model with JSON support
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {isRunning && abortController && (
+            <Button variant="outline" onClick={handleCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button
+            onClick={handleRun}
+            disabled={isRunning || !handler || modelMismatch}
+          >
+            {isRunning
+              ? `Running ${rowResults.length + 1} of ${dataset.rows.length}...`
+              : `Run ${dataset.rows.length} Rows`}
+          </Button>
+        </div>
+      </div>
+
+      {rowResults.length > 0 && (
+        <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
+            <span>
+              Rows:{" "}
+              <span className="font-medium text-slate-900 dark:text-slate-100">
+                {rowResults.length} / {dataset.rows.length}
+              </span>
+            </span>
+            <span>
+              Failed Runs:{" "}
+              <span className="font-medium text-slate-900 dark:text-slate-100">
+                {failedRuns}
+              </span>
+            </span>
+            {failedRows > 0 && (
+              <span>
+                Failed Rows:{" "}
+                <span className="font-medium text-red-600 dark:text-red-400">
+                  {failedRows}
+                </span>
+              </span>
+            )}
+            {passRate && (
+              <span>
+                Pass Rate:{" "}
+                <span className="font-medium text-slate-900 dark:text-slate-100">
+                  {Math.round((passRate.passed / passRate.total) * 100)}% (
+                  {passRate.passed} / {passRate.total})
+                </span>
+              </span>
+            )}
+            {judgeScores.map((score) => (
+              <span key={score.label} title={score.label}>
+                Avg Judge Score:{" "}
+                <span className="font-medium text-slate-900 dark:text-slate-100">
+                  {formatJudgeScore(score)}
+                </span>
+              </span>
+            ))}
+            {cost !== undefined && (
+              <span>
+                Total Cost:{" "}
+                <span className="font-medium text-slate-900 dark:text-slate-100">
+                  {formatCost(cost)}
+                </span>
+              </span>
+            )}
+          </div>
+
+          {/* Row × run grid; click a cell for the full result */}
+          <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-700">
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 dark:bg-slate-900/50 text-left text-xs text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 font-medium">Row</th>
+                  {Object.keys(activeMapping).map((name) => (
+                    <th key={name} className="px-3 py-2 font-medium font-mono">
+                      {name}
+                    </th>
+                  ))}
+                  {Array.from({ length: runCount }, (_, runIndex) => (
+                    <th key={runIndex} className="px-3 py-2 font-medium">
+                      Run {runIndex + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rowResults.map((row) => (
+                  <tr
+                    key={row.rowIndex}
+                    className="border-t border-slate-200 dark:border-slate-700 align-top"
+                  >
+                    <td className="px-3 py-2 font-medium">
+                      {row.rowIndex + 1}
+                    </td>
+                    {Object.keys(activeMapping).map((name) => (
+                      <td
+                        key={name}
+                        className="px-3 py-2 max-w-48 truncate text-slate-600 dark:text-slate-400"
+                        title={row.values[name]}
+                      >
+                        {row.values[name]}
+                      </td>
+                    ))}
+                    {row.error ? (
+                      <td
+                        colSpan={runCount}
+                        className="px-3 py-2 text-red-600 dark:text-red-400"
+                      >
+                        {row.error}
+                      </td>
+                    ) : (
+                      row.data?.results.map((result) => (
+                        <td
+                          key={result.runIndex}
+                          onClick={() =>
+                            setSelectedCell({
+                              rowIndex: row.rowIndex,
+                              runIndex: result.runIndex,
+                            })
+                          }
+                          className={cn(
+                            "px-3 py-2 cursor-pointer hover:bg-slate-50 dark:hover:bg-slate-900/50",
+                            selectedCell?.rowIndex === row.rowIndex &&
+                              selectedCell.runIndex === result.runIndex &&
+                              "bg-blue-50 dark:bg-blue-900/20"
+                          )}
+                        >
+                          <div className="flex items-start gap-2">
+                            <span
+                              className={cn(
+                                "mt-1.5 h-2 w-2 shrink-0 rounded-full",
+                                RUN_STATUS_STYLES[result.status].dotClassName
+                              )}
+                              title={RUN_STATUS_STYLES[result.status].label}
+                            />
+                            <span className="text-slate-700 dark:text-slate-300">
+                              {getCellPreview(result)}
+                            </span>
+                            {result.evaluations?.length ? (
+                              <span
+                                className={cn(
+                                  "ml-auto shrink-0 text-xs font-medium",
+                                  result.evaluations.every(
+                                    (evaluation) => evaluation.passed
+                                  )
+                                    ? "text-green-600 dark:text-green-400"
+                                    : "text-red-600 dark:text-red-400"
+                                )}
+                              >
+                                {result.evaluations.every(
+                                  (evaluation) => evaluation.passed
+                                )
+                                  ? "Pass"
+                                  : "Fail"}
+                              </span>
+                            ) : null}
+                          </div>
+                        </td>
+                      ))
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {selectedRow?.data && selectedResult && (
+        <MultiplePromptResponse
+          data={{ ...selectedRow.data, results: [selectedResult] }}
+          loading={false}
+          title={`Row ${selectedRow.rowIndex + 1}, Run ${
+            selectedResult.runIndex + 1
+          }`}
+        />
+      )}
+    </div>
+  );
+};
+
+export default DatasetEvaluation;
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { createDataset } from "@/server/actions/createDataset";
+import { deleteDataset } from "@/server/actions/deleteDataset";
+import { Dataset, DatasetInput } from "@/types/promptHandler";
+import { DatasetParseError, parseDataset } from "@/utils/parseDataset";
+
+interface DatasetManagerProps {
+  datasets: Dataset[];
+}
+
+const DatasetManager = ({ datasets }: DatasetManagerProps) => {
+  const [upload, setUpload] = useState<DatasetInput | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh datasets arrive via props
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    setError("");
+
+    try {
+      await action();
+      setUpload(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save dataset");
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError("");
+    setUpload(null);
+    if (!file) return;
+
+    try {
+      const { columns, rows } = parseDataset({
+        fileName: file.name,
+        text: await file.text(),
+      });
+      setUpload({ name: file.name.replace(/\.[^.]+$/, ""), columns, rows });
+    } catch (err) {
+      setError(
+        err instanceof DatasetParseError ? err.message : "Failed to read file"
+      );
+      console.error(err);
+    }
+  };
+
+  const handleDelete = (dataset: Dataset) => {
+    if (!window.confirm(`Delete "${dataset.name}"? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(() => deleteDataset({ id: dataset.id }));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <Label className="text-base font-medium">Datasets</Label>
+
+      <div className="space-y-2">
+        <Label htmlFor="dataset-file" className="text-sm">
+          Upload CSV or JSONL
+        </Label>
+        <Input
+          id="dataset-file"
+          type="file"
+          accept=".csv,.jsonl,.ndjson"
+          onChange={handleFileChange}
+          disabled={isPending}
+        />
+        <p className="text-xs text-muted-foreground">
+          CSV files need a header row; each JSONL line is one object
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {upload && (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3">
+          <div className="space-y-2">
+            <Label htmlFor="dataset-name" className="text-sm">
+              Name
+            </Label>
+            <Input
+              id="dataset-name"
+              value={upload.name}
+              onChange={(e) => setUpload({ ...upload, name: e.target.value })}
+              disabled={isPending}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {upload.rows.length} rows · Columns: {upload.columns.join(", ")}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() =>
+                runAction(() => createDataset({ dataset: upload }))
+              }
+              disabled={isPending || !upload.name.trim()}
+            >
+              {isPending ? "Saving..." : "Save Dataset"}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setUpload(null)}
+              disabled={isPending}
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {datasets.length === 0 && !upload && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No saved datasets yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {datasets.map((dataset) => (
+          <li
+            key={dataset.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-sm">{dataset.name}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleDelete(dataset)}
+                disabled={isPending}
+                className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+              >
+                Delete
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {dataset.rows.length} rows · {dataset.columns.join(", ")}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DatasetManager;
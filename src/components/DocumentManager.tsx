@@ -0,0 +1,363 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { createDocument } from "@/server/actions/createDocument";
+import { deleteDocument } from "@/server/actions/deleteDocument";
+import { fetchDocumentChunks } from "@/server/actions/fetchDocumentChunks";
+import { rechunkDocument } from "@/server/actions/rechunkDocument";
+import {
+  ChunkingConfig,
+  KnowledgeDocument,
+  KnowledgeDocumentInput,
+} from "@/types/promptHandler";
+import { DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE } from "@/utils/chunkText";
+import { extractPdfText } from "@/utils/extractPdfText";
+
+interface DocumentManagerProps {
+  collectionId: number;
+  documents: KnowledgeDocument[];
+}
+
+const EMPTY_UPLOAD: KnowledgeDocumentInput = { name: "", content: "" };
+const DEFAULT_CHUNKING: ChunkingConfig = {
+  chunkSize: DEFAULT_CHUNK_SIZE,
+  chunkOverlap: DEFAULT_CHUNK_OVERLAP,
+};
+
+const ChunkingInputs = ({
+  idPrefix,
+  chunking,
+  onChange,
+  disabled,
+}: {
+  idPrefix: string;
+  chunking: ChunkingConfig;
+  onChange: (chunking: ChunkingConfig) => void;
+  disabled: boolean;
+}) => (
+  <div className="grid grid-cols-2 gap-2">
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-size`} className="text-xs">
+        Chunk size (chars)
+      </Label>
+      <Input
+        id={`${idPrefix}-size`}
+        type="number"
+        min={100}
+        value={chunking.chunkSize}
+        onChange={(e) =>
+          onChange({ ...chunking, chunkSize: Number(e.target.value) })
+        }
+        disabled={disabled}
+        className="h-8"
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${idPrefix}-overlap`} className="text-xs">
+        Overlap (chars)
+      </Label>
+      <Input
+        id={`${idPrefix}-overlap`}
+        type="number"
+        min={0}
+        value={chunking.chunkOverlap}
+        onChange={(e) =>
+          onChange({ ...chunking, chunkOverlap: Number(e.target.value) })
+        }
+        disabled={disabled}
+        className="h-8"
+      />
+    </div>
+  </div>
+);
+
+// Keyed by the chunking settings, so a re-chunk fetches the new chunks
+const DocumentChunks = ({ document }: { document: KnowledgeDocument }) => {
+  const { data: chunks, isLoading } = useQuery({
+    queryKey: [
+      "documentChunks",
+      document.id,
+      document.chunkSize,
+      document.chunkOverlap,
+    ],
+    queryFn: () => fetchDocumentChunks({ documentId: document.id }),
+  });
+
+  if (isLoading) {
+    return <p className="text-xs text-muted-foreground">Loading chunks...</p>;
+  }
+
+  return (
+    <ol className="space-y-2 max-h-80 overflow-y-auto">
+      {chunks?.map((chunk) => (
+        <li
+          key={chunk.index}
+          className="rounded bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 p-2 space-y-1"
+        >
+          <div className="text-xs font-medium text-slate-600 dark:text-slate-400">
+            #{chunk.index + 1} · {chunk.content.length} chars
+          </div>
+          <p className="text-xs whitespace-pre-wrap text-slate-700 dark:text-slate-300">
+            {chunk.content}
+          </p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+const DocumentManager = ({ collectionId, documents }: DocumentManagerProps) => {
+  const [upload, setUpload] = useState<KnowledgeDocumentInput>(EMPTY_UPLOAD);
+  const [chunking, setChunking] = useState<ChunkingConfig>(DEFAULT_CHUNKING);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  // The document being re-chunked and its new settings
+  const [rechunking, setRechunking] = useState<{
+    id: number;
+    chunking: ChunkingConfig;
+  } | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh documents arrive via props
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    setError("");
+
+    try {
+      await action();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save document");
+      console.error(err);
+      return false;
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    setError("");
+    if (!file) return;
+
+    try {
+      const isPdf =
+        file.type === "application/pdf" || /\.pdf$/i.test(file.name);
+      const content = isPdf
+        ? await extractPdfText(new Uint8Array(await file.arrayBuffer()))
+        : await file.text();
+      if (isPdf && !content) {
+        setError("No text found in this PDF; scanned pages aren't supported");
+        return;
+      }
+      setUpload({ name: file.name.replace(/\.[^.]+$/, ""), content });
+    } catch (err) {
+      setError("Failed to read file");
+      console.error(err);
+    }
+  };
+
+  const handleCreate = async () => {
+    const saved = await runAction(() =>
+      createDocument({ collectionId, document: upload, chunking })
+    );
+    if (saved) setUpload(EMPTY_UPLOAD);
+  };
+
+  const handleRechunk = async () => {
+    if (!rechunking) return;
+    const saved = await runAction(() => rechunkDocument(rechunking));
+    if (saved) setRechunking(null);
+  };
+
+  const handleDelete = (document: KnowledgeDocument) => {
+    if (!window.confirm(`Delete "${document.name}"? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(() => deleteDocument({ id: document.id, collectionId }));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <Label className="text-base font-medium">Documents</Label>
+
+      <div className="space-y-2">
+        <Label htmlFor="document-file" className="text-sm">
+          Upload text, markdown or PDF
+        </Label>
+        <Input
+          id="document-file"
+          type="file"
+          accept=".txt,.md,.markdown,.pdf,application/pdf"
+          onChange={handleFileChange}
+          disabled={isPending}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="document-content" className="text-sm">
+          Content
+        </Label>
+        <Textarea
+          id="document-content"
+          value={upload.content}
+          onChange={(e) => setUpload({ ...upload, content: e.target.value })}
+          placeholder="Or paste text"
+          disabled={isPending}
+          className="min-h-32 text-sm"
+          rows={6}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="document-name" className="text-sm">
+          Name
+        </Label>
+        <Input
+          id="document-name"
+          value={upload.name}
+          onChange={(e) => setUpload({ ...upload, name: e.target.value })}
+          disabled={isPending}
+        />
+      </div>
+
+      <ChunkingInputs
+        idPrefix="document-chunking"
+        chunking={chunking}
+        onChange={setChunking}
+        disabled={isPending}
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={handleCreate}
+          disabled={isPending || !upload.name.trim() || !upload.content.trim()}
+        >
+          {isPending ? "Embedding..." : "Save Document"}
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setUpload(EMPTY_UPLOAD)}
+          disabled={isPending}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {documents.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No documents in this collection yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {documents.map((document) => (
+          <li
+            key={document.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-2"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-medium text-sm">{document.name}</p>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    setExpandedId(
+                      expandedId === document.id ? null : document.id
+                    )
+                  }
+                  className="h-6 px-2 text-xs"
+                >
+                  {expandedId === document.id ? "Hide Chunks" : "Chunks"}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    setRechunking({
+                      id: document.id,
+                      chunking: {
+                        chunkSize: document.chunkSize,
+                        chunkOverlap: document.chunkOverlap,
+                      },
+                    })
+                  }
+                  disabled={isPending}
+                  className="h-6 px-2 text-xs"
+                >
+                  Re-chunk
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleDelete(document)}
+                  disabled={isPending}
+                  className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+                >
+                  Delete
+                </Button>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {document.chunkCount}{" "}
+              {document.chunkCount === 1 ? "chunk" : "chunks"} ·{" "}
+              {document.chunkSize} chars with {document.chunkOverlap} overlap
+            </p>
+
+            {rechunking?.id === document.id && (
+              <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-2">
+                <ChunkingInputs
+                  idPrefix={`document-${document.id}-rechunk`}
+                  chunking={rechunking.chunking}
+                  onChange={(chunking) =>
+                    setRechunking({ id: document.id, chunking })
+                  }
+                  disabled={isPending}
+                />
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={handleRechunk}
+                    disabled={isPending}
+                  >
+                    {isPending ? "Embedding..." : "Re-chunk"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setRechunking(null)}
+                    disabled={isPending}
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {expandedId === document.id && (
+              <DocumentChunks document={document} />
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default DocumentManager;
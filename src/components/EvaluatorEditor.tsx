@@ -0,0 +1,369 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { DEFAULT_MODEL_ID, MODELS } from "@/lib/models";
+import { EvaluatorConfig } from "@/types/promptHandler";
+import { EVALUATOR_TYPES } from "@/utils/evaluators";
+
+// Evaluators are edited as plain text and converted on submit, so a
+// half-typed schema or number doesn't fail while editing
+export interface EvaluatorDraft {
+  type: EvaluatorConfig["type"];
+  value: string; // Expected text, pattern, schema JSON, limit or rubric, by type
+  path: string; // Only used by jsonPathEquals
+  judge: { model: string; min: string; max: string; passScore: string };
+}
+
+const DEFAULT_JUDGE_DRAFT: EvaluatorDraft["judge"] = {
+  model: DEFAULT_MODEL_ID,
+  min: "1",
+  max: "5",
+  passScore: "3",
+};
+
+const JUDGE_MODELS = MODELS.filter((model) => model.capabilities.json);
+
+const EVALUATOR_PLACEHOLDERS: Record<EvaluatorConfig["type"], string> = {
+  exactMatch: "Expected output, e.g. {{expected}}",
+  contains: "Text the response must contain",
+  regex: "Pattern, e.g. ^\\d+$",
+  jsonSchema: '{"type": "object", "required": ["answer"]}',
+  jsonPathEquals: "Expected value",
+  maxLength: "Max characters",
+  maxLatency: "Max ms",
+  judge: "Rubric, e.g. Is the response accurate and does it answer {{input}}?",
+};
+
+export const toEvaluatorDraft = (
+  evaluator: EvaluatorConfig
+): EvaluatorDraft => {
+  const draft = { path: "", judge: DEFAULT_JUDGE_DRAFT };
+  switch (evaluator.type) {
+    case "exactMatch":
+    case "contains":
+      return { ...draft, type: evaluator.type, value: evaluator.expected };
+    case "regex":
+      return { ...draft, type: evaluator.type, value: evaluator.pattern };
+    case "jsonSchema":
+      return {
+        ...draft,
+        type: evaluator.type,
+        value: JSON.stringify(evaluator.schema, null, 2),
+      };
+    case "jsonPathEquals":
+      return {
+        ...draft,
+        type: evaluator.type,
+        value: evaluator.expected,
+        path: evaluator.path,
+      };
+    case "maxLength":
+      return {
+        ...draft,
+        type: evaluator.type,
+        value: String(evaluator.maxLength),
+      };
+    case "maxLatency":
+      return { ...draft, type: evaluator.type, value: String(evaluator.maxMs) };
+    case "judge":
+      return {
+        ...draft,
+        type: evaluator.type,
+        value: evaluator.rubric,
+        judge: {
+          model: evaluator.model,
+          min: String(evaluator.scale.min),
+          max: String(evaluator.scale.max),
+          passScore: String(evaluator.passScore),
+        },
+      };
+  }
+};
+
+// Throws with a message for the form; the server re-validates everything
+export const toEvaluatorConfig = (draft: EvaluatorDraft): EvaluatorConfig => {
+  switch (draft.type) {
+    case "exactMatch":
+    case "contains":
+      return { type: draft.type, expected: draft.value };
+    case "regex":
+      return { type: draft.type, pattern: draft.value };
+    case "jsonSchema":
+      try {
+        return { type: draft.type, schema: JSON.parse(draft.value) };
+      } catch {
+        throw new Error("Evaluator schema must be valid JSON");
+      }
+    case "jsonPathEquals":
+      return { type: draft.type, path: draft.path, expected: draft.value };
+    case "maxLength":
+    case "maxLatency": {
+      const limit = Number(draft.value);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw new Error("Evaluator limits must be positive whole numbers");
+      }
+      return draft.type === "maxLength"
+        ? { type: draft.type, maxLength: limit }
+        : { type: draft.type, maxMs: limit };
+    }
+    case "judge": {
+      const [min, max, passScore] = [
+        draft.judge.min,
+        draft.judge.max,
+        draft.judge.passScore,
+      ].map(Number);
+      if (![min, max, passScore].every(Number.isInteger) || min >= max) {
+        throw new Error("Judge scales must be whole numbers from low to high");
+      }
+      if (passScore < min || passScore > max) {
+        throw new Error("Judge pass scores must be within the scale");
+      }
+      return {
+        type: draft.type,
+        rubric: draft.value,
+        model: draft.judge.model,
+        scale: { min, max },
+        passScore,
+      };
+    }
+  }
+};
+
+interface EvaluatorEditorProps {
+  evaluators: EvaluatorDraft[];
+  onChange: (params: { evaluators: EvaluatorDraft[] }) => void;
+  disabled?: boolean;
+}
+
+export default function EvaluatorEditor({
+  evaluators,
+  onChange,
+  disabled = false,
+}: EvaluatorEditorProps) {
+  const updateEvaluator = ({
+    index,
+    changes,
+  }: {
+    index: number;
+    changes: Partial<EvaluatorDraft>;
+  }) => {
+    onChange({
+      evaluators: evaluators.map((evaluator, i) =>
+        i === index ? { ...evaluator, ...changes } : evaluator
+      ),
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Evaluators</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            onChange({
+              evaluators: [
+                ...evaluators,
+                {
+                  type: "contains",
+                  value: "",
+                  path: "",
+                  judge: DEFAULT_JUDGE_DRAFT,
+                },
+              ],
+            })
+          }
+          disabled={disabled}
+          className="h-6 px-2 text-xs"
+        >
+          Add Evaluator
+        </Button>
+      </div>
+      {evaluators.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          Optional checks run against every response; use {"{{name}}"} for input
+          values
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {evaluators.map((evaluator, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <Select
+                value={evaluator.type}
+                onValueChange={(type) =>
+                  updateEvaluator({
+                    index,
+                    changes: { type: type as EvaluatorConfig["type"] },
+                  })
+                }
+                disabled={disabled}
+              >
+                <SelectTrigger size="sm" className="w-40 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EVALUATOR_TYPES.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {evaluator.type === "jsonPathEquals" && (
+                <Input
+                  value={evaluator.path}
+                  onChange={(e) =>
+                    updateEvaluator({
+                      index,
+                      changes: { path: e.target.value },
+                    })
+                  }
+                  placeholder="answer.label"
+                  aria-label={`Evaluator ${index + 1} path`}
+                  className="h-8 font-mono text-sm"
+                  disabled={disabled}
+                />
+              )}
+              {evaluator.type === "judge" ? (
+                <div className="flex-1 space-y-2">
+                  <Textarea
+                    value={evaluator.value}
+                    onChange={(e) =>
+                      updateEvaluator({
+                        index,
+                        changes: { value: e.target.value },
+                      })
+                    }
+                    placeholder={EVALUATOR_PLACEHOLDERS[evaluator.type]}
+                    aria-label={`Evaluator ${index + 1} rubric`}
+                    disabled={disabled}
+                    className="min-h-16 text-sm"
+                    rows={3}
+                  />
+                  <div className="flex gap-2 items-center text-xs">
+                    <Select
+                      value={evaluator.judge.model}
+                      onValueChange={(model) =>
+                        updateEvaluator({
+                          index,
+                          changes: {
+                            judge: { ...evaluator.judge, model },
+                          },
+                        })
+                      }
+                      disabled={disabled}
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-44"
+                        aria-label={`Evaluator ${index + 1} judge model`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {JUDGE_MODELS.map((model) => (
+                          <SelectItem key={model.id} value={model.id}>
+                            {model.displayName}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {(
+                      [
+                        ["min", "Min"],
+                        ["max", "Max"],
+                        ["passScore", "Pass at"],
+                      ] as const
+                    ).map(([field, label]) => (
+                      <label key={field} className="flex items-center gap-1">
+                        {label}
+                        <Input
+                          type="number"
+                          value={evaluator.judge[field]}
+                          onChange={(e) =>
+                            updateEvaluator({
+                              index,
+                              changes: {
+                                judge: {
+                                  ...evaluator.judge,
+                                  [field]: e.target.value,
+                                },
+                              },
+                            })
+                          }
+                          className="h-8 w-16 font-mono text-sm"
+                          disabled={disabled}
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ) : evaluator.type === "jsonSchema" ? (
+                <Textarea
+                  value={evaluator.value}
+                  onChange={(e) =>
+                    updateEvaluator({
+                      index,
+                      changes: { value: e.target.value },
+                    })
+                  }
+                  placeholder={EVALUATOR_PLACEHOLDERS[evaluator.type]}
+                  aria-label={`Evaluator ${index + 1} schema`}
+                  disabled={disabled}
+                  className="min-h-16 font-mono text-sm"
+                  rows={3}
+                />
+              ) : (
+                <Input
+                  type={
+                    evaluator.type === "maxLength" ||
+                    evaluator.type === "maxLatency"
+                      ? "number"
+                      : "text"
+                  }
+                  value={evaluator.value}
+                  onChange={(e) =>
+                    updateEvaluator({
+                      index,
+                      changes: { value: e.target.value },
+                    })
+                  }
+                  placeholder={EVALUATOR_PLACEHOLDERS[evaluator.type]}
+                  aria-label={`Evaluator ${index + 1} value`}
+                  className="h-8 font-mono text-sm"
+                  disabled={disabled}
+                />
+              )}
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() =>
+                  onChange({
+                    evaluators: evaluators.filter((_, i) => i !== index),
+                  })
+                }
+                disabled={disabled}
+                aria-label={`Remove evaluator ${index + 1}`}
+              >
+                ✕
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
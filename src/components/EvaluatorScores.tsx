@@ -0,0 +1,53 @@
+import { Label } from "@/components/ui/label";
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { cn } from "@/lib/utils";
+import { EvaluationResult } from "@/types/promptHandler";
+
+interface EvaluatorScoresProps {
+  evaluations: EvaluationResult[];
+}
+
+// Pass/fail per evaluator for one run, with judge scores and rationales
+const EvaluatorScores = ({ evaluations }: EvaluatorScoresProps) => (
+  <div className="space-y-3">
+    <Label className="text-sm font-medium">Evaluators</Label>
+    <ul className="space-y-1 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+      {evaluations.map((evaluation, index) => (
+        <li key={index} className="space-y-1 text-sm">
+          <div className="flex items-start gap-2">
+            <span
+              className={cn(
+                "text-xs px-2 py-0.5 rounded font-medium shrink-0",
+                evaluation.passed
+                  ? RUN_STATUS_STYLES.success.className
+                  : RUN_STATUS_STYLES.error.className
+              )}
+            >
+              {evaluation.passed ? "Pass" : "Fail"}
+            </span>
+            <span className="text-slate-700 dark:text-slate-300">
+              {evaluation.label}
+            </span>
+            {evaluation.score !== undefined && evaluation.scale && (
+              <span className="font-mono shrink-0">
+                {evaluation.score} / {evaluation.scale.max}
+              </span>
+            )}
+            {evaluation.message && (
+              <span className="text-muted-foreground break-all">
+                {evaluation.message}
+              </span>
+            )}
+          </div>
+          {evaluation.rationale && (
+            <p className="pl-12 text-muted-foreground whitespace-pre-wrap">
+              {evaluation.rationale}
+            </p>
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default EvaluatorScores;
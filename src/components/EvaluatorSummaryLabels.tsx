@@ -0,0 +1,51 @@
+import { cn } from "@/lib/utils";
+import { PromptResult } from "@/types/promptHandler";
+import {
+  formatJudgeScore,
+  getJudgeScores,
+  getPassRate,
+} from "@/utils/evaluators";
+
+interface EvaluatorSummaryLabelsProps {
+  results: PromptResult[];
+}
+
+// Share of runs that passed every evaluator, then the average per judge
+const EvaluatorSummaryLabels = ({ results }: EvaluatorSummaryLabelsProps) => {
+  const passRate = getPassRate(results);
+  const allPassed = passRate && passRate.passed === passRate.total;
+
+  return (
+    <>
+      {passRate && (
+        <span>
+          {results.length > 1 ? "Pass Rate" : "Evaluators"}:{" "}
+          <span
+            className={cn(
+              "font-medium",
+              allPassed
+                ? "text-green-600 dark:text-green-400"
+                : "text-red-600 dark:text-red-400"
+            )}
+          >
+            {results.length > 1
+              ? `${Math.round((passRate.passed / passRate.total) * 100)}% (${
+                  passRate.passed
+                } / ${passRate.total})`
+              : allPassed
+              ? "Passed"
+              : "Failed"}
+          </span>
+        </span>
+      )}
+      {getJudgeScores(results).map((score) => (
+        <span key={score.label} title={score.label}>
+          {results.length > 1 ? "Avg Judge Score" : "Judge Score"}:{" "}
+          <span className="font-medium">{formatJudgeScore(score)}</span>
+        </span>
+      ))}
+    </>
+  );
+};
+
+export default EvaluatorSummaryLabels;
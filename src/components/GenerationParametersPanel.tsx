@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { GenerationParameters } from "@/types/promptHandler";
+
+interface GenerationParametersPanelProps {
+  parameters: GenerationParameters;
+  onChange: (params: { parameters: GenerationParameters }) => void;
+  supportsSampling?: boolean; // Reasoning models ignore temperature/top-p
+  disabled?: boolean;
+  onSaveDefaults?: () => void; // Only offered for database templates
+  isSaving?: boolean;
+}
+
+type NumericParameter = "temperature" | "topP" | "maxTokens" | "seed";
+
+const NUMERIC_FIELDS: {
+  key: NumericParameter;
+  label: string;
+  min?: number;
+  max?: number;
+  step: number;
+  sampling?: boolean;
+}[] = [
+  {
+    key: "temperature",
+    label: "Temperature",
+    min: 0,
+    max: 2,
+    step: 0.1,
+    sampling: true,
+  },
+  { key: "topP", label: "Top P", min: 0, max: 1, step: 0.05, sampling: true },
+  { key: "maxTokens", label: "Max Tokens", min: 1, step: 1 },
+  { key: "seed", label: "Seed", step: 1 },
+];
+
+export default function GenerationParametersPanel({
+  parameters,
+  onChange,
+  supportsSampling = true,
+  disabled = false,
+  onSaveDefaults,
+  isSaving = false,
+}: GenerationParametersPanelProps) {
+  // Raw text so a trailing newline survives while typing the next sequence
+  const [stopText, setStopText] = useState(
+    parameters.stopSequences?.join("\n") ?? ""
+  );
+
+  const handleNumberChange = ({
+    key,
+    value,
+  }: {
+    key: NumericParameter;
+    value: string;
+  }) => {
+    const parsed = value === "" ? undefined : Number(value);
+    onChange({
+      parameters: {
+        ...parameters,
+        [key]:
+          parsed === undefined || Number.isNaN(parsed) ? undefined : parsed,
+      },
+    });
+  };
+
+  const handleStopChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    const sequences = value
+      .split("\n")
+      .filter((sequence) => sequence.length > 0);
+
+    setStopText(value);
+    onChange({
+      parameters: {
+        ...parameters,
+        stopSequences: sequences.length > 0 ? sequences : undefined,
+      },
+    });
+  };
+
+  const handleReset = () => {
+    setStopText("");
+    onChange({ parameters: {} });
+  };
+
+  return (
+    <div className="space-y-4 rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Parameters</Label>
+        <div className="flex gap-1">
+          {onSaveDefaults && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSaveDefaults}
+              disabled={disabled || isSaving}
+              className="h-6 px-2 text-xs"
+            >
+              {isSaving ? "Saving..." : "Save as Template Defaults"}
+            </Button>
+          )}
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={handleReset}
+            disabled={disabled}
+            className="h-6 px-2 text-xs"
+          >
+            Reset
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+        {NUMERIC_FIELDS.map((field) => {
+          const unsupported = field.sampling && !supportsSampling;
+          return (
+            <div key={field.key} className="space-y-2">
+              <Label htmlFor={`parameter-${field.key}`} className="text-xs">
+                {field.label}
+              </Label>
+              <Input
+                id={`parameter-${field.key}`}
+                type="number"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={parameters[field.key] ?? ""}
+                onChange={(e) =>
+                  handleNumberChange({ key: field.key, value: e.target.value })
+                }
+                placeholder={unsupported ? "Not supported" : "Default"}
+                disabled={disabled || unsupported}
+                className="h-8"
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="parameter-stop-sequences" className="text-xs">
+          Stop Sequences
+        </Label>
+        <Textarea
+          id="parameter-stop-sequences"
+          value={stopText}
+          onChange={handleStopChange}
+          placeholder="One per line (text responses only)"
+          disabled={disabled}
+          className="min-h-16 resize-none font-mono text-sm"
+          rows={2}
+        />
+      </div>
+    </div>
+  );
+}
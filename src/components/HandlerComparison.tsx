@@ -0,0 +1,153 @@
+import { formatGenerationParameters } from "@/lib/generationParameters";
+import { getModelDisplayName } from "@/lib/models";
+import { HandlerComparisonResult } from "@/types/promptHandler";
+
+import EvaluatorSummaryLabels from "./EvaluatorSummaryLabels";
+import RunOutput from "./RunOutput";
+import RunStatusBadge from "./RunStatusBadge";
+import UsageLabels from "./UsageLabels";
+
+interface HandlerComparisonProps {
+  columns: HandlerComparisonResult[];
+}
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+/**
+ * One column per handler or template version, with each run's row aligned
+ * across columns
+ */
+const HandlerComparison = ({ columns }: HandlerComparisonProps) => {
+  const maxRuns = Math.max(
+    ...columns.map((column) => column.data?.results.length ?? 0)
+  );
+  const userInput = columns.find((column) => column.data)?.data?.userInput;
+
+  return (
+    <div className="space-y-4">
+      {userInput !== undefined && (
+        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
+          <span>
+            User Input:{" "}
+            <span className="font-medium text-slate-900 dark:text-slate-100">
+              &quot;{userInput}&quot;
+            </span>
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        {/* One grid so each run row lines up across every column */}
+        <div
+          className="grid gap-4"
+          style={{
+            gridTemplateColumns: `repeat(${columns.length}, minmax(16rem, 1fr))`,
+          }}
+        >
+          {columns.map((column) => (
+            <div
+              key={`header-${column.handlerId}`}
+              className="space-y-2 text-sm bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700"
+            >
+              <div className="font-medium text-slate-900 dark:text-slate-100">
+                {column.handlerName}
+              </div>
+              {column.data ? (
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+                  <span>
+                    Runs:{" "}
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {column.data.results.length}
+                    </span>
+                  </span>
+                  <span>
+                    Total:{" "}
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {formatDuration(column.data.totalDuration)}
+                    </span>
+                  </span>
+                  <span>
+                    Avg:{" "}
+                    <span className="font-medium text-slate-900 dark:text-slate-100">
+                      {formatDuration(
+                        Math.round(
+                          column.data.totalDuration /
+                            Math.max(column.data.results.length, 1)
+                        )
+                      )}
+                    </span>
+                  </span>
+                  {column.data.model !== undefined && (
+                    <span>
+                      Model:{" "}
+                      <span className="font-medium text-slate-900 dark:text-slate-100">
+                        {getModelDisplayName(column.data.model)}
+                      </span>
+                    </span>
+                  )}
+                  {column.data.parameters &&
+                    formatGenerationParameters(column.data.parameters) && (
+                      <span>
+                        Parameters:{" "}
+                        <span className="font-medium text-slate-900 dark:text-slate-100">
+                          {formatGenerationParameters(column.data.parameters)}
+                        </span>
+                      </span>
+                    )}
+                  <UsageLabels
+                    usage={column.data.usage}
+                    cost={column.data.cost}
+                    runCount={column.data.results.length}
+                  />
+                  <EvaluatorSummaryLabels results={column.data.results} />
+                  {column.data.templateVersion !== undefined && (
+                    <span>
+                      Version:{" "}
+                      <span className="font-medium text-slate-900 dark:text-slate-100">
+                        v{column.data.templateVersion}
+                      </span>
+                    </span>
+                  )}
+                </div>
+              ) : (
+                <p className="text-red-600 dark:text-red-400">
+                  ⚠️ {column.error}
+                </p>
+              )}
+            </div>
+          ))}
+
+          {Array.from({ length: maxRuns }, (_, runIndex) =>
+            columns.map((column) => {
+              const result = column.data?.results[runIndex];
+              if (!result) {
+                return <div key={`${column.handlerId}-${runIndex}`} />;
+              }
+
+              return (
+                <div
+                  key={`${column.handlerId}-${runIndex}`}
+                  className="space-y-2 min-w-0"
+                >
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium">Run {runIndex + 1}</span>
+                      {result.status !== "success" && (
+                        <RunStatusBadge status={result.status} />
+                      )}
+                    </span>
+                    <span>{formatDuration(result.duration)}</span>
+                  </div>
+                  <RunOutput result={result} />
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HandlerComparison;
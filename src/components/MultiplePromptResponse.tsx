@@ -1,329 +1,115 @@
 "use client";
 
-import React, { useState, useCallback } from "react";
+import React, { useState, useMemo } from "react";
 
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatGenerationParameters } from "@/lib/generationParameters";
+import { getModelDisplayName } from "@/lib/models";
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
 import { cn } from "@/lib/utils";
-import { MultiplePromptResults } from "@/types/promptHandler";
+import {
+  HandlerComparisonResult,
+  MultiplePromptResults,
+  PromptResult,
+} from "@/types/promptHandler";
+import { summarizeBatch } from "@/utils/batchSummary";
+import { getDataType } from "@/utils/formatResponse";
+
+import BatchSummaryPanel from "./BatchSummaryPanel";
+import EvaluatorSummaryLabels from "./EvaluatorSummaryLabels";
+import HandlerComparison from "./HandlerComparison";
+import ResponseContent from "./ResponseContent";
+import RunDetails from "./RunDetails";
+import RunsTable from "./RunsTable";
+import UsageLabels from "./UsageLabels";
 
 interface MultiplePromptResponseProps {
   data: MultiplePromptResults | null;
+  comparison?: HandlerComparisonResult[] | null; // Renders aligned columns instead of data
+  streamingResults?: (PromptResult | undefined)[]; // Partial runs shown while loading
   loading: boolean;
   error?: string;
   title?: string;
 }
 
-// Helper function for proper type discrimination
-const getDataType = (
-  data: string | object | null
-): "text" | "json" | "empty" => {
-  // Handle null/undefined
-  if (data === null || data === undefined) {
-    return "empty";
-  }
+// Larger batches get a summary and a paginated table instead of tabs
+const TAB_RUN_LIMIT = 5;
 
-  // Handle strings
-  if (typeof data === "string") {
-    return "text";
-  }
-
-  // Handle arrays (should be JSON)
-  if (Array.isArray(data)) {
-    return "json";
-  }
-
-  // Handle complex objects that should be JSON-stringified
-  if (typeof data === "object") {
-    return "json";
-  }
-
-  // Handle other primitive types (numbers, booleans, etc.) as text
-  return "text";
-};
-
-// Helper function to safely stringify objects with circular reference protection
-const safeStringify = (data: object): string => {
-  try {
-    // Simple circular reference protection using a Set to track seen objects
-    const seen = new Set();
-    return JSON.stringify(
-      data,
-      (key, value) => {
-        if (typeof value === "object" && value !== null) {
-          if (seen.has(value)) {
-            return "[Circular Reference]";
-          }
-          seen.add(value);
-        }
-        return value;
-      },
-      2
-    );
-  } catch {
-    // Fallback for truly unstringifiable objects
-    return `[Object: ${
-      data.constructor?.name || "Unknown"
-    }]\n\nNote: This object cannot be serialized to JSON.`;
-  }
-};
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
 
 export default function MultiplePromptResponse({
   data,
+  comparison,
+  streamingResults,
   loading,
   error,
   title = "AI Response",
 }: MultiplePromptResponseProps) {
-  // Following PromptResponse pattern - separate states for each response
-  const [copiedJsonStates, setCopiedJsonStates] = useState<{
-    [key: string]: boolean;
-  }>({});
-  const [copiedTextStates, setCopiedTextStates] = useState<{
-    [key: string]: boolean;
-  }>({});
-  const [copiedLogStates, setCopiedLogStates] = useState<{
-    [key: string]: boolean;
-  }>({});
-  const [collapsedStates, setCollapsedStates] = useState<{
-    [key: string]: boolean;
-  }>({});
-
-  // Following PromptResponse pattern - separate copy handlers
-  const createHandleCopyJson = useCallback(
-    (responseData: object, key: string) => async () => {
-      try {
-        const textToCopy = safeStringify(responseData);
-        await navigator.clipboard.writeText(textToCopy);
-        setCopiedJsonStates((prev) => ({ ...prev, [key]: true }));
-        setTimeout(() => {
-          setCopiedJsonStates((prev) => ({ ...prev, [key]: false }));
-        }, 2000);
-      } catch (err) {
-        console.error("Failed to copy JSON: ", err);
-      }
-    },
-    []
-  );
-
-  const createHandleCopyText = useCallback(
-    (responseData: string | object, key: string) => async () => {
-      try {
-        const textToCopy = String(responseData);
-        await navigator.clipboard.writeText(textToCopy);
-        setCopiedTextStates((prev) => ({ ...prev, [key]: true }));
-        setTimeout(() => {
-          setCopiedTextStates((prev) => ({ ...prev, [key]: false }));
-        }, 2000);
-      } catch (err) {
-        console.error("Failed to copy text: ", err);
-      }
-    },
-    []
+  const [failuresOnly, setFailuresOnly] = useState(false);
+
+  const batchSummary = useMemo(
+    () =>
+      data && data.results.length > TAB_RUN_LIMIT
+        ? summarizeBatch(data.results)
+        : null,
+    [data]
   );
 
-  const createHandleCopyLogs = useCallback(
-    (logs: { label: string; text: string }[], key: string) => async () => {
-      try {
-        const textToCopy = logs
-          .map((log) => `${log.label}:\n${log.text}`)
-          .join("\n\n---\n\n");
-        await navigator.clipboard.writeText(textToCopy);
-        setCopiedLogStates((prev) => ({ ...prev, [key]: true }));
-        setTimeout(() => {
-          setCopiedLogStates((prev) => ({ ...prev, [key]: false }));
-        }, 2000);
-      } catch (err) {
-        console.error("Failed to copy logs: ", err);
-      }
-    },
-    []
-  );
-
-  const formatDuration = (ms: number) => {
-    if (ms < 1000) return `${ms}ms`;
-    return `${(ms / 1000).toFixed(2)}s`;
-  };
-
-  const formatTime = (date: Date) => {
-    return date.toLocaleTimeString();
-  };
-
-  const renderLogsContent = (
-    logs: { label: string; text: string }[],
-    logsKey: string
-  ) => {
-    if (!logs || logs.length === 0) {
-      return null;
-    }
-
-    return (
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <Label className="text-sm font-medium">Processing Logs</Label>
-            <span className="text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-2 py-1 rounded">
-              {logs.length} {logs.length === 1 ? "entry" : "entries"}
-            </span>
-          </div>
-          <Button
-            size="sm"
-            variant="outline"
-            onClick={createHandleCopyLogs(logs, logsKey)}
-            className="h-6 px-2 text-xs"
-          >
-            {copiedLogStates[logsKey] ? "Copied!" : "Copy All"}
-          </Button>
-        </div>
-        <div className="space-y-2 bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-60 overflow-y-auto">
-          {logs.map((log, index) => (
-            <div key={index} className="space-y-1">
-              <div className="text-xs font-medium text-slate-600 dark:text-slate-400 uppercase tracking-wide">
-                {log.label}
-              </div>
-              <div className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed bg-white dark:bg-slate-800 rounded p-2 border border-slate-200 dark:border-slate-600">
-                {log.text}
-              </div>
-              {index < logs.length - 1 && (
-                <div className="border-b border-slate-200 dark:border-slate-600 my-2" />
-              )}
-            </div>
-          ))}
-        </div>
-      </div>
-    );
-  };
-
-  const renderResponseContent = (
-    response: string | object,
-    responseKey: string
-  ) => {
-    const dataType = getDataType(response);
-
-    if (dataType === "empty") {
-      return (
-        <div className="py-8 text-center">
-          <p className="text-muted-foreground">No response yet</p>
-        </div>
+  // Runs that haven't produced a token yet show a placeholder
+  const renderStreaming = (partials: (PromptResult | undefined)[]) => {
+    const renderPartial = (result: PromptResult | undefined) =>
+      result ? (
+        <ResponseContent response={result.response} />
+      ) : (
+        <p className="py-4 text-sm text-muted-foreground">Waiting...</p>
       );
-    }
-
-    const content =
-      dataType === "json"
-        ? safeStringify(response as object)
-        : String(response);
-    const isLargeContent = content.length > 2000;
-
-    // Handle JSON data (objects and arrays) - following PromptResponse pattern
-    if (dataType === "json") {
-      return (
-        <div className="space-y-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-1 rounded">
-                JSON
-              </span>
-            </div>
-            <div className="flex gap-1">
-              {isLargeContent && (
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={() =>
-                    setCollapsedStates((prev) => ({
-                      ...prev,
-                      [responseKey]: !prev[responseKey],
-                    }))
-                  }
-                  className="h-6 px-2 text-xs"
-                >
-                  {collapsedStates[responseKey] ? "Expand" : "Collapse"}
-                </Button>
-              )}
-              <Button
-                size="sm"
-                variant="outline"
-                onClick={createHandleCopyJson(response as object, responseKey)}
-                className="h-6 px-2 text-xs"
-              >
-                {copiedJsonStates[responseKey] ? "Copied!" : "Copy"}
-              </Button>
-            </div>
-          </div>
-          <pre
-            className={cn(
-              "bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 overflow-x-auto text-sm font-mono border border-slate-200 dark:border-slate-700",
-              isLargeContent && "transition-[max-height] duration-300",
-              isLargeContent &&
-                collapsedStates[responseKey] &&
-                "max-h-40 overflow-y-auto",
-              isLargeContent &&
-                !collapsedStates[responseKey] &&
-                "max-h-96 overflow-y-auto"
-            )}
-          >
-            <code>{content}</code>
-          </pre>
-        </div>
-      );
-    }
 
-    // Handle text data - following PromptResponse pattern
     return (
-      <div className="space-y-3">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <span className="text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-1 rounded">
-              TEXT
-            </span>
-          </div>
-          <div className="flex gap-1">
-            {isLargeContent && (
-              <Button
-                size="sm"
-                variant="ghost"
-                onClick={() =>
-                  setCollapsedStates((prev) => ({
-                    ...prev,
-                    [responseKey]: !prev[responseKey],
-                  }))
-                }
-                className="h-6 px-2 text-xs"
-              >
-                {collapsedStates[responseKey] ? "Expand" : "Collapse"}
-              </Button>
-            )}
-            <Button
-              size="sm"
-              variant="outline"
-              onClick={createHandleCopyText(response, responseKey)}
-              className="h-6 px-2 text-xs"
-            >
-              {copiedTextStates[responseKey] ? "Copied!" : "Copy"}
-            </Button>
-          </div>
+      <div className="space-y-4">
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+          <span>Streaming responses...</span>
         </div>
-        <div
-          className={cn(
-            "bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700",
-            isLargeContent && "transition-[max-height] duration-300",
-            isLargeContent &&
-              collapsedStates[responseKey] &&
-              "max-h-40 overflow-y-auto",
-            isLargeContent &&
-              !collapsedStates[responseKey] &&
-              "max-h-96 overflow-y-auto"
-          )}
-        >
-          <p className="whitespace-pre-wrap text-sm leading-relaxed">
-            {content}
+        {partials.length === 1 ? (
+          renderPartial(partials[0])
+        ) : partials.length > TAB_RUN_LIMIT ? (
+          // Too many runs to tab through; the summary appears once they finish
+          <p className="text-sm text-muted-foreground">
+            {partials.filter(Boolean).length} runs have started responding
           </p>
-        </div>
+        ) : (
+          <Tabs defaultValue="streaming-0" className="w-full">
+            <TabsList
+              className="grid w-full"
+              style={{
+                gridTemplateColumns: `repeat(${partials.length}, minmax(0, 1fr))`,
+              }}
+            >
+              {partials.map((_, index) => (
+                <TabsTrigger key={index} value={`streaming-${index}`}>
+                  Run {index + 1}
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {partials.map((result, index) => (
+              <TabsContent key={index} value={`streaming-${index}`}>
+                {renderPartial(result)}
+              </TabsContent>
+            ))}
+          </Tabs>
+        )}
       </div>
     );
   };
 
   const renderContent = () => {
+    if (loading && streamingResults?.length) {
+      return renderStreaming(Array.from(streamingResults));
+    }
+
     if (loading) {
       return (
         <div className="flex items-center justify-center py-8">
@@ -349,6 +135,10 @@ export default function MultiplePromptResponse({
       );
     }
 
+    if (comparison?.length) {
+      return <HandlerComparison columns={comparison} />;
+    }
+
     if (!data?.results.length) {
       return (
         <div className="py-8 text-center">
@@ -357,181 +147,220 @@ export default function MultiplePromptResponse({
       );
     }
 
-    const { results, totalDuration, userInput } = data;
+    const {
+      results,
+      totalDuration,
+      userInput,
+      templateVersion,
+      model,
+      parameters,
+      usage,
+      cost,
+      cancelled,
+    } = data;
+
+    const cancelledCount = results.filter(
+      (result) => result.status === "cancelled"
+    ).length;
+    const failures = results.filter((result) => result.status !== "success");
+    const cancelledLabel = cancelled && (
+      <span className="font-medium text-amber-600 dark:text-amber-400">
+        Cancelled
+        {results.length > 1 &&
+          ` (${cancelledCount} of ${results.length} runs unfinished)`}
+      </span>
+    );
+
+    const templateVersionLabel = templateVersion !== undefined && (
+      <span>
+        Template Version:{" "}
+        <span className="font-medium text-slate-900 dark:text-slate-100">
+          v{templateVersion}
+        </span>
+      </span>
+    );
+
+    const parametersSummary = parameters
+      ? formatGenerationParameters(parameters)
+      : "";
+    const parametersLabel = parametersSummary && (
+      <span>
+        Parameters:{" "}
+        <span className="font-medium text-slate-900 dark:text-slate-100">
+          {parametersSummary}
+        </span>
+      </span>
+    );
+
+    const modelLabel = model !== undefined && (
+      <span>
+        Model:{" "}
+        <span className="font-medium text-slate-900 dark:text-slate-100">
+          {getModelDisplayName(model)}
+        </span>
+      </span>
+    );
 
     // If only one result, display it without tabs
     if (results.length === 1) {
-      const result = results[0];
-      const responseKey = "single-response";
-      const promptKey = "single-prompt";
-      const logsKey = "single-logs";
-
       return (
         <div className="space-y-6">
-          {/* Overall metadata */}
-          <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
-            <span>
-              User Input:{" "}
-              <span className="font-medium text-slate-900 dark:text-slate-100">
-                &quot;{userInput}&quot;
-              </span>
-            </span>
-            <span>
-              Duration:{" "}
-              <span className="font-medium text-slate-900 dark:text-slate-100">
-                {formatDuration(result.duration)}
-              </span>
-            </span>
-            <span>
-              Generated at:{" "}
-              <span className="font-medium text-slate-900 dark:text-slate-100">
-                {formatTime(result.timestamp)}
-              </span>
-            </span>
-          </div>
-
-          {/* Response */}
-          {renderResponseContent(result.response, responseKey)}
-
-          {/* Logs */}
-          {result.logs && renderLogsContent(result.logs, logsKey)}
-
-          {/* Prompt - only show if result has a prompt */}
-          {result.prompt && (
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <Label className="text-sm font-medium">Prompt Sent</Label>
-                </div>
-                <Button
-                  size="sm"
-                  variant="outline"
-                  onClick={createHandleCopyText(result.prompt!, promptKey)}
-                  className="h-6 px-2 text-xs"
-                >
-                  {copiedTextStates[promptKey] ? "Copied!" : "Copy"}
-                </Button>
-              </div>
-              <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-40 overflow-y-auto">
-                <p className="whitespace-pre-wrap text-sm leading-relaxed text-slate-600 dark:text-slate-400">
-                  {result.prompt}
-                </p>
-              </div>
-            </div>
-          )}
+          <RunDetails
+            result={results[0]}
+            userInput={userInput}
+            extraLabels={
+              <>
+                <EvaluatorSummaryLabels results={results} />
+                {templateVersionLabel}
+                {cancelledLabel}
+                {modelLabel}
+                {parametersLabel}
+              </>
+            }
+          />
         </div>
       );
     }
 
-    // Multiple results - use tabs
-    return (
-      <div className="space-y-4">
-        {/* Overall metadata */}
-        <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
-          <span>
-            User Input:{" "}
-            <span className="font-medium text-slate-900 dark:text-slate-100">
-              &quot;{userInput}&quot;
-            </span>
+    const streamedTimes = results.flatMap(
+      (result) => result.timeToFirstToken ?? []
+    );
+
+    // Falls back to every run once a new batch has no failures
+    const visibleResults =
+      failuresOnly && failures.length > 0 ? failures : results;
+
+    const overallMetadata = (
+      <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
+        <span>
+          User Input:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            &quot;{userInput}&quot;
           </span>
-          <span>
-            Runs:{" "}
-            <span className="font-medium text-slate-900 dark:text-slate-100">
-              {results.length}
-            </span>
+        </span>
+        <span>
+          Runs:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {results.length}
+          </span>
+        </span>
+        <span>
+          Total Duration:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatDuration(totalDuration)}
           </span>
+        </span>
+        <span>
+          Avg Duration:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatDuration(Math.round(totalDuration / results.length))}
+          </span>
+        </span>
+        {streamedTimes.length > 0 && (
           <span>
-            Total Duration:{" "}
+            Avg TTFT:{" "}
             <span className="font-medium text-slate-900 dark:text-slate-100">
-              {formatDuration(totalDuration)}
+              {formatDuration(
+                Math.round(
+                  streamedTimes.reduce((sum, time) => sum + time, 0) /
+                    streamedTimes.length
+                )
+              )}
             </span>
           </span>
+        )}
+        {failures.length > 0 && (
           <span>
-            Avg Duration:{" "}
-            <span className="font-medium text-slate-900 dark:text-slate-100">
-              {formatDuration(Math.round(totalDuration / results.length))}
+            Failures:{" "}
+            <span className="font-medium text-red-600 dark:text-red-400">
+              {failures.length}
             </span>
           </span>
+        )}
+        <UsageLabels usage={usage} cost={cost} runCount={results.length} />
+        <EvaluatorSummaryLabels results={results} />
+        {templateVersionLabel}
+        {modelLabel}
+        {parametersLabel}
+        {cancelledLabel}
+      </div>
+    );
+
+    const failuresToggle = failures.length > 0 && (
+      <div className="flex justify-end">
+        <Button
+          size="sm"
+          variant={failuresOnly ? "default" : "outline"}
+          onClick={() => setFailuresOnly((prev) => !prev)}
+          className="h-7 px-3 text-xs"
+        >
+          {failuresOnly ? "Show All Runs" : "Show Failures Only"}
+        </Button>
+      </div>
+    );
+
+    if (batchSummary) {
+      return (
+        <div className="space-y-4">
+          {overallMetadata}
+          <BatchSummaryPanel summary={batchSummary} />
+          {failuresToggle}
+          {/* Remount when filtering so the table starts on its first page */}
+          <RunsTable
+            key={visibleResults === failures ? "failures" : "all"}
+            results={visibleResults}
+          />
         </div>
+      );
+    }
 
-        <Tabs defaultValue="run-0" className="w-full">
+    // Multiple results - use tabs
+    return (
+      <div className="space-y-4">
+        {overallMetadata}
+        {failuresToggle}
+
+        {/* Remount when filtering so the first visible run is selected */}
+        <Tabs
+          key={visibleResults === failures ? "failures" : "all"}
+          defaultValue={`run-${visibleResults[0].runIndex}`}
+          className="w-full"
+        >
           <TabsList
             className="grid w-full"
             style={{
-              gridTemplateColumns: `repeat(${results.length}, minmax(0, 1fr))`,
+              gridTemplateColumns: `repeat(${visibleResults.length}, minmax(0, 1fr))`,
             }}
           >
-            {results.map((_, index) => (
-              <TabsTrigger key={index} value={`run-${index}`}>
-                Run {index + 1}
+            {visibleResults.map((result) => (
+              <TabsTrigger
+                key={result.runIndex}
+                value={`run-${result.runIndex}`}
+                className="gap-1.5"
+              >
+                Run {result.runIndex + 1}
+                {result.status !== "success" && (
+                  <span
+                    className={cn(
+                      "h-2 w-2 rounded-full",
+                      RUN_STATUS_STYLES[result.status].dotClassName
+                    )}
+                    title={RUN_STATUS_STYLES[result.status].label}
+                  />
+                )}
               </TabsTrigger>
             ))}
           </TabsList>
 
-          {results.map((result, index) => {
-            const responseKey = `response-${index}`;
-            const promptKey = `prompt-${index}`;
-            const logsKey = `logs-${index}`;
-
-            return (
-              <TabsContent
-                key={index}
-                value={`run-${index}`}
-                className="space-y-6"
-              >
-                {/* Run metadata */}
-                <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
-                  <span>
-                    Duration:{" "}
-                    <span className="font-medium text-slate-900 dark:text-slate-100">
-                      {formatDuration(result.duration)}
-                    </span>
-                  </span>
-                  <span>
-                    Generated at:{" "}
-                    <span className="font-medium text-slate-900 dark:text-slate-100">
-                      {formatTime(result.timestamp)}
-                    </span>
-                  </span>
-                </div>
-
-                {/* Response */}
-                {renderResponseContent(result.response, responseKey)}
-
-                {/* Logs */}
-                {result.logs && renderLogsContent(result.logs, logsKey)}
-
-                {/* Prompt - only show if result has a prompt */}
-                {result.prompt && (
-                  <div className="space-y-3">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <Label className="text-sm font-medium">
-                          Prompt Sent
-                        </Label>
-                      </div>
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={createHandleCopyText(
-                          result.prompt!,
-                          promptKey
-                        )}
-                        className="h-6 px-2 text-xs"
-                      >
-                        {copiedTextStates[promptKey] ? "Copied!" : "Copy"}
-                      </Button>
-                    </div>
-                    <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-40 overflow-y-auto">
-                      <p className="whitespace-pre-wrap text-sm leading-relaxed text-slate-600 dark:text-slate-400">
-                        {result.prompt}
-                      </p>
-                    </div>
-                  </div>
-                )}
-              </TabsContent>
-            );
-          })}
+          {visibleResults.map((result) => (
+            <TabsContent
+              key={result.runIndex}
+              value={`run-${result.runIndex}`}
+              className="space-y-6"
+            >
+              <RunDetails result={result} />
+            </TabsContent>
+          ))}
         </Tabs>
       </div>
     );
@@ -0,0 +1,40 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+
+const OUTPUT_SCHEMA_PLACEHOLDER =
+  '{"type": "object", "properties": {"label": {"type": "string"}}, "required": ["label"]}';
+
+interface OutputSchemaEditorProps {
+  id: string;
+  outputSchema: string; // JSON text, parsed on submit like evaluator schemas
+  onChange: (params: { outputSchema: string }) => void;
+  disabled?: boolean;
+}
+
+export default function OutputSchemaEditor({
+  id,
+  outputSchema,
+  onChange,
+  disabled = false,
+}: OutputSchemaEditorProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>Output Schema</Label>
+      <Textarea
+        id={id}
+        value={outputSchema}
+        onChange={(e) => onChange({ outputSchema: e.target.value })}
+        placeholder={OUTPUT_SCHEMA_PLACEHOLDER}
+        disabled={disabled}
+        className="min-h-16 font-mono text-sm"
+        rows={3}
+      />
+      <p className="text-xs text-muted-foreground">
+        Optional JSON Schema; responses are generated as matching objects and
+        runs that don&apos;t match are marked invalid
+      </p>
+    </div>
+  );
+}
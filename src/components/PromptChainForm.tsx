@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { MODELS } from "@/lib/models";
+import {
+  ChainStep,
+  PromptChain,
+  PromptChainInput,
+} from "@/types/promptHandler";
+import { getChainIssues, getChainStepVariables } from "@/utils/chainSteps";
+
+// Select items can't have an empty value, so "use the run's model" gets a sentinel
+const RUN_MODEL = "__run_model__";
+
+// Output schemas are edited as JSON text and parsed on submit
+interface StepDraft {
+  name: string;
+  template: string;
+  model: string;
+  outputSchema: string;
+}
+
+const toStepDraft = (step: ChainStep): StepDraft => ({
+  name: step.name,
+  template: step.template,
+  model: step.model ?? RUN_MODEL,
+  outputSchema: step.outputSchema
+    ? JSON.stringify(step.outputSchema, null, 2)
+    : "",
+});
+
+// Throws with a message for the form; the server re-validates everything
+const toChainStep = (draft: StepDraft, index: number): ChainStep => {
+  let outputSchema: ChainStep["outputSchema"];
+  try {
+    outputSchema = draft.outputSchema.trim()
+      ? JSON.parse(draft.outputSchema)
+      : undefined;
+  } catch {
+    throw new Error(`Step ${index + 1} output schema must be valid JSON`);
+  }
+  return {
+    name: draft.name.trim(),
+    template: draft.template,
+    model: draft.model === RUN_MODEL ? undefined : draft.model,
+    outputSchema,
+  };
+};
+
+const createStepDraft = (index: number): StepDraft => ({
+  name: `step${index + 1}`,
+  template: index === 0 ? "{{INPUT}}" : "",
+  model: RUN_MODEL,
+  outputSchema: "",
+});
+
+interface PromptChainFormProps {
+  initialChain?: PromptChain;
+  onSubmit: (params: { chain: PromptChainInput }) => Promise<void>;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export default function PromptChainForm({
+  initialChain,
+  onSubmit,
+  onCancel,
+  disabled = false,
+}: PromptChainFormProps) {
+  const [name, setName] = useState(initialChain?.name ?? "");
+  const [description, setDescription] = useState(
+    initialChain?.description ?? ""
+  );
+  const [steps, setSteps] = useState<StepDraft[]>(
+    initialChain?.steps.map(toStepDraft) ?? [createStepDraft(0)]
+  );
+  const [error, setError] = useState("");
+
+  const updateStep = ({
+    index,
+    changes,
+  }: {
+    index: number;
+    changes: Partial<StepDraft>;
+  }) => {
+    setSteps((prev) =>
+      prev.map((step, i) => (i === index ? { ...step, ...changes } : step))
+    );
+  };
+
+  const moveStep = ({ index, offset }: { index: number; offset: number }) => {
+    setSteps((prev) => {
+      const next = [...prev];
+      const [step] = next.splice(index, 1);
+      next.splice(index + offset, 0, step);
+      return next;
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError("Name is required");
+      return;
+    }
+
+    let chainSteps: ChainStep[];
+    try {
+      chainSteps = steps.map(toChainStep);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid step");
+      return;
+    }
+
+    const issues = getChainIssues(chainSteps);
+    if (issues.length > 0) {
+      setError(issues[0]);
+      return;
+    }
+
+    setError("");
+    await onSubmit({ chain: { name, description, steps: chainSteps } });
+  };
+
+  const idPrefix = initialChain ? `chain-${initialChain.id}` : "chain-new";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={256}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Optional"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Steps</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() =>
+              setSteps((prev) => [...prev, createStepDraft(prev.length)])
+            }
+            disabled={disabled}
+            className="h-6 px-2 text-xs"
+          >
+            Add Step
+          </Button>
+        </div>
+
+        <ol className="space-y-3">
+          {steps.map((step, index) => (
+            <li
+              key={index}
+              className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-2"
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-xs font-medium text-muted-foreground shrink-0">
+                  {index + 1}.
+                </span>
+                <Input
+                  value={step.name}
+                  onChange={(e) =>
+                    updateStep({ index, changes: { name: e.target.value } })
+                  }
+                  placeholder="Step name"
+                  aria-label={`Step ${index + 1} name`}
+                  className="h-8 font-mono text-sm"
+                  disabled={disabled}
+                />
+                <Select
+                  value={step.model}
+                  onValueChange={(model) =>
+                    updateStep({ index, changes: { model } })
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger
+                    size="sm"
+                    className="w-40 shrink-0"
+                    aria-label={`Step ${index + 1} model`}
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={RUN_MODEL}>Run model</SelectItem>
+                    {MODELS.map((model) => (
+                      <SelectItem key={model.id} value={model.id}>
+                        {model.displayName}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => moveStep({ index, offset: -1 })}
+                  disabled={disabled || index === 0}
+                  aria-label={`Move step ${index + 1} up`}
+                >
+                  ↑
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => moveStep({ index, offset: 1 })}
+                  disabled={disabled || index === steps.length - 1}
+                  aria-label={`Move step ${index + 1} down`}
+                >
+                  ↓
+                </Button>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    setSteps((prev) => prev.filter((_, i) => i !== index))
+                  }
+                  disabled={disabled || steps.length === 1}
+                  aria-label={`Remove step ${index + 1}`}
+                >
+                  ✕
+                </Button>
+              </div>
+              <Textarea
+                value={step.template}
+                onChange={(e) =>
+                  updateStep({ index, changes: { template: e.target.value } })
+                }
+                placeholder="Prompt for this step"
+                aria-label={`Step ${index + 1} template`}
+                disabled={disabled}
+                className="min-h-20 text-sm"
+                rows={3}
+              />
+              <p className="text-xs text-muted-foreground">
+                Available:{" "}
+                {getChainStepVariables({
+                  steps: steps.map((draft) => ({
+                    name: draft.name.trim(),
+                    template: draft.template,
+                  })),
+                  index,
+                })
+                  .map((variable) => `{{${variable}}}`)
+                  .join(", ")}
+              </p>
+              <Textarea
+                value={step.outputSchema}
+                onChange={(e) =>
+                  updateStep({
+                    index,
+                    changes: { outputSchema: e.target.value },
+                  })
+                }
+                placeholder='Optional output schema, e.g. {"type": "object", "properties": {"steps": {"type": "array"}}}'
+                aria-label={`Step ${index + 1} output schema`}
+                disabled={disabled}
+                className="min-h-12 font-mono text-xs"
+                rows={2}
+              />
+            </li>
+          ))}
+        </ol>
+        <p className="text-xs text-muted-foreground">
+          Steps run in order; the last step&apos;s output is the response
+        </p>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={disabled}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={disabled}>
+          {initialChain ? "Save Changes" : "Create Chain"}
+        </Button>
+      </div>
+    </form>
+  );
+}
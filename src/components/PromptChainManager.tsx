@@ -0,0 +1,167 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { getModelDisplayName } from "@/lib/models";
+import { createPromptChain } from "@/server/actions/createPromptChain";
+import { deletePromptChain } from "@/server/actions/deletePromptChain";
+import { editPromptChain } from "@/server/actions/editPromptChain";
+import { PromptChain, PromptChainInput } from "@/types/promptHandler";
+
+import PromptChainForm from "./PromptChainForm";
+
+interface PromptChainManagerProps {
+  promptChains: PromptChain[];
+}
+
+// "new" while creating, a chain id while editing, null otherwise
+type EditingState = "new" | number | null;
+
+const PromptChainManager = ({ promptChains }: PromptChainManagerProps) => {
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh chains arrive via props
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    setError("");
+
+    try {
+      await action();
+      setEditing(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save prompt chain"
+      );
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleCreate = ({ chain }: { chain: PromptChainInput }) =>
+    runAction(() => createPromptChain({ chain }));
+
+  const handleEdit =
+    (id: number) =>
+    ({ chain }: { chain: PromptChainInput }) =>
+      runAction(() => editPromptChain({ id, chain }));
+
+  const handleDelete = (chain: PromptChain) => {
+    if (!window.confirm(`Delete "${chain.name}"? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(() => deletePromptChain(chain.id));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-base font-medium">Prompt Chains</Label>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setEditing("new")}
+          disabled={isPending || editing === "new"}
+        >
+          New Chain
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {editing === "new" && (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <PromptChainForm
+            onSubmit={handleCreate}
+            onCancel={() => setEditing(null)}
+            disabled={isPending}
+          />
+        </div>
+      )}
+
+      {promptChains.length === 0 && editing !== "new" && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No saved chains yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {promptChains.map((chain) => (
+          <li
+            key={chain.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3"
+          >
+            {editing === chain.id ? (
+              <PromptChainForm
+                initialChain={chain}
+                onSubmit={handleEdit(chain.id)}
+                onCancel={() => setEditing(null)}
+                disabled={isPending}
+              />
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-sm">{chain.name}</p>
+                    <span className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-600 dark:text-slate-400 px-2 py-0.5 rounded">
+                      {chain.steps.length}{" "}
+                      {chain.steps.length === 1 ? "step" : "steps"}
+                    </span>
+                  </div>
+                  {chain.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {chain.description}
+                    </p>
+                  )}
+                  <ol className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                    {chain.steps.map((step, index) => (
+                      <li key={step.name} className="flex items-center gap-1">
+                        {index > 0 && <span>→</span>}
+                        <span className="font-mono">{step.name}</span>
+                        {step.model && (
+                          <span>({getModelDisplayName(step.model)})</span>
+                        )}
+                        {step.outputSchema && <span>· JSON</span>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditing(chain.id)}
+                    disabled={isPending}
+                    className="h-6 px-2 text-xs"
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(chain)}
+                    disabled={isPending}
+                    className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+                  >
+                    Delete
+                  </Button>
+                </div>
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PromptChainManager;
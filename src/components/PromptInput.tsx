@@ -3,13 +3,32 @@
 import React, { useState } from "react";
 
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { TemplateVariable } from "@/types/promptHandler";
+import {
+  formatTemplateValues,
+  isSingleInputTemplate,
+  TemplateVariableError,
+  validateTemplateValues,
+} from "@/utils/templateVariables";
 
 interface PromptInputProps {
   onPromptChange?: (value: string) => void;
-  onSubmit?: (prompt: string) => void;
+  onSubmit?: (params: {
+    input: string;
+    variables?: Record<string, string>;
+  }) => void;
+  variables?: TemplateVariable[]; // Renders one field per variable when set
   placeholder?: string;
   maxLength?: number;
   disabled?: boolean;
@@ -18,15 +37,30 @@ interface PromptInputProps {
 
 export default function PromptInput({
   onPromptChange,
-  onSubmit = (prompt) => console.log("Submitted prompt:", prompt),
+  onSubmit = ({ input }) => console.log("Submitted prompt:", input),
+  variables,
   placeholder = "Write your input here... For example: 'Generate a creative story about a space explorer discovering a new planet.'",
   maxLength = 2000,
   disabled = false,
   loading = false,
 }: PromptInputProps) {
   const [prompt, setPrompt] = useState("");
+  const [values, setValues] = useState<Record<string, string>>(() =>
+    Object.fromEntries(
+      (variables ?? []).map((variable) => [
+        variable.name,
+        variable.defaultValue ?? "",
+      ])
+    )
+  );
   const [error, setError] = useState("");
 
+  // Templates with only {{INPUT}} (and advanced handlers) keep the single textarea
+  const useVariableFields =
+    variables !== undefined &&
+    variables.length > 0 &&
+    !isSingleInputTemplate(variables);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value;
 
@@ -40,73 +74,181 @@ export default function PromptInput({
     }
   };
 
+  const handleValueChange = ({
+    name,
+    value,
+  }: {
+    name: string;
+    value: string;
+  }) => {
+    if (error) setError("");
+    if (value.length <= maxLength) {
+      setValues((prev) => ({ ...prev, [name]: value }));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
 
+    if (useVariableFields) {
+      try {
+        const resolved = validateTemplateValues({ variables, values });
+        setError("");
+        onSubmit({
+          input: formatTemplateValues(resolved),
+          variables: resolved,
+        });
+      } catch (err) {
+        setError(
+          err instanceof TemplateVariableError
+            ? err.issues.join(", ")
+            : "Invalid input"
+        );
+      }
+      return;
+    }
+
     if (!prompt.trim()) {
       setError("Please enter an input");
       return;
     }
 
     setError("");
-    onSubmit(prompt.trim());
+    onSubmit({ input: prompt.trim() });
   };
 
   const remainingChars = maxLength - prompt.length;
   const isNearLimit = remainingChars < 100;
-  const isValid = prompt.trim().length > 0;
+  const isValid = useVariableFields || prompt.trim().length > 0;
+
+  const renderVariableField = (variable: TemplateVariable) => {
+    const id = `variable-${variable.name}`;
+    const value = values[variable.name] ?? "";
+    const fieldDisabled = disabled || loading;
+
+    if (variable.type === "boolean") {
+      return (
+        <Select
+          value={value}
+          onValueChange={(next) =>
+            handleValueChange({ name: variable.name, value: next })
+          }
+          disabled={fieldDisabled}
+        >
+          <SelectTrigger id={id} className="w-full">
+            <SelectValue placeholder="Select a value" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">true</SelectItem>
+            <SelectItem value="false">false</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (variable.type === "longText") {
+      return (
+        <Textarea
+          id={id}
+          value={value}
+          onChange={(e) =>
+            handleValueChange({ name: variable.name, value: e.target.value })
+          }
+          disabled={fieldDisabled}
+          className="min-h-24 resize-none"
+          rows={3}
+        />
+      );
+    }
+
+    return (
+      <Input
+        id={id}
+        type={variable.type === "number" ? "number" : "text"}
+        value={value}
+        onChange={(e) =>
+          handleValueChange({ name: variable.name, value: e.target.value })
+        }
+        disabled={fieldDisabled}
+      />
+    );
+  };
 
   return (
     <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-8">
       <form onSubmit={handleSubmit} className="space-y-6">
-        <div>
-          <Label htmlFor="prompt" className="mb-3">
-            Enter your input
-          </Label>
-          <div className="relative">
-            <Textarea
-              id="prompt"
-              value={prompt}
-              onChange={handleInputChange}
-              placeholder={placeholder}
-              disabled={disabled || loading}
-              className={cn(
-                "min-h-32 resize-none",
-                error &&
-                  "border-red-300 dark:border-red-600 focus-visible:ring-red-500/50 bg-red-50 dark:bg-red-900/10",
-                (disabled || loading) && "opacity-50 cursor-not-allowed"
-              )}
-              rows={4}
-            />
-            {loading && (
-              <div className="absolute inset-0 flex items-center justify-center bg-white/80 dark:bg-slate-800/80 rounded-lg">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+        {useVariableFields ? (
+          <div className="space-y-4">
+            {variables.map((variable) => (
+              <div key={variable.name} className="space-y-2">
+                <Label htmlFor={`variable-${variable.name}`}>
+                  {variable.name}
+                </Label>
+                {variable.description && (
+                  <p className="text-xs text-muted-foreground">
+                    {variable.description}
+                  </p>
+                )}
+                {renderVariableField(variable)}
               </div>
+            ))}
+            {error && (
+              <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+                <span>⚠️</span>
+                {error}
+              </p>
             )}
           </div>
-
-          {/* Character count and error display */}
-          <div className="flex justify-between items-center mt-2">
-            <div className="text-sm">
-              {error && (
-                <span className="text-red-600 dark:text-red-400 flex items-center gap-1">
-                  <span>⚠️</span>
-                  {error}
-                </span>
+        ) : (
+          <div>
+            <Label htmlFor="prompt" className="mb-3">
+              Enter your input
+            </Label>
+            <div className="relative">
+              <Textarea
+                id="prompt"
+                value={prompt}
+                onChange={handleInputChange}
+                placeholder={placeholder}
+                disabled={disabled || loading}
+                className={cn(
+                  "min-h-32 resize-none",
+                  error &&
+                    "border-red-300 dark:border-red-600 focus-visible:ring-red-500/50 bg-red-50 dark:bg-red-900/10",
+                  (disabled || loading) && "opacity-50 cursor-not-allowed"
+                )}
+                rows={4}
+              />
+              {loading && (
+                <div className="absolute inset-0 flex items-center justify-center bg-white/80 dark:bg-slate-800/80 rounded-lg">
+                  <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+                </div>
               )}
             </div>
-            <div
-              className={cn(
-                "text-sm",
-                isNearLimit
-                  ? "text-amber-600 dark:text-amber-400"
-                  : "text-muted-foreground"
-              )}
-            >
-              {remainingChars} characters remaining
+
+            {/* Character count and error display */}
+            <div className="flex justify-between items-center mt-2">
+              <div className="text-sm">
+                {error && (
+                  <span className="text-red-600 dark:text-red-400 flex items-center gap-1">
+                    <span>⚠️</span>
+                    {error}
+                  </span>
+                )}
+              </div>
+              <div
+                className={cn(
+                  "text-sm",
+                  isNearLimit
+                    ? "text-amber-600 dark:text-amber-400"
+                    : "text-muted-foreground"
+                )}
+              >
+                {remainingChars} characters remaining
+              </div>
             </div>
           </div>
-        </div>
+        )}
 
         <div className="flex justify-center">
           <Button
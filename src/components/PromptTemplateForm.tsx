@@ -0,0 +1,544 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  Collection,
+  EvaluatorConfig,
+  ExecutionConfig,
+  JsonSchema,
+  PromptMessage,
+  PromptTemplate,
+  PromptTemplateInput,
+  RetrievalConfig,
+  TemplateVariable,
+  ToolConfig,
+} from "@/types/promptHandler";
+import { getTemplateSourceText } from "@/utils/templateMessages";
+import {
+  CONTEXT_VARIABLE,
+  extractTemplateVariables,
+  resolveTemplateVariables,
+} from "@/utils/templateVariables";
+
+import EvaluatorEditor, {
+  EvaluatorDraft,
+  toEvaluatorConfig,
+  toEvaluatorDraft,
+} from "./EvaluatorEditor";
+import OutputSchemaEditor from "./OutputSchemaEditor";
+import RetrievalEditor, {
+  NO_COLLECTION,
+  RetrievalDraft,
+  toRetrievalConfig,
+  toRetrievalDraft,
+} from "./RetrievalEditor";
+import ToolsEditor, {
+  ToolsDraft,
+  toToolConfigs,
+  toToolsDraft,
+} from "./ToolsEditor";
+
+const VARIABLE_TYPES: { value: TemplateVariable["type"]; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "longText", label: "Long text" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Boolean" },
+];
+
+interface PromptTemplateFormProps {
+  initialTemplate?: PromptTemplate;
+  collections?: Collection[]; // The signed-in user's, for retrieval
+  onSubmit: (params: { template: PromptTemplateInput }) => Promise<void>;
+  onCancel: () => void;
+  disabled?: boolean;
+}
+
+export default function PromptTemplateForm({
+  initialTemplate,
+  collections = [],
+  onSubmit,
+  onCancel,
+  disabled = false,
+}: PromptTemplateFormProps) {
+  const [name, setName] = useState(initialTemplate?.name ?? "");
+  const [description, setDescription] = useState(
+    initialTemplate?.description ?? ""
+  );
+  const [systemMessage, setSystemMessage] = useState(
+    initialTemplate?.systemMessage ?? ""
+  );
+  const [messages, setMessages] = useState<PromptMessage[]>(
+    initialTemplate?.messages ?? []
+  );
+  const [text, setText] = useState(initialTemplate?.text ?? "");
+  const [declared, setDeclared] = useState<TemplateVariable[]>(
+    initialTemplate?.variables ?? []
+  );
+  const [execution, setExecution] = useState<ExecutionConfig>(
+    initialTemplate?.execution ?? { type: "serial" }
+  );
+  const [evaluators, setEvaluators] = useState<EvaluatorDraft[]>(
+    initialTemplate?.evaluators?.map(toEvaluatorDraft) ?? []
+  );
+  // Edited as JSON text, parsed on submit like evaluator schemas
+  const [outputSchema, setOutputSchema] = useState(
+    initialTemplate?.outputSchema
+      ? JSON.stringify(initialTemplate.outputSchema, null, 2)
+      : ""
+  );
+  const [retrieval, setRetrieval] = useState<RetrievalDraft>(
+    toRetrievalDraft(initialTemplate?.retrieval)
+  );
+  const [tools, setTools] = useState<ToolsDraft>(() =>
+    toToolsDraft(initialTemplate?.tools)
+  );
+  const [error, setError] = useState("");
+
+  const usesRetrieval = retrieval.collectionId !== NO_COLLECTION;
+  // Variables are detected from all messages; declarations only add type/default
+  // {{CONTEXT}} isn't a variable when retrieval fills it
+  const variables = resolveTemplateVariables({
+    text: getTemplateSourceText({ text, systemMessage, messages }),
+    declared,
+  }).filter((variable) => !usesRetrieval || variable.name !== CONTEXT_VARIABLE);
+
+  const updateParallelOption = ({
+    key,
+    value,
+  }: {
+    key: "maxConcurrency" | "timeoutMs";
+    value: string;
+  }) => {
+    const parsed = value === "" ? undefined : Number(value);
+    setExecution((prev) => ({
+      ...prev,
+      type: "parallel",
+      [key]: parsed === undefined || Number.isNaN(parsed) ? undefined : parsed,
+    }));
+  };
+
+  const updateMessage = ({
+    index,
+    changes,
+  }: {
+    index: number;
+    changes: Partial<PromptMessage>;
+  }) => {
+    setMessages((prev) =>
+      prev.map((message, i) =>
+        i === index ? { ...message, ...changes } : message
+      )
+    );
+  };
+
+  // Examples are added as a user/assistant pair, the usual few-shot shape
+  const addExample = () => {
+    setMessages((prev) => [
+      ...prev,
+      { role: "user", content: "" },
+      { role: "assistant", content: "" },
+    ]);
+  };
+
+  const removeMessage = (index: number) => {
+    setMessages((prev) => prev.filter((_, i) => i !== index));
+  };
+
+  const updateVariable = ({
+    name,
+    changes,
+  }: {
+    name: string;
+    changes: Partial<TemplateVariable>;
+  }) => {
+    const current = variables.find((variable) => variable.name === name);
+    if (!current) return;
+    setDeclared((prev) => [
+      ...prev.filter((variable) => variable.name !== name),
+      { ...current, ...changes },
+    ]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !text.trim()) {
+      setError("Name and template text are required");
+      return;
+    }
+    if (messages.some((message) => !message.content.trim())) {
+      setError("Example messages can't be empty");
+      return;
+    }
+
+    let evaluatorConfigs: EvaluatorConfig[];
+    try {
+      evaluatorConfigs = evaluators.map(toEvaluatorConfig);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid evaluator");
+      return;
+    }
+
+    let parsedOutputSchema: JsonSchema | undefined;
+    try {
+      parsedOutputSchema = outputSchema.trim()
+        ? JSON.parse(outputSchema)
+        : undefined;
+    } catch {
+      setError("Output schema must be valid JSON");
+      return;
+    }
+
+    let retrievalConfig: RetrievalConfig | undefined;
+    try {
+      retrievalConfig = toRetrievalConfig(retrieval);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid retrieval");
+      return;
+    }
+    if (
+      retrievalConfig &&
+      !extractTemplateVariables(
+        getTemplateSourceText({ text, systemMessage, messages })
+      ).includes(CONTEXT_VARIABLE)
+    ) {
+      setError(`Templates with retrieval must use {{${CONTEXT_VARIABLE}}}`);
+      return;
+    }
+
+    let toolConfigs: ToolConfig[];
+    try {
+      toolConfigs = toToolConfigs(tools);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid tools");
+      return;
+    }
+    if (toolConfigs.length > 0 && parsedOutputSchema) {
+      setError("Templates can't use tools and an output schema together");
+      return;
+    }
+
+    setError("");
+    await onSubmit({
+      template: {
+        name,
+        description,
+        systemMessage,
+        messages: messages.length > 0 ? messages : undefined,
+        text,
+        variables,
+        execution,
+        evaluators: evaluatorConfigs.length > 0 ? evaluatorConfigs : undefined,
+        outputSchema: parsedOutputSchema,
+        retrieval: retrievalConfig,
+        tools: toolConfigs.length > 0 ? toolConfigs : undefined,
+      },
+    });
+  };
+
+  const idPrefix = initialTemplate
+    ? `template-${initialTemplate.id}`
+    : "template-new";
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+        <Input
+          id={`${idPrefix}-name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={256}
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-description`}>Description</Label>
+        <Input
+          id={`${idPrefix}-description`}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Optional"
+          disabled={disabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-system`}>System Message</Label>
+        <Textarea
+          id={`${idPrefix}-system`}
+          value={systemMessage}
+          onChange={(e) => setSystemMessage(e.target.value)}
+          placeholder="Optional instructions sent as the system message"
+          disabled={disabled}
+          className="min-h-16 font-mono text-sm"
+          rows={3}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Examples</Label>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={addExample}
+            disabled={disabled}
+            className="h-6 px-2 text-xs"
+          >
+            Add Example
+          </Button>
+        </div>
+        {messages.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Optional user/assistant messages sent before the template
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {messages.map((message, index) => (
+              <div key={index} className="flex gap-2 items-start">
+                <Select
+                  value={message.role}
+                  onValueChange={(role) =>
+                    updateMessage({
+                      index,
+                      changes: { role: role as PromptMessage["role"] },
+                    })
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger size="sm" className="w-28 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="user">User</SelectItem>
+                    <SelectItem value="assistant">Assistant</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Textarea
+                  value={message.content}
+                  onChange={(e) =>
+                    updateMessage({
+                      index,
+                      changes: { content: e.target.value },
+                    })
+                  }
+                  aria-label={`Example message ${index + 1}`}
+                  disabled={disabled}
+                  className="min-h-10 font-mono text-sm"
+                  rows={2}
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeMessage(index)}
+                  disabled={disabled}
+                  aria-label={`Remove example message ${index + 1}`}
+                >
+                  ✕
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-text`}>Template</Label>
+        <Textarea
+          id={`${idPrefix}-text`}
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Use {{INPUT}} or named placeholders like {{customer_name}}"
+          disabled={disabled}
+          className={cn(
+            "min-h-32 font-mono text-sm",
+            error &&
+              "border-red-300 dark:border-red-600 focus-visible:ring-red-500/50"
+          )}
+          rows={6}
+        />
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-2">
+          <Label>Variables</Label>
+          <div className="space-y-2">
+            {variables.map((variable) => (
+              <div
+                key={variable.name}
+                className="grid grid-cols-3 gap-2 items-center"
+              >
+                <code className="text-xs truncate">{`{{${variable.name}}}`}</code>
+                <Select
+                  value={variable.type}
+                  onValueChange={(type) =>
+                    updateVariable({
+                      name: variable.name,
+                      changes: { type: type as TemplateVariable["type"] },
+                    })
+                  }
+                  disabled={disabled}
+                >
+                  <SelectTrigger size="sm" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VARIABLE_TYPES.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={variable.defaultValue ?? ""}
+                  onChange={(e) =>
+                    updateVariable({
+                      name: variable.name,
+                      changes: {
+                        defaultValue:
+                          e.target.value === "" ? undefined : e.target.value,
+                      },
+                    })
+                  }
+                  placeholder="Default"
+                  aria-label={`Default for ${variable.name}`}
+                  className="h-8"
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-execution`}>Execution</Label>
+        <div className="grid grid-cols-3 gap-2 items-center">
+          <Select
+            value={execution.type}
+            onValueChange={(type) =>
+              setExecution(
+                type === "parallel" ? { type: "parallel" } : { type: "serial" }
+              )
+            }
+            disabled={disabled}
+          >
+            <SelectTrigger
+              id={`${idPrefix}-execution`}
+              size="sm"
+              className="w-full"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="serial">Serial</SelectItem>
+              <SelectItem value="parallel">Parallel</SelectItem>
+            </SelectContent>
+          </Select>
+          {execution.type === "parallel" && (
+            <>
+              <Input
+                type="number"
+                min={1}
+                max={10}
+                value={execution.maxConcurrency ?? ""}
+                onChange={(e) =>
+                  updateParallelOption({
+                    key: "maxConcurrency",
+                    value: e.target.value,
+                  })
+                }
+                placeholder="Concurrency (all)"
+                aria-label="Max concurrency"
+                className="h-8"
+                disabled={disabled}
+              />
+              <Input
+                type="number"
+                min={1000}
+                step={1000}
+                value={execution.timeoutMs ?? ""}
+                onChange={(e) =>
+                  updateParallelOption({
+                    key: "timeoutMs",
+                    value: e.target.value,
+                  })
+                }
+                placeholder="Timeout ms (30000)"
+                aria-label="Timeout in milliseconds"
+                className="h-8"
+                disabled={disabled}
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <OutputSchemaEditor
+        id={`${idPrefix}-output-schema`}
+        outputSchema={outputSchema}
+        onChange={({ outputSchema }) => setOutputSchema(outputSchema)}
+        disabled={disabled}
+      />
+
+      <RetrievalEditor
+        retrieval={retrieval}
+        collections={collections}
+        onChange={({ retrieval }) => setRetrieval(retrieval)}
+        disabled={disabled}
+      />
+
+      <ToolsEditor
+        tools={tools}
+        onChange={({ tools }) => setTools(tools)}
+        disabled={disabled}
+      />
+
+      <EvaluatorEditor
+        evaluators={evaluators}
+        onChange={({ evaluators }) => setEvaluators(evaluators)}
+        disabled={disabled}
+      />
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={onCancel}
+          disabled={disabled}
+        >
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={disabled}>
+          {initialTemplate ? "Save Changes" : "Create Template"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { cn } from "@/lib/utils";
+import { fetchJudgeScoresByVersion } from "@/server/actions/fetchJudgeScoresByVersion";
+import { fetchPromptTemplateVersions } from "@/server/actions/fetchPromptTemplateVersions";
+import { restorePromptTemplateVersion } from "@/server/actions/restorePromptTemplateVersion";
+import { PromptTemplate } from "@/types/promptHandler";
+import { diffLines, DiffRow } from "@/utils/diffLines";
+import { formatJudgeScore } from "@/utils/evaluators";
+import { formatTemplateWording } from "@/utils/templateMessages";
+
+interface PromptTemplateHistoryProps {
+  template: PromptTemplate;
+}
+
+const rowStyles: Record<DiffRow["type"], { left: string; right: string }> = {
+  unchanged: { left: "", right: "" },
+  added: { left: "", right: "bg-green-50 dark:bg-green-900/20" },
+  removed: { left: "bg-red-50 dark:bg-red-900/20", right: "" },
+  changed: {
+    left: "bg-red-50 dark:bg-red-900/20",
+    right: "bg-green-50 dark:bg-green-900/20",
+  },
+};
+
+const PromptTemplateHistory = ({ template }: PromptTemplateHistoryProps) => {
+  // Keyed on the current version so edits and restores refetch the list
+  const {
+    data: versions,
+    isLoading,
+    error,
+  } = useQuery({
+    queryKey: ["promptTemplateVersions", template.id, template.version],
+    queryFn: () => fetchPromptTemplateVersions(template.id),
+  });
+
+  // Judge averages from saved runs, shown under each side of the comparison
+  const { data: judgeScores } = useQuery({
+    queryKey: ["judgeScoresByVersion", template.id, template.version],
+    queryFn: () => fetchJudgeScoresByVersion(template.id),
+    enabled: template.evaluators?.some(
+      (evaluator) => evaluator.type === "judge"
+    ),
+  });
+
+  const [selectedLeft, setSelectedLeft] = useState<number | null>(null);
+  const [selectedRight, setSelectedRight] = useState<number | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [restoreError, setRestoreError] = useState<string>("");
+
+  // Default to comparing the previous version against the current one
+  const leftVersion =
+    selectedLeft ?? versions?.[1]?.version ?? versions?.[0]?.version;
+  const rightVersion = selectedRight ?? versions?.[0]?.version;
+
+  const left = versions?.find((v) => v.version === leftVersion);
+  const right = versions?.find((v) => v.version === rightVersion);
+
+  const rows = useMemo(
+    () =>
+      left && right
+        ? diffLines({
+            before: formatTemplateWording(left),
+            after: formatTemplateWording(right),
+          })
+        : [],
+    [left, right]
+  );
+
+  const handleRestore = async (version: number) => {
+    setIsRestoring(true);
+    setRestoreError("");
+
+    try {
+      await restorePromptTemplateVersion({ templateId: template.id, version });
+      setSelectedLeft(null);
+      setSelectedRight(null);
+    } catch (err) {
+      setRestoreError("Failed to restore version");
+      console.error(err);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-32 w-full bg-slate-200 dark:bg-slate-700" />;
+  }
+
+  if (error || !versions) {
+    return (
+      <p className="text-sm text-red-600 dark:text-red-400">
+        Failed to load version history
+      </p>
+    );
+  }
+
+  if (versions.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No versions recorded yet</p>
+    );
+  }
+
+  const renderVersionSelect = ({
+    id,
+    value,
+    onChange,
+  }: {
+    id: string;
+    value?: number;
+    onChange: (version: number) => void;
+  }) => (
+    <Select
+      value={value?.toString()}
+      onValueChange={(next) => onChange(parseInt(next))}
+    >
+      <SelectTrigger id={id} size="sm" className="w-full">
+        <SelectValue placeholder="Select version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((v) => (
+          <SelectItem key={v.id} value={v.version.toString()}>
+            v{v.version}
+            {v.version === template.version ? " (current)" : ""} ·{" "}
+            {v.createdAt.toLocaleString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const renderJudgeScores = (version?: number) => {
+    const scores = version === undefined ? undefined : judgeScores?.[version];
+    return scores?.length ? (
+      <div className="space-y-0.5 text-xs text-muted-foreground">
+        {scores.map((score) => (
+          <p key={score.label} className="truncate" title={score.label}>
+            {score.label}:{" "}
+            <span className="font-mono text-foreground">
+              {formatJudgeScore(score)}
+            </span>{" "}
+            over {score.count} {score.count === 1 ? "run" : "runs"}
+          </p>
+        ))}
+      </div>
+    ) : null;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor={`history-${template.id}-left`} className="text-xs">
+            Compare
+          </Label>
+          {renderVersionSelect({
+            id: `history-${template.id}-left`,
+            value: leftVersion,
+            onChange: setSelectedLeft,
+          })}
+          {renderJudgeScores(leftVersion)}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`history-${template.id}-right`} className="text-xs">
+            With
+          </Label>
+          {renderVersionSelect({
+            id: `history-${template.id}-right`,
+            value: rightVersion,
+            onChange: setSelectedRight,
+          })}
+          {renderJudgeScores(rightVersion)}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-px bg-slate-200 dark:bg-slate-700 rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden max-h-80 overflow-y-auto text-xs font-mono">
+        {rows.map((row, index) => (
+          <div key={index} className="contents">
+            <div
+              className={cn(
+                "bg-white dark:bg-slate-800 px-2 py-0.5 whitespace-pre-wrap break-words",
+                rowStyles[row.type].left
+              )}
+            >
+              {row.left ?? ""}
+            </div>
+            <div
+              className={cn(
+                "bg-white dark:bg-slate-800 px-2 py-0.5 whitespace-pre-wrap break-words",
+                rowStyles[row.type].right
+              )}
+            >
+              {row.right ?? ""}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {restoreError && (
+        <p className="text-sm text-red-600 dark:text-red-400">{restoreError}</p>
+      )}
+
+      {left && left.version !== template.version && (
+        <div className="flex justify-end">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleRestore(left.version)}
+            disabled={isRestoring}
+            className="h-6 px-2 text-xs"
+          >
+            {isRestoring ? "Restoring..." : `Restore v${left.version}`}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplateHistory;
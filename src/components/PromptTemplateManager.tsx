@@ -0,0 +1,206 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { createPromptTemplate } from "@/server/actions/createPromptTemplate";
+import { deletePromptTemplate } from "@/server/actions/deletePromptTemplate";
+import { duplicatePromptTemplate } from "@/server/actions/duplicatePromptTemplate";
+import { editPromptTemplate } from "@/server/actions/editPromptTemplate";
+import {
+  Collection,
+  PromptTemplate,
+  PromptTemplateInput,
+} from "@/types/promptHandler";
+
+import PromptTemplateForm from "./PromptTemplateForm";
+import PromptTemplateHistory from "./PromptTemplateHistory";
+
+interface PromptTemplateManagerProps {
+  promptTemplates: PromptTemplate[];
+  collections?: Collection[];
+}
+
+// "new" while creating, a template id while editing, null otherwise
+type EditingState = "new" | number | null;
+
+const PromptTemplateManager = ({
+  promptTemplates,
+  collections = [],
+}: PromptTemplateManagerProps) => {
+  const [editing, setEditing] = useState<EditingState>(null);
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+  const [notice, setNotice] = useState<string>("");
+
+  // Server actions revalidate the page, so fresh templates arrive via props
+  const runAction = async (action: () => Promise<unknown>) => {
+    setIsPending(true);
+    setError("");
+    setNotice("");
+
+    try {
+      await action();
+      setEditing(null);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to save prompt template"
+      );
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  const handleCreate = ({ template }: { template: PromptTemplateInput }) =>
+    runAction(() => createPromptTemplate({ template }));
+
+  const handleEdit =
+    (id: number) =>
+    ({ template }: { template: PromptTemplateInput }) =>
+      runAction(() => editPromptTemplate({ id, template }));
+
+  const handleDuplicate = (id: number) =>
+    runAction(async () => {
+      const { template, removedRetrieval } = await duplicatePromptTemplate(id);
+      if (removedRetrieval) {
+        setNotice(
+          `"${template.name}" was copied without retrieval, since the collection belongs to another user`
+        );
+      }
+    });
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (!window.confirm(`Delete "${template.name}"? This cannot be undone.`)) {
+      return;
+    }
+    return runAction(() => deletePromptTemplate(template.id));
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <Label className="text-base font-medium">Prompt Templates</Label>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setEditing("new")}
+          disabled={isPending || editing === "new"}
+        >
+          New Template
+        </Button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {notice && (
+        <p className="text-sm text-amber-700 dark:text-amber-300">{notice}</p>
+      )}
+
+      {editing === "new" && (
+        <div className="rounded-lg border border-slate-200 dark:border-slate-700 p-4">
+          <PromptTemplateForm
+            collections={collections}
+            onSubmit={handleCreate}
+            onCancel={() => setEditing(null)}
+            disabled={isPending}
+          />
+        </div>
+      )}
+
+      {promptTemplates.length === 0 && editing !== "new" && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No saved templates yet
+        </p>
+      )}
+
+      <ul className="space-y-3">
+        {promptTemplates.map((template) => (
+          <li
+            key={template.id}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-4 space-y-3"
+          >
+            {editing === template.id ? (
+              <PromptTemplateForm
+                initialTemplate={template}
+                collections={collections}
+                onSubmit={handleEdit(template.id)}
+                onCancel={() => setEditing(null)}
+                disabled={isPending}
+              />
+            ) : (
+              <>
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-sm">{template.name}</p>
+                    <span className="text-xs bg-slate-100 dark:bg-slate-900/50 text-slate-600 dark:text-slate-400 px-2 py-0.5 rounded">
+                      v{template.version}
+                    </span>
+                  </div>
+                  {template.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {template.description}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-1">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setEditing(template.id)}
+                    disabled={isPending}
+                    className="h-6 px-2 text-xs"
+                  >
+                    Edit
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDuplicate(template.id)}
+                    disabled={isPending}
+                    className="h-6 px-2 text-xs"
+                  >
+                    Duplicate
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() =>
+                      setHistoryId((prev) =>
+                        prev === template.id ? null : template.id
+                      )
+                    }
+                    className="h-6 px-2 text-xs"
+                  >
+                    {historyId === template.id ? "Hide History" : "History"}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(template)}
+                    disabled={isPending}
+                    className="h-6 px-2 text-xs text-red-600 dark:text-red-400"
+                  >
+                    Delete
+                  </Button>
+                </div>
+                {historyId === template.id && (
+                  <PromptTemplateHistory template={template} />
+                )}
+              </>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
@@ -0,0 +1,83 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { getDataType, safeStringify } from "@/utils/formatResponse";
+
+import CopyButton from "./CopyButton";
+
+interface ResponseContentProps {
+  response: string | object;
+}
+
+// Long responses can be collapsed to keep the other sections in view
+const ResponseContent = ({ response }: ResponseContentProps) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const dataType = getDataType(response);
+
+  if (dataType === "empty") {
+    return (
+      <div className="py-8 text-center">
+        <p className="text-muted-foreground">No response yet</p>
+      </div>
+    );
+  }
+
+  const content =
+    dataType === "json" ? safeStringify(response as object) : String(response);
+  const isLargeContent = content.length > 2000;
+  const contentClassName = cn(
+    "bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700",
+    isLargeContent && "transition-[max-height] duration-300",
+    isLargeContent && collapsed && "max-h-40 overflow-y-auto",
+    isLargeContent && !collapsed && "max-h-96 overflow-y-auto"
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {dataType === "json" ? (
+            <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-1 rounded">
+              JSON
+            </span>
+          ) : (
+            <span className="text-xs bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300 px-2 py-1 rounded">
+              TEXT
+            </span>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {isLargeContent && (
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setCollapsed((prev) => !prev)}
+              className="h-6 px-2 text-xs"
+            >
+              {collapsed ? "Expand" : "Collapse"}
+            </Button>
+          )}
+          <CopyButton text={content} />
+        </div>
+      </div>
+      {dataType === "json" ? (
+        <pre
+          className={cn(contentClassName, "overflow-x-auto text-sm font-mono")}
+        >
+          <code>{content}</code>
+        </pre>
+      ) : (
+        <div className={contentClassName}>
+          <p className="whitespace-pre-wrap text-sm leading-relaxed">
+            {content}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResponseContent;
@@ -0,0 +1,150 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Collection, RetrievalConfig } from "@/types/promptHandler";
+import { CONTEXT_VARIABLE } from "@/utils/templateVariables";
+
+// Select items can't have an empty value, so "no retrieval" gets a sentinel
+export const NO_COLLECTION = "__none__";
+
+export interface RetrievalDraft {
+  collectionId: string;
+  topK: string;
+  minSimilarity: string;
+}
+
+export const toRetrievalDraft = (
+  retrieval?: RetrievalConfig
+): RetrievalDraft => ({
+  collectionId: retrieval ? String(retrieval.collectionId) : NO_COLLECTION,
+  topK: retrieval?.topK === undefined ? "" : String(retrieval.topK),
+  minSimilarity:
+    retrieval?.minSimilarity === undefined
+      ? ""
+      : String(retrieval.minSimilarity),
+});
+
+export const toRetrievalConfig = (
+  draft: RetrievalDraft
+): RetrievalConfig | undefined => {
+  if (draft.collectionId === NO_COLLECTION) return undefined;
+  const topK = draft.topK.trim() ? Number(draft.topK) : undefined;
+  const minSimilarity = draft.minSimilarity.trim()
+    ? Number(draft.minSimilarity)
+    : undefined;
+  if (topK !== undefined && !(Number.isInteger(topK) && topK >= 1)) {
+    throw new Error("Top k must be a whole number of at least 1");
+  }
+  if (
+    minSimilarity !== undefined &&
+    !(minSimilarity >= -1 && minSimilarity <= 1)
+  ) {
+    throw new Error("Minimum similarity must be between -1 and 1");
+  }
+  return { collectionId: Number(draft.collectionId), topK, minSimilarity };
+};
+
+interface RetrievalEditorProps {
+  retrieval: RetrievalDraft;
+  collections: Collection[]; // The signed-in user's
+  onChange: (params: { retrieval: RetrievalDraft }) => void;
+  disabled?: boolean;
+}
+
+export default function RetrievalEditor({
+  retrieval,
+  collections,
+  onChange,
+  disabled = false,
+}: RetrievalEditorProps) {
+  const usesRetrieval = retrieval.collectionId !== NO_COLLECTION;
+  // Templates can reference another user's collection, which isn't listed
+  const collectionOptions =
+    usesRetrieval &&
+    !collections.some(
+      (collection) => String(collection.id) === retrieval.collectionId
+    )
+      ? [
+          ...collections,
+          {
+            id: Number(retrieval.collectionId),
+            name: `Collection #${retrieval.collectionId}`,
+          },
+        ]
+      : collections;
+
+  return (
+    <div className="space-y-2">
+      <Label>Retrieval</Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={retrieval.collectionId}
+          onValueChange={(collectionId) =>
+            onChange({ retrieval: { ...retrieval, collectionId } })
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger
+            size="sm"
+            className="w-48"
+            aria-label="Retrieval collection"
+          >
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_COLLECTION}>No retrieval</SelectItem>
+            {collectionOptions.map((collection) => (
+              <SelectItem key={collection.id} value={String(collection.id)}>
+                {collection.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {usesRetrieval && (
+          <>
+            <Input
+              type="number"
+              min={1}
+              max={20}
+              value={retrieval.topK}
+              onChange={(e) =>
+                onChange({ retrieval: { ...retrieval, topK: e.target.value } })
+              }
+              placeholder="Top k (4)"
+              aria-label="Top k"
+              className="h-8 w-28"
+              disabled={disabled}
+            />
+            <Input
+              type="number"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={retrieval.minSimilarity}
+              onChange={(e) =>
+                onChange({
+                  retrieval: { ...retrieval, minSimilarity: e.target.value },
+                })
+              }
+              placeholder="Min similarity (0.3)"
+              aria-label="Minimum similarity"
+              className="h-8 w-40"
+              disabled={disabled}
+            />
+          </>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Chunks retrieved for the input fill {`{{${CONTEXT_VARIABLE}}}`}
+      </p>
+    </div>
+  );
+}
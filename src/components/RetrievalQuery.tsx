@@ -0,0 +1,133 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { searchCollection } from "@/server/actions/searchCollection";
+import { RetrievedChunk } from "@/types/promptHandler";
+import { formatChunkSource } from "@/utils/retrievedChunks";
+
+interface RetrievalQueryProps {
+  collectionId: number;
+}
+
+/**
+ * Runs retrieval on its own, to tune chunking and thresholds without paying
+ * for a generation
+ */
+const RetrievalQuery = ({ collectionId }: RetrievalQueryProps) => {
+  const [query, setQuery] = useState("");
+  const [topK, setTopK] = useState(4);
+  const [minSimilarity, setMinSimilarity] = useState(0);
+  const [chunks, setChunks] = useState<RetrievedChunk[] | null>(null);
+  const [isPending, setIsPending] = useState(false);
+  const [error, setError] = useState<string>("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsPending(true);
+    setError("");
+
+    try {
+      setChunks(
+        await searchCollection({ collectionId, query, topK, minSimilarity })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Search failed");
+      console.error(err);
+    } finally {
+      setIsPending(false);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-xl border border-gray-200 dark:border-slate-700 p-6 space-y-4">
+      <Label className="text-base font-medium">Retrieval Query</Label>
+
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <Textarea
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Find chunks similar to..."
+          aria-label="Query"
+          disabled={isPending}
+          className="min-h-20 text-sm"
+          rows={3}
+        />
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="retrieval-top-k" className="text-xs">
+              Top k
+            </Label>
+            <Input
+              id="retrieval-top-k"
+              type="number"
+              min={1}
+              max={20}
+              value={topK}
+              onChange={(e) => setTopK(Number(e.target.value))}
+              disabled={isPending}
+              className="h-8"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="retrieval-min-similarity" className="text-xs">
+              Min similarity
+            </Label>
+            <Input
+              id="retrieval-min-similarity"
+              type="number"
+              min={-1}
+              max={1}
+              step={0.05}
+              value={minSimilarity}
+              onChange={(e) => setMinSimilarity(Number(e.target.value))}
+              disabled={isPending}
+              className="h-8"
+            />
+          </div>
+        </div>
+        <Button type="submit" size="sm" disabled={isPending || !query.trim()}>
+          {isPending ? "Searching..." : "Search"}
+        </Button>
+      </form>
+
+      {error && (
+        <p className="text-sm text-red-600 dark:text-red-400 flex items-center gap-1">
+          <span>⚠️</span>
+          {error}
+        </p>
+      )}
+
+      {chunks?.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">
+          No chunks matched
+        </p>
+      )}
+
+      <ol className="space-y-2">
+        {chunks?.map((chunk) => (
+          <li
+            key={`${chunk.documentId}-${chunk.index}`}
+            className="rounded-lg border border-slate-200 dark:border-slate-700 p-3 space-y-1"
+          >
+            <div className="flex items-center justify-between gap-2 text-xs">
+              <span className="font-medium">{formatChunkSource(chunk)}</span>
+              <span className="text-muted-foreground">
+                similarity {chunk.similarity.toFixed(3)}
+              </span>
+            </div>
+            <p className="text-xs whitespace-pre-wrap text-slate-700 dark:text-slate-300">
+              {chunk.content}
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
+
+export default RetrievalQuery;
@@ -0,0 +1,179 @@
+import React from "react";
+
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { PromptResult } from "@/types/promptHandler";
+import { getRoleLabel } from "@/utils/templateMessages";
+
+import CopyButton from "./CopyButton";
+import EvaluatorScores from "./EvaluatorScores";
+import RunOutput from "./RunOutput";
+import RunStatusBadge from "./RunStatusBadge";
+import TraceWaterfall from "./TraceWaterfall";
+import UsageLabels from "./UsageLabels";
+
+interface RunDetailsProps {
+  result: PromptResult;
+  userInput?: string; // Shown first when the run is the whole batch
+  extraLabels?: React.ReactNode; // Appended to the run's metadata
+}
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+const renderLogs = (logs: { label: string; text: string }[]) => (
+  <div className="space-y-3">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2">
+        <Label className="text-sm font-medium">Processing Logs</Label>
+        <span className="text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-2 py-1 rounded">
+          {logs.length} {logs.length === 1 ? "entry" : "entries"}
+        </span>
+      </div>
+      <CopyButton
+        text={logs
+          .map((log) => `${log.label}:\n${log.text}`)
+          .join("\n\n---\n\n")}
+        label="Copy All"
+      />
+    </div>
+    <div className="space-y-2 bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-60 overflow-y-auto">
+      {logs.map((log, index) => (
+        <div key={index} className="space-y-1">
+          <div className="text-xs font-medium text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+            {log.label}
+          </div>
+          <div className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed bg-white dark:bg-slate-800 rounded p-2 border border-slate-200 dark:border-slate-600">
+            {log.text}
+          </div>
+          {index < logs.length - 1 && (
+            <div className="border-b border-slate-200 dark:border-slate-600 my-2" />
+          )}
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+// Message-based templates show each turn; plain prompts show the flat string
+const renderPromptContent = (result: PromptResult) => {
+  if (!result.messages) {
+    return (
+      <div className="bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-40 overflow-y-auto">
+        <p className="whitespace-pre-wrap text-sm leading-relaxed text-slate-600 dark:text-slate-400">
+          {result.prompt}
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2 bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700 max-h-80 overflow-y-auto">
+      {result.messages.map((message, index) => (
+        <div
+          key={index}
+          className={cn(
+            "space-y-1",
+            message.role === "assistant" && "pl-6",
+            message.role === "user" && "pr-6"
+          )}
+        >
+          <div className="text-xs font-medium text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+            {getRoleLabel(message.role)}
+          </div>
+          <div
+            className={cn(
+              "text-sm whitespace-pre-wrap leading-relaxed rounded p-2 border",
+              message.role === "system" &&
+                "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800 text-amber-900 dark:text-amber-200",
+              message.role === "user" &&
+                "bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300",
+              message.role === "assistant" &&
+                "bg-blue-50 dark:bg-blue-900/20 border-blue-200 dark:border-blue-800 text-slate-700 dark:text-slate-300"
+            )}
+          >
+            {message.content}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Metadata, output, evaluators, trace, logs and prompt for one run
+ */
+const RunDetails = ({ result, userInput, extraLabels }: RunDetailsProps) => (
+  <>
+    {/* Run metadata */}
+    <div className="flex flex-wrap gap-4 text-sm text-muted-foreground bg-slate-50 dark:bg-slate-900/50 rounded-lg p-3 border border-slate-200 dark:border-slate-700">
+      {userInput !== undefined && (
+        <span>
+          User Input:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            &quot;{userInput}&quot;
+          </span>
+        </span>
+      )}
+      <RunStatusBadge status={result.status} />
+      <span>
+        Duration:{" "}
+        <span className="font-medium text-slate-900 dark:text-slate-100">
+          {formatDuration(result.duration)}
+        </span>
+      </span>
+      {/* Only shown once a call needed retries */}
+      {result.attempts !== undefined && result.attempts > 1 && (
+        <span>
+          Attempts:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {result.attempts}
+          </span>
+        </span>
+      )}
+      {result.timeToFirstToken !== undefined && (
+        <span>
+          Time to First Token:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatDuration(result.timeToFirstToken)}
+          </span>
+        </span>
+      )}
+      <span>
+        Generated at:{" "}
+        <span className="font-medium text-slate-900 dark:text-slate-100">
+          {result.timestamp.toLocaleTimeString()}
+        </span>
+      </span>
+      <UsageLabels usage={result.usage} cost={result.cost} />
+      {extraLabels}
+    </div>
+
+    {/* Response */}
+    <RunOutput result={result} />
+
+    {result.evaluations?.length ? (
+      <EvaluatorScores evaluations={result.evaluations} />
+    ) : null}
+
+    {result.trace && <TraceWaterfall trace={result.trace} />}
+
+    {/* Logs */}
+    {result.logs && result.logs.length > 0 && renderLogs(result.logs)}
+
+    {/* Prompt - only show if result has a prompt */}
+    {result.prompt && (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Label className="text-sm font-medium">Prompt Sent</Label>
+          </div>
+          <CopyButton text={result.prompt} />
+        </div>
+        {renderPromptContent(result)}
+      </div>
+    )}
+  </>
+);
+
+export default RunDetails;
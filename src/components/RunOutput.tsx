@@ -0,0 +1,22 @@
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { PromptResult } from "@/types/promptHandler";
+
+import ResponseContent from "./ResponseContent";
+
+interface RunOutputProps {
+  result: PromptResult;
+}
+
+// Failed runs have no response, so the error takes its place
+const RunOutput = ({ result }: RunOutputProps) =>
+  result.status === "success" ? (
+    <ResponseContent response={result.response} />
+  ) : (
+    <div className="rounded-lg p-4 border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+      <p className="whitespace-pre-wrap text-sm text-red-700 dark:text-red-300">
+        {result.error ?? RUN_STATUS_STYLES[result.status].label}
+      </p>
+    </div>
+  );
+
+export default RunOutput;
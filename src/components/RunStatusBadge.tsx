@@ -0,0 +1,20 @@
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { cn } from "@/lib/utils";
+import { RunStatus } from "@/types/promptHandler";
+
+interface RunStatusBadgeProps {
+  status: RunStatus;
+}
+
+const RunStatusBadge = ({ status }: RunStatusBadgeProps) => (
+  <span
+    className={cn(
+      "text-xs px-2 py-0.5 rounded font-medium",
+      RUN_STATUS_STYLES[status].className
+    )}
+  >
+    {RUN_STATUS_STYLES[status].label}
+  </span>
+);
+
+export default RunStatusBadge;
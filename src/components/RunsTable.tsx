@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RUN_STATUS_STYLES } from "@/lib/runStatus";
+import { cn } from "@/lib/utils";
+import { PromptResult } from "@/types/promptHandler";
+
+import RunDetails from "./RunDetails";
+import RunStatusBadge from "./RunStatusBadge";
+
+interface RunsTableProps {
+  results: PromptResult[];
+}
+
+const RUNS_PAGE_SIZE = 20;
+const PREVIEW_LENGTH = 120;
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+const getRunPreview = (result: PromptResult) => {
+  const text =
+    result.status !== "success"
+      ? result.error ?? RUN_STATUS_STYLES[result.status].label
+      : typeof result.response === "string"
+      ? result.response
+      : JSON.stringify(result.response);
+  return text.length > PREVIEW_LENGTH
+    ? `${text.slice(0, PREVIEW_LENGTH)}...`
+    : text;
+};
+
+/**
+ * Paginated runs of a large batch; clicking a row opens that run's details
+ * below the table
+ */
+const RunsTable = ({ results }: RunsTableProps) => {
+  const [batchPage, setBatchPage] = useState(0);
+  const [selectedRunIndex, setSelectedRunIndex] = useState<number | null>(null);
+
+  const pageCount = Math.max(Math.ceil(results.length / RUNS_PAGE_SIZE), 1);
+  // A new batch can have fewer pages than the one last viewed
+  const page = Math.min(batchPage, pageCount - 1);
+  const pageRows = results.slice(
+    page * RUNS_PAGE_SIZE,
+    (page + 1) * RUNS_PAGE_SIZE
+  );
+  const selectedResult = results.find(
+    (result) => result.runIndex === selectedRunIndex
+  );
+  const hasEvaluations = results.some((result) => result.evaluations?.length);
+
+  return (
+    <div className="space-y-4">
+      <div className="overflow-x-auto rounded-lg border border-slate-200 dark:border-slate-700">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 dark:bg-slate-900/50 text-left text-xs text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2 font-medium">Run</th>
+              <th className="px-3 py-2 font-medium">Status</th>
+              <th className="px-3 py-2 font-medium">Duration</th>
+              <th className="px-3 py-2 font-medium">Tokens</th>
+              {hasEvaluations && (
+                <th className="px-3 py-2 font-medium">Evaluators</th>
+              )}
+              <th className="px-3 py-2 font-medium">Response</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pageRows.map((result) => (
+              <tr
+                key={result.runIndex}
+                onClick={() =>
+                  setSelectedRunIndex((prev) =>
+                    prev === result.runIndex ? null : result.runIndex
+                  )
+                }
+                className={cn(
+                  "cursor-pointer border-t border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-900/50",
+                  result.runIndex === selectedRunIndex &&
+                    "bg-blue-50 dark:bg-blue-900/20"
+                )}
+              >
+                <td className="px-3 py-2 font-medium">{result.runIndex + 1}</td>
+                <td className="px-3 py-2">
+                  <RunStatusBadge status={result.status} />
+                </td>
+                <td className="px-3 py-2 whitespace-nowrap">
+                  {formatDuration(result.duration)}
+                </td>
+                <td className="px-3 py-2">
+                  {result.usage?.totalTokens.toLocaleString() ?? "-"}
+                </td>
+                {hasEvaluations && (
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {result.evaluations &&
+                      `${
+                        result.evaluations.filter(
+                          (evaluation) => evaluation.passed
+                        ).length
+                      } / ${result.evaluations.length}`}
+                  </td>
+                )}
+                <td className="px-3 py-2 text-slate-600 dark:text-slate-400">
+                  {getRunPreview(result)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {pageCount > 1 && (
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setBatchPage(page - 1)}
+            disabled={page === 0}
+            className="h-7 px-3 text-xs"
+          >
+            Previous
+          </Button>
+          <span>
+            Page {page + 1} of {pageCount}
+          </span>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setBatchPage(page + 1)}
+            disabled={page === pageCount - 1}
+            className="h-7 px-3 text-xs"
+          >
+            Next
+          </Button>
+        </div>
+      )}
+
+      {selectedResult && (
+        <div className="space-y-6 pt-2">
+          <Label className="text-sm font-medium">
+            Run {selectedResult.runIndex + 1}
+          </Label>
+          <RunDetails result={selectedResult} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RunsTable;
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useState } from "react";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToolConfig } from "@/types/promptHandler";
+import { TOOL_TYPES } from "@/utils/tools";
+
+type LookupFile = Omit<Extract<ToolConfig, { type: "jsonLookup" }>, "type">;
+
+// The lookup file is kept apart so unticking JSON lookup doesn't drop it
+export interface ToolsDraft {
+  types: ToolConfig["type"][];
+  lookupFile: LookupFile | null;
+}
+
+export const toToolsDraft = (tools?: ToolConfig[]): ToolsDraft => {
+  const lookup = tools?.find((tool) => tool.type === "jsonLookup");
+  return {
+    types: tools?.map((tool) => tool.type) ?? [],
+    lookupFile: lookup
+      ? { fileName: lookup.fileName, data: lookup.data }
+      : null,
+  };
+};
+
+export const toToolConfigs = ({
+  types,
+  lookupFile,
+}: ToolsDraft): ToolConfig[] =>
+  types.map((type) => {
+    if (type !== "jsonLookup") return { type };
+    if (!lookupFile) {
+      throw new Error("Upload a JSON file for the lookup tool");
+    }
+    return { type, ...lookupFile };
+  });
+
+interface ToolsEditorProps {
+  tools: ToolsDraft;
+  onChange: (params: { tools: ToolsDraft }) => void;
+  disabled?: boolean;
+}
+
+export default function ToolsEditor({
+  tools,
+  onChange,
+  disabled = false,
+}: ToolsEditorProps) {
+  const [fileError, setFileError] = useState("");
+
+  const toggleTool = (type: ToolConfig["type"]) =>
+    onChange({
+      tools: {
+        ...tools,
+        types: tools.types.includes(type)
+          ? tools.types.filter((current) => current !== type)
+          : [...tools.types, type],
+      },
+    });
+
+  const handleLookupFileChange = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      onChange({
+        tools: {
+          ...tools,
+          lookupFile: {
+            fileName: file.name,
+            data: JSON.parse(await file.text()),
+          },
+        },
+      });
+      setFileError("");
+    } catch (err) {
+      setFileError("Lookup file must be valid JSON");
+      console.error(err);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Tools</Label>
+      <div className="space-y-2">
+        {TOOL_TYPES.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-start gap-2 text-sm cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={tools.types.includes(option.value)}
+              onChange={() => toggleTool(option.value)}
+              disabled={disabled}
+              className="mt-0.5 size-4 accent-blue-600"
+            />
+            <span>
+              {option.label}
+              <span className="block text-xs text-muted-foreground">
+                {option.description}
+              </span>
+            </span>
+          </label>
+        ))}
+      </div>
+      {tools.types.includes("jsonLookup") && (
+        <div className="space-y-1">
+          <Input
+            type="file"
+            accept=".json,application/json"
+            onChange={handleLookupFileChange}
+            aria-label="Lookup file"
+            disabled={disabled}
+          />
+          {fileError ? (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              {fileError}
+            </p>
+          ) : (
+            <p className="text-xs text-muted-foreground">
+              {tools.lookupFile
+                ? `Using ${tools.lookupFile.fileName}`
+                : "No lookup file uploaded"}
+            </p>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        The model can call these while answering; tool runs aren&apos;t streamed
+        and can&apos;t be combined with an output schema
+      </p>
+    </div>
+  );
+}
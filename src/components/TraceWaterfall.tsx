@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+
+import { Label } from "@/components/ui/label";
+import { formatTokens } from "@/lib/modelPricing";
+import { getModelDisplayName } from "@/lib/models";
+import { cn } from "@/lib/utils";
+import { TraceSpan } from "@/types/promptHandler";
+import { flattenTrace } from "@/utils/traceSpans";
+
+interface TraceWaterfallProps {
+  trace: TraceSpan;
+}
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(2)}s`;
+
+const renderSpanField = (label: string, text: string) => (
+  <div className="space-y-1">
+    <div className="text-xs font-medium text-slate-600 dark:text-slate-400 uppercase tracking-wide">
+      {label}
+    </div>
+    <div className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed bg-white dark:bg-slate-800 rounded p-2 border border-slate-200 dark:border-slate-600 max-h-40 overflow-y-auto">
+      {text}
+    </div>
+  </div>
+);
+
+/**
+ * Timeline of a run's stages, one bar per span, nested by depth
+ * Clicking a stage shows what went in and came out of it
+ */
+const TraceWaterfall = ({ trace }: TraceWaterfallProps) => {
+  // Rows are addressed by position, since span names can repeat
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const rows = flattenTrace(trace);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label className="text-sm font-medium">Trace</Label>
+        <span className="text-xs bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300 px-2 py-1 rounded">
+          {rows.length} {rows.length === 1 ? "span" : "spans"}
+        </span>
+      </div>
+      <div className="space-y-1 bg-slate-50 dark:bg-slate-900/50 rounded-lg p-4 border border-slate-200 dark:border-slate-700">
+        {rows.map(({ span, depth, offset, width }, index) => (
+          <div key={index} className="space-y-2">
+            <button
+              type="button"
+              onClick={() => setExpanded(expanded === index ? null : index)}
+              className="w-full grid grid-cols-[12rem_1fr_4rem] items-center gap-3 text-left text-xs rounded px-1 py-1 hover:bg-slate-100 dark:hover:bg-slate-800"
+              aria-expanded={expanded === index}
+            >
+              <span
+                className={cn(
+                  "truncate font-mono",
+                  span.error && "text-red-600 dark:text-red-400"
+                )}
+                style={{ paddingLeft: `${depth * 0.75}rem` }}
+              >
+                {span.name}
+              </span>
+              <span className="relative h-3">
+                <span
+                  className={cn(
+                    "absolute inset-y-0 rounded-sm",
+                    span.error ? "bg-red-500" : "bg-blue-500"
+                  )}
+                  style={{
+                    left: `${offset * 100}%`,
+                    width: `${width * 100}%`,
+                  }}
+                />
+              </span>
+              <span className="text-right text-muted-foreground">
+                {formatDuration(span.endTime - span.startTime)}
+              </span>
+            </button>
+
+            {expanded === index && (
+              <div className="space-y-2 rounded-lg border border-slate-200 dark:border-slate-700 p-3">
+                <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                  {span.model && (
+                    <span>
+                      Model:{" "}
+                      <span className="font-medium text-slate-900 dark:text-slate-100">
+                        {getModelDisplayName(span.model)}
+                      </span>
+                    </span>
+                  )}
+                  {span.usage && (
+                    <span>
+                      Tokens:{" "}
+                      <span className="font-medium text-slate-900 dark:text-slate-100">
+                        {formatTokens(span.usage)}
+                      </span>
+                    </span>
+                  )}
+                </div>
+                {span.error && (
+                  <p className="text-sm text-red-600 dark:text-red-400">
+                    {span.error}
+                  </p>
+                )}
+                {span.input && renderSpanField("Input", span.input)}
+                {span.output && renderSpanField("Output", span.output)}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TraceWaterfall;
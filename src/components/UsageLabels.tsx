@@ -0,0 +1,53 @@
+import { formatCost, formatTokens } from "@/lib/modelPricing";
+import { TokenUsage } from "@/types/promptHandler";
+
+interface UsageLabelsProps {
+  usage?: TokenUsage;
+  cost?: number;
+  runCount?: number;
+}
+
+// Tokens and cost; with runCount set, shows batch totals plus per-run averages
+const UsageLabels = ({ usage, cost, runCount }: UsageLabelsProps) => {
+  const isBatch = runCount !== undefined && runCount > 1;
+  const average = (value: number) => value / (runCount ?? 1);
+
+  return (
+    <>
+      {usage && (
+        <span>
+          {isBatch ? "Total Tokens" : "Tokens"}:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatTokens(usage)}
+          </span>
+        </span>
+      )}
+      {usage && isBatch && (
+        <span>
+          Avg Tokens:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {Math.round(average(usage.totalTokens)).toLocaleString()}
+          </span>
+        </span>
+      )}
+      {cost !== undefined && (
+        <span>
+          {isBatch ? "Total Cost" : "Cost"}:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatCost(cost)}
+          </span>
+        </span>
+      )}
+      {cost !== undefined && isBatch && (
+        <span>
+          Avg Cost:{" "}
+          <span className="font-medium text-slate-900 dark:text-slate-100">
+            {formatCost(average(cost))}
+          </span>
+        </span>
+      )}
+    </>
+  );
+};
+
+export default UsageLabels;
@@ -0,0 +1,4 @@
+// Every stored chunk uses the same embedding model, so the column width and
+// the query embeddings always agree; changing it means re-embedding
+export const EMBEDDING_MODEL_ID = "text-embedding-3-small";
+export const EMBEDDING_DIMENSIONS = 1536;
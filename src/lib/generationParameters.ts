@@ -0,0 +1,59 @@
+import { z } from "zod";
+
+import { getModelDefinition } from "@/lib/models";
+import { GenerationParameters } from "@/types/promptHandler";
+
+// Validates parameters arriving from the client before they reach a provider
+export const generationParametersSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  maxTokens: z.number().int().positive().optional(),
+  seed: z.number().int().optional(),
+  stopSequences: z.array(z.string().min(1)).max(4).optional(),
+});
+
+/**
+ * Converts panel parameters into AI SDK call settings for a given model
+ * Sampling settings are dropped for models that reject them, and stop
+ * sequences are dropped for generateObject, which doesn't accept them
+ */
+export const toCallSettings = ({
+  model,
+  parameters = {},
+  output = "text",
+}: {
+  model?: string;
+  parameters?: GenerationParameters;
+  output?: "text" | "object";
+}): GenerationParameters => {
+  const { temperature, topP, maxTokens, seed, stopSequences } =
+    generationParametersSchema.parse(parameters);
+  const supportsSampling =
+    model === undefined ||
+    getModelDefinition(model)?.capabilities.temperature !== false;
+
+  return {
+    ...(supportsSampling && { temperature, topP }),
+    maxTokens,
+    seed,
+    ...(output === "text" && { stopSequences }),
+  };
+};
+
+/**
+ * Short human-readable summary, e.g. "temp 0.7 · max 256 · seed 42"
+ * Returns an empty string when nothing is set
+ */
+export const formatGenerationParameters = (parameters: GenerationParameters) =>
+  [
+    parameters.temperature !== undefined && `temp ${parameters.temperature}`,
+    parameters.topP !== undefined && `top-p ${parameters.topP}`,
+    parameters.maxTokens !== undefined && `max ${parameters.maxTokens}`,
+    parameters.seed !== undefined && `seed ${parameters.seed}`,
+    parameters.stopSequences?.length &&
+      `stop ${parameters.stopSequences
+        .map((s) => JSON.stringify(s))
+        .join(", ")}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
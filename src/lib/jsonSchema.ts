@@ -0,0 +1,41 @@
+import { z } from "zod";
+
+import { JsonSchema } from "@/types/promptHandler";
+
+// Validates user-written schemas before they're stored; recursive like JsonSchema
+export const jsonSchemaSchema: z.ZodType<JsonSchema> = z.lazy(() =>
+  z
+    .object({
+      type: z
+        .enum([
+          "object",
+          "array",
+          "string",
+          "number",
+          "integer",
+          "boolean",
+          "null",
+        ])
+        .optional(),
+      description: z.string().optional(),
+      properties: z.record(z.string(), jsonSchemaSchema).optional(),
+      required: z.array(z.string()).optional(),
+      additionalProperties: z.boolean().optional(),
+      items: jsonSchemaSchema.optional(),
+      enum: z
+        .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
+        .optional(),
+      minimum: z.number().optional(),
+      maximum: z.number().optional(),
+      minLength: z.number().int().min(0).optional(),
+      maxLength: z.number().int().min(0).optional(),
+    })
+    // Unsupported keywords are dropped so stored schemas only hold what we check
+    .strip()
+);
+
+// Providers take an output schema as a tool or response format, which must be an object
+export const outputSchemaSchema = jsonSchemaSchema.refine(
+  (schema) => schema.type === "object",
+  'Output schema must have "type": "object"'
+);
@@ -0,0 +1,86 @@
+import { ModelPricing, PromptResult, TokenUsage } from "@/types/promptHandler";
+
+// Published list prices in USD per million tokens, keyed by registry id
+// Update alongside MODELS; models missing here simply show no cost
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  "openai:gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "openai:gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "openai:gpt-4.1-mini": { inputPerMillion: 0.4, outputPerMillion: 1.6 },
+  "openai:o4-mini": { inputPerMillion: 1.1, outputPerMillion: 4.4 },
+  "openai:gpt-3.5-turbo": { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+  "anthropic:claude-3-5-haiku-latest": {
+    inputPerMillion: 0.8,
+    outputPerMillion: 4,
+  },
+  "anthropic:claude-4-sonnet-20250514": {
+    inputPerMillion: 3,
+    outputPerMillion: 15,
+  },
+};
+
+// Providers occasionally omit counts, which the AI SDK reports as NaN
+const toCount = (value: number) => (Number.isFinite(value) ? value : 0);
+
+/**
+ * Normalizes the AI SDK's usage object so it can be summed and serialized
+ */
+export const toTokenUsage = (usage: TokenUsage): TokenUsage => ({
+  promptTokens: toCount(usage.promptTokens),
+  completionTokens: toCount(usage.completionTokens),
+  totalTokens: toCount(usage.totalTokens),
+});
+
+export const sumTokenUsage = (usages: TokenUsage[]): TokenUsage =>
+  usages.reduce(
+    (sum, usage) => ({
+      promptTokens: sum.promptTokens + usage.promptTokens,
+      completionTokens: sum.completionTokens + usage.completionTokens,
+      totalTokens: sum.totalTokens + usage.totalTokens,
+    }),
+    { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+  );
+
+export const calculateCost = ({
+  model,
+  usage,
+}: {
+  model?: string;
+  usage?: TokenUsage;
+}): number | undefined => {
+  const pricing = model ? MODEL_PRICING[model] : undefined;
+  if (!pricing || !usage) {
+    return undefined;
+  }
+  return (
+    (usage.promptTokens * pricing.inputPerMillion +
+      usage.completionTokens * pricing.outputPerMillion) /
+    1_000_000
+  );
+};
+
+/**
+ * Batch totals for MultiplePromptResults, including judge calls
+ * Cost is only summed over priced calls
+ */
+export const summarizeUsage = (
+  results: PromptResult[]
+): { usage?: TokenUsage; cost?: number } => {
+  const calls = results.flatMap((result) => [
+    result,
+    ...(result.evaluations ?? []),
+  ]);
+  const usages = calls.flatMap((call) => call.usage ?? []);
+  const costs = calls.flatMap((call) => call.cost ?? []);
+  return {
+    usage: usages.length > 0 ? sumTokenUsage(usages) : undefined,
+    cost:
+      costs.length > 0 ? costs.reduce((sum, cost) => sum + cost, 0) : undefined,
+  };
+};
+
+// Sub-cent costs are common, so keep enough precision to tell runs apart
+export const formatCost = (cost: number) =>
+  cost >= 0.01 ? `$${cost.toFixed(2)}` : `$${cost.toFixed(5)}`;
+
+export const formatTokens = (usage: TokenUsage) =>
+  `${usage.totalTokens.toLocaleString()} (${usage.promptTokens.toLocaleString()} in / ${usage.completionTokens.toLocaleString()} out)`;
@@ -0,0 +1,64 @@
+import { ModelDefinition } from "@/types/promptHandler";
+
+// Client-safe model registry; provider instances are resolved server-side
+// in getLanguageModel so API keys never reach the browser
+export const MODELS: ModelDefinition[] = [
+  {
+    id: "openai:gpt-4o-mini",
+    provider: "openai",
+    modelId: "gpt-4o-mini",
+    displayName: "GPT-4o mini",
+    capabilities: { json: true, temperature: true },
+  },
+  {
+    id: "openai:gpt-4o",
+    provider: "openai",
+    modelId: "gpt-4o",
+    displayName: "GPT-4o",
+    capabilities: { json: true, temperature: true },
+  },
+  {
+    id: "openai:gpt-4.1-mini",
+    provider: "openai",
+    modelId: "gpt-4.1-mini",
+    displayName: "GPT-4.1 mini",
+    capabilities: { json: true, temperature: true },
+  },
+  {
+    id: "openai:o4-mini",
+    provider: "openai",
+    modelId: "o4-mini",
+    displayName: "o4-mini",
+    capabilities: { json: true, temperature: false },
+  },
+  {
+    id: "openai:gpt-3.5-turbo",
+    provider: "openai",
+    modelId: "gpt-3.5-turbo",
+    displayName: "GPT-3.5 Turbo",
+    capabilities: { json: false, temperature: true },
+  },
+  {
+    id: "anthropic:claude-3-5-haiku-latest",
+    provider: "anthropic",
+    modelId: "claude-3-5-haiku-latest",
+    displayName: "Claude 3.5 Haiku",
+    capabilities: { json: true, temperature: true },
+  },
+  {
+    id: "anthropic:claude-4-sonnet-20250514",
+    provider: "anthropic",
+    modelId: "claude-4-sonnet-20250514",
+    displayName: "Claude Sonnet 4",
+    capabilities: { json: true, temperature: true },
+  },
+];
+
+export const DEFAULT_MODEL_ID = "openai:gpt-4o-mini";
+
+export const getModelDefinition = (id: string): ModelDefinition | undefined =>
+  MODELS.find((model) => model.id === id);
+
+// Falls back to the raw id so results from retired models still render
+export const getModelDisplayName = (id: string) =>
+  getModelDefinition(id)?.displayName ?? id;
@@ -0,0 +1,17 @@
+import { ModelDefinition, ProviderRateLimit } from "@/types/promptHandler";
+
+// Kept below typical account tiers; raise these to match your provider limits
+export const PROVIDER_RATE_LIMITS: Record<
+  ModelDefinition["provider"],
+  ProviderRateLimit
+> = {
+  openai: { requestsPerMinute: 500, tokensPerMinute: 200_000 },
+  anthropic: { requestsPerMinute: 50, tokensPerMinute: 40_000 },
+};
+
+// Applies to 429 and 5xx responses; other errors fail immediately
+export const RETRY_POLICY = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
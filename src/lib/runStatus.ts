@@ -0,0 +1,37 @@
+import { RunStatus } from "@/types/promptHandler";
+
+// Badge colours per run status; dots are the compact form used in tab strips and grids
+export const RUN_STATUS_STYLES: Record<
+  RunStatus,
+  { label: string; className: string; dotClassName: string }
+> = {
+  success: {
+    label: "Success",
+    className:
+      "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300",
+    dotClassName: "bg-green-500",
+  },
+  error: {
+    label: "Error",
+    className: "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300",
+    dotClassName: "bg-red-500",
+  },
+  timeout: {
+    label: "Timeout",
+    className:
+      "bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300",
+    dotClassName: "bg-orange-500",
+  },
+  cancelled: {
+    label: "Cancelled",
+    className:
+      "bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300",
+    dotClassName: "bg-amber-500",
+  },
+  invalid: {
+    label: "Invalid",
+    className:
+      "bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300",
+    dotClassName: "bg-purple-500",
+  },
+};
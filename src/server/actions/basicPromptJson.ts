@@ -1,26 +1,59 @@
 "use server";
 
 import { generateObject } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { z } from "zod";
 
-const template = `You are a helpful assistant that can answer questions and help with tasks. Answer the user's question or task in a concise and helpful manner.\n\n`;
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import {
+  basicJsonParameters,
+  basicJsonSchema,
+  basicJsonTemplate,
+} from "@/server/server-only/advancedPrompts";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { GenerationParameters } from "@/types/promptHandler";
 
-export async function basicPromptJson(userInput: string) {
-  const fullPrompt = template + userInput;
+export async function basicPromptJson({
+  input,
+  model,
+  parameters,
+  requestId,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}) {
+  const fullPrompt = basicJsonTemplate + input;
 
-  const response = await generateObject({
-    model: openai("gpt-4o-mini"),
-    prompt: fullPrompt,
-    temperature: 1,
-    schema: z.object({
-      answer: z.string().describe("The answer to the user's question"),
-      reasoning: z.string().describe("The reasoning behind the answer"),
-    }),
+  const { result: response, attempts } = await withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withProviderLimits({
+        model,
+        abortSignal,
+        run: () =>
+          generateObject({
+            model: getLanguageModel({ id: model, requires: "json" }),
+            prompt: fullPrompt,
+            ...toCallSettings({
+              model,
+              parameters: basicJsonParameters(parameters),
+              output: "object",
+            }),
+            schema: basicJsonSchema,
+            abortSignal,
+            maxRetries: 0,
+          }),
+        getUsage: (result) => toTokenUsage(result.usage),
+      }),
   });
 
   return {
     response: response.object,
     prompt: fullPrompt,
+    usage: toTokenUsage(response.usage),
+    attempts,
   };
 }
@@ -0,0 +1,8 @@
+"use server";
+
+import { abortGeneration } from "@/server/server-only/abortRegistry";
+
+// Request ids are random per call, so knowing one is enough to cancel it
+export async function cancelGeneration(requestId: string) {
+  abortGeneration(requestId);
+}
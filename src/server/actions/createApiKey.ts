@@ -0,0 +1,34 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { insertApiKey } from "@/server/db/apiKeys";
+import { getUserId } from "@/server/server-only/getUserId";
+import { ApiKeyInput, CreatedApiKey } from "@/types/promptHandler";
+import {
+  API_KEY_DISPLAY_LENGTH,
+  generateApiKey,
+  hashApiKey,
+} from "@/utils/apiKeys";
+
+/**
+ * Creates a key for the signed-in user and returns it in full, only this once
+ */
+export async function createApiKey({
+  apiKey,
+}: {
+  apiKey: ApiKeyInput;
+}): Promise<CreatedApiKey> {
+  const userId = await getUserId();
+
+  const key = generateApiKey();
+  const created = await insertApiKey({
+    apiKey,
+    keyHash: await hashApiKey(key),
+    keyPrefix: key.slice(0, API_KEY_DISPLAY_LENGTH),
+    userId,
+  });
+
+  revalidatePath("/api-keys");
+  return { ...created, key };
+}
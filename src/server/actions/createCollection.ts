@@ -0,0 +1,19 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { insertCollection } from "@/server/db/collections";
+import { getUserId } from "@/server/server-only/getUserId";
+import { Collection, CollectionInput } from "@/types/promptHandler";
+
+export async function createCollection({
+  collection,
+}: {
+  collection: CollectionInput;
+}): Promise<Collection> {
+  const userId = await getUserId();
+  const created = await insertCollection({ collection, userId });
+
+  revalidatePath("/collections");
+  return created;
+}
@@ -0,0 +1,19 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { insertDataset } from "@/server/db/datasets";
+import { getUserId } from "@/server/server-only/getUserId";
+import { Dataset, DatasetInput } from "@/types/promptHandler";
+
+export async function createDataset({
+  dataset,
+}: {
+  dataset: DatasetInput;
+}): Promise<Dataset> {
+  const userId = await getUserId();
+  const created = await insertDataset({ dataset, userId });
+
+  revalidatePath("/datasets");
+  return created;
+}
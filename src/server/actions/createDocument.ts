@@ -0,0 +1,60 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCollection } from "@/server/db/collections";
+import {
+  chunkingSchema,
+  deleteDocumentById,
+  documentInputSchema,
+  insertDocument,
+} from "@/server/db/documents";
+import { getUserId } from "@/server/server-only/getUserId";
+import { ingestDocument } from "@/server/server-only/retrieval";
+import { ChunkingConfig, KnowledgeDocumentInput } from "@/types/promptHandler";
+import { DEFAULT_CHUNK_OVERLAP, DEFAULT_CHUNK_SIZE } from "@/utils/chunkText";
+
+/**
+ * Stores a document in a collection along with its embedded chunks
+ * The document is removed again if embedding fails, so no document is left
+ * without chunks
+ */
+export async function createDocument({
+  collectionId,
+  document,
+  chunking = {
+    chunkSize: DEFAULT_CHUNK_SIZE,
+    chunkOverlap: DEFAULT_CHUNK_OVERLAP,
+  },
+}: {
+  collectionId: number;
+  document: KnowledgeDocumentInput;
+  chunking?: ChunkingConfig;
+}): Promise<{ chunkCount: number }> {
+  const userId = await getUserId();
+  const values = documentInputSchema.parse(document);
+  const settings = chunkingSchema.parse(chunking);
+  if (!(await getCollection({ id: collectionId, userId }))) {
+    throw new Error("Collection not found");
+  }
+
+  const created = await insertDocument({
+    collectionId,
+    document: values,
+    chunking: settings,
+    userId,
+  });
+  try {
+    const chunkCount = await ingestDocument({
+      userId,
+      document: created,
+      content: values.content,
+      chunking: settings,
+    });
+    revalidatePath(`/collections/${collectionId}`);
+    return { chunkCount };
+  } catch (error) {
+    await deleteDocumentById({ id: created.id, userId });
+    throw error;
+  }
+}
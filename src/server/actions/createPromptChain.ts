@@ -0,0 +1,19 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { insertPromptChain } from "@/server/db/promptChains";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptChain, PromptChainInput } from "@/types/promptHandler";
+
+export async function createPromptChain({
+  chain,
+}: {
+  chain: PromptChainInput;
+}): Promise<PromptChain> {
+  const userId = await getUserId();
+  const created = await insertPromptChain({ chain, userId });
+
+  revalidatePath("/");
+  return created;
+}
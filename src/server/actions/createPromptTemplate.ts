@@ -0,0 +1,22 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  insertPromptTemplate,
+  toPublicPromptTemplate,
+} from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptTemplate, PromptTemplateInput } from "@/types/promptHandler";
+
+export async function createPromptTemplate({
+  template,
+}: {
+  template: PromptTemplateInput;
+}): Promise<PromptTemplate> {
+  const userId = await getUserId();
+  const created = await insertPromptTemplate({ template, userId });
+
+  revalidatePath("/");
+  return toPublicPromptTemplate(created);
+}
@@ -0,0 +1,13 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { deleteCollectionById } from "@/server/db/collections";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export async function deleteCollection({ id }: { id: number }): Promise<void> {
+  const userId = await getUserId();
+  await deleteCollectionById({ id, userId });
+
+  revalidatePath("/collections");
+}
@@ -0,0 +1,13 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { deleteDatasetById } from "@/server/db/datasets";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export async function deleteDataset({ id }: { id: number }): Promise<void> {
+  const userId = await getUserId();
+  await deleteDatasetById({ id, userId });
+
+  revalidatePath("/datasets");
+}
@@ -0,0 +1,20 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { deleteDocumentById } from "@/server/db/documents";
+import { getUserId } from "@/server/server-only/getUserId";
+
+// Chunks are removed by the foreign key cascade
+export async function deleteDocument({
+  id,
+  collectionId,
+}: {
+  id: number;
+  collectionId: number;
+}): Promise<void> {
+  const userId = await getUserId();
+  await deleteDocumentById({ id, userId });
+
+  revalidatePath(`/collections/${collectionId}`);
+}
@@ -0,0 +1,13 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { deletePromptChainById } from "@/server/db/promptChains";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export async function deletePromptChain(id: number): Promise<void> {
+  await getUserId();
+  await deletePromptChainById(id);
+
+  revalidatePath("/");
+}
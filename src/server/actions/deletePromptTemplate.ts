@@ -0,0 +1,13 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { deletePromptTemplateById } from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export async function deletePromptTemplate(id: number): Promise<void> {
+  await getUserId();
+  await deletePromptTemplateById(id);
+
+  revalidatePath("/");
+}
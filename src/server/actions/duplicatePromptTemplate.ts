@@ -0,0 +1,51 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { getCollection } from "@/server/db/collections";
+import {
+  getPromptTemplate,
+  insertPromptTemplate,
+  toPublicPromptTemplate,
+} from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptTemplate } from "@/types/promptHandler";
+
+/**
+ * Copies a template for the signed-in user
+ * Only a collection's owner can bind it, so other users get the copy without
+ * its retrieval and are told it was removed
+ */
+export async function duplicatePromptTemplate(
+  id: number
+): Promise<{ template: PromptTemplate; removedRetrieval: boolean }> {
+  const userId = await getUserId();
+  const source = await getPromptTemplate(id);
+  if (!source) {
+    throw new Error("Prompt template not found");
+  }
+  const removedRetrieval =
+    source.retrieval !== undefined &&
+    !(await getCollection({ id: source.retrieval.collectionId, userId }));
+
+  const copy = await insertPromptTemplate({
+    template: {
+      name: `${source.name} (copy)`.slice(0, 256),
+      text: source.text,
+      description: source.description,
+      systemMessage: source.systemMessage,
+      messages: source.messages,
+      variables: source.variables,
+      parameters: source.parameters,
+      execution: source.execution,
+      evaluators: source.evaluators,
+      outputSchema: source.outputSchema,
+      retrieval: removedRetrieval ? undefined : source.retrieval,
+      tools: source.tools,
+    },
+    userId,
+  });
+
+  revalidatePath("/");
+  return { template: toPublicPromptTemplate(copy), removedRetrieval };
+}
@@ -0,0 +1,24 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { updatePromptChainById } from "@/server/db/promptChains";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptChain, PromptChainInput } from "@/types/promptHandler";
+
+export async function editPromptChain({
+  id,
+  chain,
+}: {
+  id: number;
+  chain: PromptChainInput;
+}): Promise<PromptChain> {
+  await getUserId();
+  const updated = await updatePromptChainById({ id, chain });
+  if (!updated) {
+    throw new Error("Prompt chain not found");
+  }
+
+  revalidatePath("/");
+  return updated;
+}
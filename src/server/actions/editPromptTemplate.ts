@@ -0,0 +1,48 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  getPromptTemplate,
+  toPublicPromptTemplate,
+  updatePromptTemplateById,
+} from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptTemplate, PromptTemplateInput } from "@/types/promptHandler";
+
+export async function editPromptTemplate({
+  id,
+  template,
+}: {
+  id: number;
+  template: PromptTemplateInput;
+}): Promise<PromptTemplate> {
+  const userId = await getUserId();
+  const current = await getPromptTemplate(id);
+  if (!current) {
+    throw new Error("Prompt template not found");
+  }
+
+  // The form never receives lookup data, so a kept file comes back without it
+  const storedLookup = current.tools?.find(
+    (tool) => tool.type === "jsonLookup"
+  );
+  const updated = await updatePromptTemplateById({
+    id,
+    template: {
+      ...template,
+      tools: template.tools?.map((tool) =>
+        tool.type === "jsonLookup" && tool.data === undefined && storedLookup
+          ? storedLookup
+          : tool
+      ),
+    },
+    userId,
+  });
+  if (!updated) {
+    throw new Error("Prompt template not found");
+  }
+
+  revalidatePath("/");
+  return toPublicPromptTemplate(updated);
+}
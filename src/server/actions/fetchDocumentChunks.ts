@@ -0,0 +1,14 @@
+"use server";
+
+import { getDocumentChunks } from "@/server/db/documentChunks";
+import { getUserId } from "@/server/server-only/getUserId";
+import { DocumentChunk } from "@/types/promptHandler";
+
+export async function fetchDocumentChunks({
+  documentId,
+}: {
+  documentId: number;
+}): Promise<DocumentChunk[]> {
+  const userId = await getUserId();
+  return getDocumentChunks({ documentId, userId });
+}
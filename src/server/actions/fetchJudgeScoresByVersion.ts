@@ -0,0 +1,40 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+
+import { getPromptRuns } from "@/server/db/promptRuns";
+import { JudgeScoreSummary, PromptResult } from "@/types/promptHandler";
+import { getJudgeScores } from "@/utils/evaluators";
+
+/**
+ * Average judge scores per template version, from the signed-in user's
+ * most recent saved runs of the template
+ */
+export async function fetchJudgeScoresByVersion(
+  templateId: number
+): Promise<Record<number, JudgeScoreSummary[]>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return {};
+  }
+
+  const runs = await getPromptRuns({
+    userId,
+    filters: { handlerId: `db-${templateId}` },
+  });
+  const resultsByVersion = new Map<number, PromptResult[]>();
+  for (const { data } of runs) {
+    if (data.templateVersion === undefined) continue;
+    resultsByVersion.set(data.templateVersion, [
+      ...(resultsByVersion.get(data.templateVersion) ?? []),
+      ...data.results,
+    ]);
+  }
+
+  return Object.fromEntries(
+    Array.from(resultsByVersion, ([version, results]) => [
+      version,
+      getJudgeScores(results),
+    ])
+  );
+}
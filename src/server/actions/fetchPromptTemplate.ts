@@ -0,0 +1,15 @@
+"use server";
+
+import {
+  getPromptTemplate,
+  toPublicPromptTemplate,
+} from "@/server/db/promptTemplates";
+import { PromptTemplate } from "@/types/promptHandler";
+
+// The template as its handler needs it to run, without lookup file data
+export async function fetchPromptTemplate(
+  id: number
+): Promise<PromptTemplate | undefined> {
+  const template = await getPromptTemplate(id);
+  return template && toPublicPromptTemplate(template);
+}
@@ -0,0 +1,10 @@
+"use server";
+
+import { getPromptTemplateVersions } from "@/server/db/promptTemplateVersions";
+import { PromptTemplateVersion } from "@/types/promptHandler";
+
+export async function fetchPromptTemplateVersions(
+  templateId: number
+): Promise<PromptTemplateVersion[]> {
+  return getPromptTemplateVersions(templateId);
+}
@@ -1,12 +1,52 @@
 "use server";
 
 import { generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
 
-export async function generateAIResponse(prompt: string): Promise<string> {
-  const response = await generateText({
-    model: openai("gpt-4o-mini"),
-    prompt: prompt,
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import {
+  GenerationParameters,
+  PromptMessage,
+  TokenUsage,
+} from "@/types/promptHandler";
+
+// Sends either a flat prompt or, for message-based templates, the full conversation
+export async function generateAIResponse({
+  prompt,
+  messages,
+  model,
+  parameters,
+  requestId,
+}: {
+  prompt?: string;
+  messages?: PromptMessage[];
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string; // Lets cancelGeneration abort this call
+}): Promise<{ text: string; usage: TokenUsage; attempts: number }> {
+  const { result, attempts } = await withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withProviderLimits({
+        model,
+        abortSignal,
+        run: () =>
+          generateText({
+            model: getLanguageModel({ id: model }),
+            ...(messages ? { messages } : { prompt: prompt }),
+            ...toCallSettings({ model, parameters }),
+            abortSignal,
+            maxRetries: 0,
+          }),
+        getUsage: (result) => toTokenUsage(result.usage),
+      }),
   });
-  return response.text;
+  return {
+    text: result.text,
+    usage: toTokenUsage(result.usage),
+    attempts,
+  };
 }
@@ -0,0 +1,78 @@
+"use server";
+
+import { generateObject, NoObjectGeneratedError } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import {
+  getSchemaIssues,
+  toOutputSchema,
+} from "@/server/server-only/structuredOutput";
+import {
+  GenerationParameters,
+  JsonSchema,
+  PromptMessage,
+  TokenUsage,
+} from "@/types/promptHandler";
+
+// Thrown errors lose their details crossing the server action boundary, so
+// schema violations come back as a result the client turns into a run status
+type StructuredResponse =
+  | { object: object; usage: TokenUsage; attempts: number }
+  | { issues: string[]; text?: string; usage?: TokenUsage; attempts: number };
+
+/**
+ * Generates an object matching a template's own output schema
+ */
+export async function generateStructuredResponse({
+  prompt,
+  messages,
+  model,
+  parameters,
+  schema,
+  requestId,
+}: {
+  prompt?: string;
+  messages?: PromptMessage[];
+  model?: string;
+  parameters?: GenerationParameters;
+  schema: JsonSchema;
+  requestId?: string; // Lets cancelGeneration abort this call
+}): Promise<StructuredResponse> {
+  const { result, attempts } = await withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withProviderLimits({
+        model,
+        abortSignal,
+        run: () =>
+          generateObject({
+            model: getLanguageModel({ id: model, requires: "json" }),
+            ...(messages ? { messages } : { prompt: prompt ?? "" }),
+            ...toCallSettings({ model, parameters, output: "object" }),
+            schema: toOutputSchema(schema),
+            abortSignal,
+            maxRetries: 0,
+          }).then(
+            (response) => ({
+              object: response.object,
+              usage: toTokenUsage(response.usage),
+            }),
+            (error) => {
+              if (!NoObjectGeneratedError.isInstance(error)) throw error;
+              return {
+                issues: getSchemaIssues({ text: error.text, schema }),
+                text: error.text,
+                usage: error.usage && toTokenUsage(error.usage),
+              };
+            }
+          ),
+        getUsage: (result) => result.usage,
+      }),
+  });
+
+  return { ...result, attempts };
+}
@@ -0,0 +1,106 @@
+"use server";
+
+import { generateText } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { getPromptTemplate } from "@/server/db/promptTemplates";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { buildToolSet } from "@/server/server-only/tools";
+import { withSpan, withTrace } from "@/server/server-only/tracing";
+import {
+  AdvancedResponse,
+  GenerationParameters,
+  PromptMessage,
+} from "@/types/promptHandler";
+import { formatToolCall } from "@/utils/tools";
+
+// Enough for a few rounds of tool calls before the final answer
+const MAX_TOOL_STEPS = 5;
+
+/**
+ * Generates text while letting the model call the template's tools
+ * The tools are read from the stored template, never taken from the caller
+ * Each tool call is logged with its arguments and result, and traced as a
+ * child of the generation span
+ * Once a tool has run the call isn't retried, so tools never run twice
+ */
+export async function generateToolResponse({
+  prompt,
+  messages,
+  model,
+  parameters,
+  templateId,
+  requestId,
+}: {
+  prompt?: string;
+  messages?: PromptMessage[];
+  model?: string;
+  parameters?: GenerationParameters;
+  templateId: number;
+  requestId?: string;
+}): Promise<AdvancedResponse> {
+  const tools = (await getPromptTemplate(templateId))?.tools;
+  if (!tools?.length) {
+    throw new Error("This template has no tools");
+  }
+  const input = prompt ?? messages?.at(-1)?.content ?? "";
+
+  return withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withTrace({
+        name: "Tool calls",
+        input,
+        abortSignal,
+        run: async (trace) => {
+          const logs: NonNullable<AdvancedResponse["logs"]> = [];
+          const { result, attempts } = await withSpan({
+            parent: trace,
+            name: "generate",
+            model,
+            input,
+            run: (span) =>
+              withProviderLimits({
+                model,
+                abortSignal,
+                run: () =>
+                  generateText({
+                    model: getLanguageModel({ id: model }),
+                    ...(messages ? { messages } : { prompt }),
+                    ...toCallSettings({ model, parameters }),
+                    tools: buildToolSet({
+                      configs: tools,
+                      parent: span,
+                      onCall: ({ name, args, result }) =>
+                        logs.push({
+                          label: `Tool: ${name}`,
+                          text: formatToolCall({ args, result }),
+                        }),
+                    }),
+                    maxSteps: MAX_TOOL_STEPS,
+                    abortSignal,
+                    maxRetries: 0,
+                  }),
+                getUsage: (result) => toTokenUsage(result.usage),
+                canRetry: () => logs.length === 0,
+              }),
+            describe: ({ result }) => ({
+              output: result.text,
+              usage: toTokenUsage(result.usage),
+            }),
+          });
+
+          return {
+            response: result.text,
+            logs,
+            // Summed over every step, including the ones that called tools
+            usage: toTokenUsage(result.usage),
+            attempts,
+          };
+        },
+      }),
+  });
+}
@@ -0,0 +1,89 @@
+"use server";
+
+import { generateObject } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { calculateCost, toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import {
+  buildJudgePrompt,
+  clampScore,
+  judgeSchema,
+  judgeSystemMessage,
+} from "@/server/server-only/judgePrompts";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { JudgeScale, TokenUsage } from "@/types/promptHandler";
+
+// Judges grade at temperature 0 so re-scoring the same response is stable
+const JUDGE_PARAMETERS = { temperature: 0 };
+
+/**
+ * Scores one response against a rubric with the judge model
+ * Usage and cost are returned so judging counts toward the batch totals
+ */
+export async function judgeResponse({
+  rubric,
+  model,
+  scale,
+  values,
+  input,
+  prompt,
+  response,
+  requestId,
+}: {
+  rubric: string;
+  model: string;
+  scale: JudgeScale;
+  values: Record<string, string>;
+  input: string;
+  prompt: string;
+  response: string;
+  requestId?: string;
+}): Promise<{
+  score: number;
+  rationale: string;
+  attempts: number;
+  usage: TokenUsage;
+  cost?: number;
+}> {
+  const { result, attempts } = await withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withProviderLimits({
+        model,
+        abortSignal,
+        run: () =>
+          generateObject({
+            model: getLanguageModel({ id: model, requires: "json" }),
+            system: judgeSystemMessage(scale),
+            prompt: buildJudgePrompt({
+              rubric,
+              values,
+              input,
+              prompt,
+              response,
+            }),
+            ...toCallSettings({
+              model,
+              parameters: JUDGE_PARAMETERS,
+              output: "object",
+            }),
+            schema: judgeSchema(scale),
+            abortSignal,
+            maxRetries: 0,
+          }),
+        getUsage: (result) => toTokenUsage(result.usage),
+      }),
+  });
+
+  const usage = toTokenUsage(result.usage);
+
+  return {
+    score: clampScore({ score: result.object.score, scale }),
+    rationale: result.object.rationale,
+    attempts,
+    usage,
+    cost: calculateCost({ model, usage }),
+  };
+}
@@ -0,0 +1,91 @@
+"use server";
+
+import { generateText } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { getRunUserId } from "@/server/server-only/apiKeys";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { buildRagPrompt, retrieveChunks } from "@/server/server-only/retrieval";
+import { withSpan, withTrace } from "@/server/server-only/tracing";
+import { AdvancedResponse, GenerationParameters } from "@/types/promptHandler";
+import { formatChunkLabel, toRetrievalLogs } from "@/utils/retrievedChunks";
+
+/**
+ * Answers from every collection of the signed-in user, or of the API key's
+ * owner when run through the HTTP API
+ * Templates with a retrieval config search a single collection instead
+ */
+export async function ragAnswer({
+  input,
+  model,
+  parameters,
+  requestId,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}): Promise<AdvancedResponse> {
+  const userId = await getRunUserId();
+  if (!userId) {
+    throw new Error("User not authenticated");
+  }
+
+  return withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withTrace({
+        name: "RAG Answer",
+        input,
+        abortSignal,
+        run: async (trace) => {
+          const chunks = await withSpan({
+            parent: trace,
+            name: "retrieve",
+            input,
+            run: () => retrieveChunks({ userId, query: input, abortSignal }),
+            describe: (chunks) => ({
+              output: chunks.map(formatChunkLabel).join("\n"),
+            }),
+          });
+
+          const prompt = buildRagPrompt({ input, chunks });
+          const { result: response, attempts } = await withSpan({
+            parent: trace,
+            name: "answer",
+            model,
+            input: prompt,
+            run: () =>
+              withProviderLimits({
+                model,
+                abortSignal,
+                run: () =>
+                  generateText({
+                    model: getLanguageModel({ id: model }),
+                    prompt,
+                    ...toCallSettings({ model, parameters }),
+                    abortSignal,
+                    maxRetries: 0,
+                  }),
+                getUsage: (result) => toTokenUsage(result.usage),
+              }),
+            describe: ({ result }) => ({
+              output: result.text,
+              usage: toTokenUsage(result.usage),
+            }),
+          });
+
+          return {
+            response: response.text,
+            prompt,
+            logs: toRetrievalLogs(chunks),
+            usage: toTokenUsage(response.usage),
+            attempts,
+          };
+        },
+      }),
+  });
+}
@@ -0,0 +1,40 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  chunkingSchema,
+  getDocumentSource,
+  updateDocumentChunking,
+} from "@/server/db/documents";
+import { getUserId } from "@/server/server-only/getUserId";
+import { ingestDocument } from "@/server/server-only/retrieval";
+import { ChunkingConfig } from "@/types/promptHandler";
+
+// Splits and embeds the stored text again with new chunking settings
+export async function rechunkDocument({
+  id,
+  chunking,
+}: {
+  id: number;
+  chunking: ChunkingConfig;
+}): Promise<{ chunkCount: number }> {
+  const userId = await getUserId();
+  const settings = chunkingSchema.parse(chunking);
+  const document = await getDocumentSource({ id, userId });
+  if (!document) {
+    throw new Error("Document not found");
+  }
+
+  const chunkCount = await ingestDocument({
+    userId,
+    document,
+    content: document.content,
+    chunking: settings,
+    replace: true,
+  });
+  await updateDocumentChunking({ id, chunking: settings, userId });
+
+  revalidatePath(`/collections/${document.collectionId}`);
+  return { chunkCount };
+}
@@ -0,0 +1,54 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  getPromptTemplate,
+  toPublicPromptTemplate,
+  updatePromptTemplateById,
+} from "@/server/db/promptTemplates";
+import { getPromptTemplateVersion } from "@/server/db/promptTemplateVersions";
+import { getUserId } from "@/server/server-only/getUserId";
+import { PromptTemplate } from "@/types/promptHandler";
+
+// Restoring never rewrites history: the old text becomes a new version
+export async function restorePromptTemplateVersion({
+  templateId,
+  version,
+}: {
+  templateId: number;
+  version: number;
+}): Promise<PromptTemplate> {
+  const userId = await getUserId();
+  const [template, snapshot] = await Promise.all([
+    getPromptTemplate(templateId),
+    getPromptTemplateVersion({ templateId, version }),
+  ]);
+  if (!template || !snapshot) {
+    throw new Error("Prompt template version not found");
+  }
+
+  const restored = await updatePromptTemplateById({
+    id: templateId,
+    template: {
+      name: template.name,
+      description: template.description,
+      variables: template.variables,
+      execution: template.execution,
+      evaluators: template.evaluators,
+      outputSchema: template.outputSchema,
+      retrieval: template.retrieval,
+      tools: template.tools,
+      text: snapshot.text,
+      systemMessage: snapshot.systemMessage,
+      messages: snapshot.messages,
+    },
+    userId,
+  });
+  if (!restored) {
+    throw new Error("Prompt template not found");
+  }
+
+  revalidatePath("/");
+  return toPublicPromptTemplate(restored);
+}
@@ -0,0 +1,39 @@
+"use server";
+
+import { getCollectionOwner } from "@/server/db/collections";
+import { getPromptTemplate } from "@/server/db/promptTemplates";
+import { getRunUserId } from "@/server/server-only/apiKeys";
+import { retrieveChunks } from "@/server/server-only/retrieval";
+import { RetrievedChunk } from "@/types/promptHandler";
+
+/**
+ * Chunks for a template's {{CONTEXT}}, from the collection bound to it
+ * Templates are shared with every signed-in user and API key owner, so any
+ * of them may run one, and the search then runs as the collection's owner
+ * Signed-out callers are refused; the binding is read from the stored
+ * template, never from the caller
+ */
+export async function retrieveTemplateContext({
+  templateId,
+  query,
+}: {
+  templateId: number;
+  query: string;
+}): Promise<RetrievedChunk[]> {
+  if (!(await getRunUserId())) {
+    throw new Error("Sign in to run templates that retrieve from a collection");
+  }
+
+  const template = await getPromptTemplate(templateId);
+  if (!template?.retrieval) {
+    throw new Error("This template doesn't use retrieval");
+  }
+
+  const { collectionId, topK, minSimilarity } = template.retrieval;
+  const userId = await getCollectionOwner(collectionId);
+  if (!userId) {
+    throw new Error("The template's collection no longer exists");
+  }
+
+  return retrieveChunks({ userId, query, collectionId, topK, minSimilarity });
+}
@@ -0,0 +1,13 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import { revokeApiKeyById } from "@/server/db/apiKeys";
+import { getUserId } from "@/server/server-only/getUserId";
+
+export async function revokeApiKey({ id }: { id: number }): Promise<void> {
+  const userId = await getUserId();
+  await revokeApiKeyById({ id, userId });
+
+  revalidatePath("/api-keys");
+}
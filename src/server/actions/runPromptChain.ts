@@ -0,0 +1,50 @@
+"use server";
+
+import { getPromptChain } from "@/server/db/promptChains";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { runChainSteps } from "@/server/server-only/runChainSteps";
+import { withTrace } from "@/server/server-only/tracing";
+import { AdvancedResponse, GenerationParameters } from "@/types/promptHandler";
+
+/**
+ * Runs one pass of a stored chain
+ * The chain is read on every call so edits apply immediately
+ * A failing step resolves with its error and the trace up to that step
+ */
+export async function runPromptChain({
+  chainId,
+  input,
+  model,
+  parameters,
+  requestId,
+}: {
+  chainId: number;
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}): Promise<AdvancedResponse> {
+  const chain = await getPromptChain(chainId);
+  if (!chain) {
+    throw new Error("Prompt chain not found");
+  }
+
+  return withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withTrace({
+        name: chain.name,
+        input,
+        abortSignal,
+        run: (trace) =>
+          runChainSteps({
+            steps: chain.steps,
+            input,
+            model,
+            parameters,
+            abortSignal,
+            trace,
+          }),
+      }),
+  });
+}
@@ -0,0 +1,28 @@
+"use server";
+
+import { insertPromptRun } from "@/server/db/promptRuns";
+import { getRunUserId } from "@/server/server-only/apiKeys";
+import { MultiplePromptResults } from "@/types/promptHandler";
+
+/**
+ * Stores an executed batch in the signed-in user's run history
+ * Runs made with an API key are stored for the key's owner
+ * Signed-out runs are not persisted, so this resolves to null for them
+ */
+export async function savePromptRun({
+  handlerId,
+  handlerName,
+  data,
+}: {
+  handlerId: string;
+  handlerName: string;
+  data: MultiplePromptResults;
+}): Promise<number | null> {
+  const userId = await getRunUserId();
+  if (!userId) {
+    return null;
+  }
+
+  const run = await insertPromptRun({ userId, handlerId, handlerName, data });
+  return run.id;
+}
@@ -0,0 +1,28 @@
+"use server";
+
+import { revalidatePath } from "next/cache";
+
+import {
+  toPublicPromptTemplate,
+  updatePromptTemplateParameters,
+} from "@/server/db/promptTemplates";
+import { getUserId } from "@/server/server-only/getUserId";
+import { GenerationParameters, PromptTemplate } from "@/types/promptHandler";
+
+// Parameter defaults don't change the prompt wording, so no new version
+export async function savePromptTemplateParameters({
+  id,
+  parameters,
+}: {
+  id: number;
+  parameters: GenerationParameters;
+}): Promise<PromptTemplate> {
+  await getUserId();
+  const updated = await updatePromptTemplateParameters({ id, parameters });
+  if (!updated) {
+    throw new Error("Prompt template not found");
+  }
+
+  revalidatePath("/");
+  return toPublicPromptTemplate(updated);
+}
@@ -0,0 +1,24 @@
+"use server";
+
+import { getCollection } from "@/server/db/collections";
+import { getUserId } from "@/server/server-only/getUserId";
+import { retrieveChunks } from "@/server/server-only/retrieval";
+import { RetrievalConfig, RetrievedChunk } from "@/types/promptHandler";
+
+/**
+ * Retrieval only: the collection's best chunks for a query, without calling
+ * a model to answer it
+ */
+export async function searchCollection({
+  query,
+  collectionId,
+  topK,
+  minSimilarity,
+}: RetrievalConfig & { query: string }): Promise<RetrievedChunk[]> {
+  const userId = await getUserId();
+  if (!(await getCollection({ id: collectionId, userId }))) {
+    throw new Error("Collection not found");
+  }
+
+  return retrieveChunks({ userId, query, collectionId, topK, minSimilarity });
+}
@@ -0,0 +1,64 @@
+"use server";
+
+import { streamText } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { createResponseStream } from "@/server/server-only/createResponseStream";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { GenerationParameters, PromptMessage } from "@/types/promptHandler";
+
+// Streaming counterpart of generateAIResponse
+export async function streamAIResponse({
+  prompt,
+  messages,
+  model,
+  parameters,
+  requestId,
+}: {
+  prompt?: string;
+  messages?: PromptMessage[];
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string; // Lets cancelGeneration abort this call
+}) {
+  return createResponseStream(({ send }) =>
+    withAbortSignal({
+      requestId,
+      run: async (abortSignal) => {
+        let text = "";
+        const { result, attempts } = await withProviderLimits({
+          model,
+          abortSignal,
+          run: async () => {
+            const result = streamText({
+              model: getLanguageModel({ id: model }),
+              ...(messages ? { messages } : { prompt: prompt }),
+              ...toCallSettings({ model, parameters }),
+              abortSignal,
+              maxRetries: 0,
+            });
+
+            for await (const part of result.fullStream) {
+              if (part.type === "error") {
+                throw part.error;
+              }
+              if (part.type === "text-delta") {
+                text += part.textDelta;
+                send({ type: "text-delta", text: part.textDelta });
+              }
+            }
+
+            return { response: text, usage: toTokenUsage(await result.usage) };
+          },
+          getUsage: (response) => response.usage,
+          // A retry would repeat text the client has already shown
+          canRetry: () => text === "",
+        });
+        return { ...result, attempts };
+      },
+    })
+  );
+}
@@ -0,0 +1,76 @@
+"use server";
+
+import { streamObject } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import {
+  basicJsonParameters,
+  basicJsonSchema,
+  basicJsonTemplate,
+} from "@/server/server-only/advancedPrompts";
+import { createResponseStream } from "@/server/server-only/createResponseStream";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { GenerationParameters } from "@/types/promptHandler";
+
+// Streaming counterpart of basicPromptJson; partial objects arrive as they parse
+export async function streamBasicPromptJson({
+  input,
+  model,
+  parameters,
+  requestId,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}) {
+  return createResponseStream(({ send }) =>
+    withAbortSignal({
+      requestId,
+      run: async (abortSignal) => {
+        const fullPrompt = basicJsonTemplate + input;
+        let hasSent = false;
+        const { result, attempts } = await withProviderLimits({
+          model,
+          abortSignal,
+          run: async () => {
+            const result = streamObject({
+              model: getLanguageModel({ id: model, requires: "json" }),
+              prompt: fullPrompt,
+              ...toCallSettings({
+                model,
+                parameters: basicJsonParameters(parameters),
+                output: "object",
+              }),
+              schema: basicJsonSchema,
+              abortSignal,
+              maxRetries: 0,
+            });
+
+            for await (const part of result.fullStream) {
+              if (part.type === "error") {
+                throw part.error;
+              }
+              if (part.type === "object") {
+                hasSent = true;
+                send({ type: "partial-object", object: part.object });
+              }
+            }
+
+            return {
+              response: await result.object,
+              prompt: fullPrompt,
+              usage: toTokenUsage(await result.usage),
+            };
+          },
+          getUsage: (response) => response.usage,
+          canRetry: () => !hasSent,
+        });
+        return { ...result, attempts };
+      },
+    })
+  );
+}
@@ -0,0 +1,105 @@
+"use server";
+
+import { streamText } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { sumTokenUsage, toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { generateTwoStageAnswerPrompt } from "@/server/server-only/advancedPrompts";
+import { createResponseStream } from "@/server/server-only/createResponseStream";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { withSpan, withTrace } from "@/server/server-only/tracing";
+import { GenerationParameters } from "@/types/promptHandler";
+
+// Streaming counterpart of twoStagePromptJson; only the final answer is streamed
+export async function streamTwoStagePromptJson({
+  input,
+  model,
+  parameters,
+  requestId,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}) {
+  return createResponseStream(({ send }) =>
+    withAbortSignal({
+      requestId,
+      run: (abortSignal) =>
+        withTrace({
+          name: "Two Stage JSON Response",
+          input,
+          abortSignal,
+          run: async (trace) => {
+            const {
+              fullPrompt,
+              usage: stepsUsage,
+              attempts: stepsAttempts,
+            } = await withSpan({
+              parent: trace,
+              name: "steps",
+              model,
+              input,
+              run: () =>
+                generateTwoStageAnswerPrompt({
+                  input,
+                  model,
+                  parameters,
+                  abortSignal,
+                }),
+              describe: ({ steps, usage }) => ({ output: { steps }, usage }),
+            });
+
+            let text = "";
+            const { result: answer, attempts } = await withSpan({
+              parent: trace,
+              name: "answer",
+              model,
+              input: fullPrompt,
+              run: () =>
+                withProviderLimits({
+                  model,
+                  abortSignal,
+                  run: async () => {
+                    const result = streamText({
+                      model: getLanguageModel({ id: model }),
+                      prompt: fullPrompt,
+                      ...toCallSettings({ model, parameters }),
+                      abortSignal,
+                      maxRetries: 0,
+                    });
+
+                    for await (const part of result.fullStream) {
+                      if (part.type === "error") {
+                        throw part.error;
+                      }
+                      if (part.type === "text-delta") {
+                        text += part.textDelta;
+                        send({ type: "text-delta", text: part.textDelta });
+                      }
+                    }
+
+                    return { text, usage: toTokenUsage(await result.usage) };
+                  },
+                  getUsage: (response) => response.usage,
+                  canRetry: () => text === "",
+                }),
+              describe: ({ result }) => ({
+                output: result.text,
+                usage: result.usage,
+              }),
+            });
+
+            return {
+              response: answer.text,
+              logs: [{ label: "fullPrompt", text: fullPrompt }],
+              usage: sumTokenUsage([stepsUsage, answer.usage]),
+              attempts: Math.max(stepsAttempts, attempts),
+            };
+          },
+        }),
+    })
+  );
+}
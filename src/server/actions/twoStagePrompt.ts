@@ -1,62 +1,88 @@
 "use server";
 
-import { generateObject, generateText } from "ai";
-import { openai } from "@ai-sdk/openai";
-import { z } from "zod";
+import { generateText } from "ai";
 
-import { AdvancedResponse } from "@/types/promptHandler";
+import { toCallSettings } from "@/lib/generationParameters";
+import { sumTokenUsage, toTokenUsage } from "@/lib/modelPricing";
+import { withAbortSignal } from "@/server/server-only/abortRegistry";
+import { generateTwoStageAnswerPrompt } from "@/server/server-only/advancedPrompts";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { withSpan, withTrace } from "@/server/server-only/tracing";
+import { AdvancedResponse, GenerationParameters } from "@/types/promptHandler";
 
-const template1 = `You are a helpful assistant that can answer questions and help with tasks. Breakdown the user's question or task into a series of steps.\n\n`;
-const template2 = `You are a helpful assistant that can answer questions and help with tasks. Answer the user's question or task in a concise and helpful manner, using the steps provided.\n\n`;
+export async function twoStagePromptJson({
+  input: userInput,
+  model,
+  parameters,
+  requestId,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  requestId?: string;
+}): Promise<AdvancedResponse> {
+  return withAbortSignal({
+    requestId,
+    run: (abortSignal) =>
+      withTrace({
+        name: "Two Stage JSON Response",
+        input: userInput,
+        abortSignal,
+        run: async (trace) => {
+          const {
+            fullPrompt,
+            usage: stepsUsage,
+            attempts: stepsAttempts,
+          } = await withSpan({
+            parent: trace,
+            name: "steps",
+            model,
+            input: userInput,
+            run: () =>
+              generateTwoStageAnswerPrompt({
+                input: userInput,
+                model,
+                parameters,
+                abortSignal,
+              }),
+            describe: ({ steps, usage }) => ({ output: { steps }, usage }),
+          });
 
-export async function twoStagePromptJson(
-  userInput: string
-): Promise<AdvancedResponse> {
-  const initialPrompt = template1 + userInput;
+          const { result: response, attempts } = await withSpan({
+            parent: trace,
+            name: "answer",
+            model,
+            input: fullPrompt,
+            run: () =>
+              withProviderLimits({
+                model,
+                abortSignal,
+                run: () =>
+                  generateText({
+                    model: getLanguageModel({ id: model }),
+                    prompt: fullPrompt,
+                    ...toCallSettings({ model, parameters }),
+                    abortSignal,
+                    maxRetries: 0,
+                  }),
+                getUsage: (result) => toTokenUsage(result.usage),
+              }),
+            describe: ({ result }) => ({
+              output: result.text,
+              usage: toTokenUsage(result.usage),
+            }),
+          });
 
-  const { object } = await generateObject({
-    model: openai("gpt-4o-mini"),
-    prompt: initialPrompt,
-    schema: z.object({
-      steps: z
-        .array(z.string())
-        .describe(
-          "An array of strings, each breaking down the user's question into a step"
-        ),
-    }),
+          return {
+            response: response.text,
+            logs: [{ label: "fullPrompt", text: fullPrompt }],
+            // Both calls count towards the run's usage
+            usage: sumTokenUsage([stepsUsage, toTokenUsage(response.usage)]),
+            // Reports the most-retried of the two calls
+            attempts: Math.max(stepsAttempts, attempts),
+          };
+        },
+      }),
   });
-
-  console.log(object.steps);
-
-  const fullPrompt =
-    template2 +
-    `Original question: "${userInput}"\n\n` +
-    `Steps to follow:\n${object.steps
-      .map((step, i) => `${i + 1}. ${step}`)
-      .join("\n")}\n\n`;
-
-  console.log(fullPrompt);
-
-  const response = await generateText({
-    model: openai("gpt-4o-mini"),
-    prompt: fullPrompt,
-  });
-
-  //TODO: keep an array of 'logs', which gets returned to the user. this will be optional and displayed in the UI. only if it is returned.
-
-  const logs = [
-    {
-      label: "fullPrompt",
-      text: fullPrompt,
-    },
-    {
-      label: "foo label",
-      text: "foo text",
-    },
-  ];
-
-  return {
-    response: response.text,
-    logs: logs,
-  };
 }
@@ -0,0 +1,97 @@
+import { and, desc, eq, isNull } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import { apiKeys } from "@/server/db/schema";
+import { ApiKey, ApiKeyInput, ApiKeyScope } from "@/types/promptHandler";
+
+export const apiKeyInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256),
+  scopes: z
+    .array(z.enum(["templates:read", "handlers:execute", "datasets:manage"]))
+    .min(1, "Pick at least one scope")
+    .transform((scopes) => [...new Set(scopes)]),
+});
+
+const toApiKey = (row: typeof apiKeys.$inferSelect): ApiKey => ({
+  id: row.id,
+  name: row.name,
+  keyPrefix: row.keyPrefix,
+  scopes: row.scopes,
+  createdAt: row.createdAt,
+  lastUsedAt: row.lastUsedAt ?? undefined,
+  revokedAt: row.revokedAt ?? undefined,
+});
+
+export const getApiKeys = async (userId: string): Promise<ApiKey[]> => {
+  const rows = await db
+    .select()
+    .from(apiKeys)
+    .where(eq(apiKeys.userId, userId))
+    .orderBy(desc(apiKeys.createdAt));
+  return rows.map(toApiKey);
+};
+
+export const insertApiKey = async ({
+  apiKey,
+  keyHash,
+  keyPrefix,
+  userId,
+}: {
+  apiKey: ApiKeyInput;
+  keyHash: string;
+  keyPrefix: string;
+  userId: string;
+}): Promise<ApiKey> => {
+  const values = apiKeyInputSchema.parse(apiKey);
+  const [row] = await db
+    .insert(apiKeys)
+    .values({ ...values, keyHash, keyPrefix, userId })
+    .returning();
+  return toApiKey(row);
+};
+
+// Revoking twice keeps the first revocation time
+export const revokeApiKeyById = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<void> => {
+  await db
+    .update(apiKeys)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(apiKeys.id, id),
+        eq(apiKeys.userId, userId),
+        isNull(apiKeys.revokedAt)
+      )
+    );
+};
+
+// The unrevoked key with this hash, if there is one
+export const getActiveApiKey = async (
+  keyHash: string
+): Promise<
+  { id: number; userId: string; scopes: ApiKeyScope[] } | undefined
+> => {
+  const [row] = await db
+    .select({
+      id: apiKeys.id,
+      userId: apiKeys.userId,
+      scopes: apiKeys.scopes,
+    })
+    .from(apiKeys)
+    .where(and(eq(apiKeys.keyHash, keyHash), isNull(apiKeys.revokedAt)))
+    .limit(1);
+  return row;
+};
+
+export const markApiKeyUsed = async (id: number): Promise<void> => {
+  await db
+    .update(apiKeys)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(apiKeys.id, id));
+};
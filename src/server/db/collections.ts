@@ -0,0 +1,101 @@
+import { and, count, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import { collections, documents } from "@/server/db/schema";
+import { Collection, CollectionInput } from "@/types/promptHandler";
+
+export const collectionInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256),
+  description: z
+    .string()
+    .trim()
+    .optional()
+    .transform((value) => (value === "" ? undefined : value)),
+});
+
+const collectionColumns = {
+  id: collections.id,
+  name: collections.name,
+  description: collections.description,
+  documentCount: count(documents.id),
+  createdAt: collections.createdAt,
+};
+
+const toCollection = (row: {
+  id: number;
+  name: string;
+  description: string | null;
+  documentCount: number;
+  createdAt: Date;
+}): Collection => ({
+  ...row,
+  description: row.description ?? undefined,
+});
+
+export const getCollections = async (userId: string): Promise<Collection[]> => {
+  const rows = await db
+    .select(collectionColumns)
+    .from(collections)
+    .leftJoin(documents, eq(documents.collectionId, collections.id))
+    .where(eq(collections.userId, userId))
+    .groupBy(collections.id)
+    .orderBy(desc(collections.createdAt));
+  return rows.map(toCollection);
+};
+
+export const getCollection = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<Collection | undefined> => {
+  const [row] = await db
+    .select(collectionColumns)
+    .from(collections)
+    .leftJoin(documents, eq(documents.collectionId, collections.id))
+    .where(and(eq(collections.id, id), eq(collections.userId, userId)))
+    .groupBy(collections.id);
+  return row ? toCollection(row) : undefined;
+};
+
+// Templates retrieve from their bound collection as its owner
+export const getCollectionOwner = async (
+  id: number
+): Promise<string | undefined> => {
+  const [row] = await db
+    .select({ userId: collections.userId })
+    .from(collections)
+    .where(eq(collections.id, id))
+    .limit(1);
+  return row?.userId;
+};
+
+export const insertCollection = async ({
+  collection,
+  userId,
+}: {
+  collection: CollectionInput;
+  userId: string;
+}): Promise<Collection> => {
+  const values = collectionInputSchema.parse(collection);
+  const [row] = await db
+    .insert(collections)
+    .values({ ...values, description: values.description ?? null, userId })
+    .returning();
+  return toCollection({ ...row, documentCount: 0 });
+};
+
+// Documents and their chunks are removed by the foreign key cascade
+export const deleteCollectionById = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<void> => {
+  await db
+    .delete(collections)
+    .where(and(eq(collections.id, id), eq(collections.userId, userId)));
+};
@@ -0,0 +1,65 @@
+import { and, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import { datasets } from "@/server/db/schema";
+import { Dataset, DatasetInput } from "@/types/promptHandler";
+import { MAX_DATASET_ROWS } from "@/utils/parseDataset";
+
+export const datasetInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(256),
+    columns: z.array(z.string().trim().min(1)).min(1),
+    rows: z
+      .array(z.record(z.string(), z.string()))
+      .min(1, "The dataset has no rows")
+      .max(MAX_DATASET_ROWS),
+  })
+  .refine(
+    (dataset) => new Set(dataset.columns).size === dataset.columns.length,
+    "Column names must be unique"
+  );
+
+const toDataset = (row: typeof datasets.$inferSelect): Dataset => ({
+  id: row.id,
+  name: row.name,
+  columns: row.columns,
+  rows: row.rows,
+  createdAt: row.createdAt,
+});
+
+export const getDatasets = async (userId: string): Promise<Dataset[]> => {
+  const rows = await db
+    .select()
+    .from(datasets)
+    .where(eq(datasets.userId, userId))
+    .orderBy(desc(datasets.createdAt));
+  return rows.map(toDataset);
+};
+
+export const insertDataset = async ({
+  dataset,
+  userId,
+}: {
+  dataset: DatasetInput;
+  userId: string;
+}): Promise<Dataset> => {
+  const values = datasetInputSchema.parse(dataset);
+  const [row] = await db
+    .insert(datasets)
+    .values({ ...values, userId })
+    .returning();
+  return toDataset(row);
+};
+
+export const deleteDatasetById = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<void> => {
+  await db
+    .delete(datasets)
+    .where(and(eq(datasets.id, id), eq(datasets.userId, userId)));
+};
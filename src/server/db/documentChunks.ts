@@ -0,0 +1,88 @@
+import { and, asc, cosineDistance, desc, eq, gte, sql } from "drizzle-orm";
+
+import { db } from "@/server/db";
+import { documentChunks, documents } from "@/server/db/schema";
+import { DocumentChunk, VectorStore } from "@/types/promptHandler";
+
+/**
+ * VectorStore backed by the pgvector document_chunk table
+ * Document names come from the document row, so only chunks are written here
+ */
+export const pgVectorStore: VectorStore = {
+  addChunks: async ({ userId, document, chunks }) => {
+    if (chunks.length === 0) return;
+    await db.insert(documentChunks).values(
+      chunks.map((chunk) => ({
+        documentId: document.id,
+        userId,
+        chunkIndex: chunk.index,
+        content: chunk.content,
+        embedding: chunk.embedding,
+      }))
+    );
+  },
+  search: async ({
+    userId,
+    embedding,
+    topK,
+    minSimilarity = -1,
+    collectionId,
+  }) => {
+    const similarity = sql<number>`1 - (${cosineDistance(
+      documentChunks.embedding,
+      embedding
+    )})`;
+    return db
+      .select({
+        documentId: documentChunks.documentId,
+        documentName: documents.name,
+        index: documentChunks.chunkIndex,
+        content: documentChunks.content,
+        similarity,
+      })
+      .from(documentChunks)
+      .innerJoin(documents, eq(documents.id, documentChunks.documentId))
+      .where(
+        and(
+          eq(documentChunks.userId, userId),
+          collectionId === undefined
+            ? undefined
+            : eq(documents.collectionId, collectionId),
+          gte(similarity, minSimilarity)
+        )
+      )
+      .orderBy(desc(similarity))
+      .limit(topK);
+  },
+  deleteDocument: async ({ userId, documentId }) => {
+    await db
+      .delete(documentChunks)
+      .where(
+        and(
+          eq(documentChunks.documentId, documentId),
+          eq(documentChunks.userId, userId)
+        )
+      );
+  },
+};
+
+export const getDocumentChunks = async ({
+  documentId,
+  userId,
+}: {
+  documentId: number;
+  userId: string;
+}): Promise<DocumentChunk[]> =>
+  db
+    .select({
+      index: documentChunks.chunkIndex,
+      content: documentChunks.content,
+    })
+    .from(documentChunks)
+    .where(
+      and(
+        eq(documentChunks.documentId, documentId),
+        eq(documentChunks.userId, userId)
+      )
+    )
+    .orderBy(asc(documentChunks.chunkIndex));
@@ -0,0 +1,137 @@
+import { and, count, desc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { db } from "@/server/db";
+import { documentChunks, documents } from "@/server/db/schema";
+import {
+  ChunkingConfig,
+  KnowledgeDocument,
+  KnowledgeDocumentInput,
+} from "@/types/promptHandler";
+
+// Long enough for a sizeable PDF's text, short enough to embed in one request
+export const MAX_DOCUMENT_LENGTH = 200_000;
+
+export const documentInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(256),
+  content: z
+    .string()
+    .trim()
+    .min(1, "The document is empty")
+    .max(MAX_DOCUMENT_LENGTH, "The document is too long"),
+});
+
+// Embedding models accept a few thousand tokens, so chunks stay well below
+export const chunkingSchema = z
+  .object({
+    chunkSize: z.number().int().min(100).max(8000),
+    chunkOverlap: z.number().int().min(0),
+  })
+  .refine(
+    ({ chunkSize, chunkOverlap }) => chunkOverlap < chunkSize,
+    "Chunk overlap must be smaller than the chunk size"
+  );
+
+export const getDocuments = async ({
+  collectionId,
+  userId,
+}: {
+  collectionId: number;
+  userId: string;
+}): Promise<KnowledgeDocument[]> => {
+  const rows = await db
+    .select({
+      id: documents.id,
+      collectionId: documents.collectionId,
+      name: documents.name,
+      chunkSize: documents.chunkSize,
+      chunkOverlap: documents.chunkOverlap,
+      chunkCount: count(documentChunks.id),
+      createdAt: documents.createdAt,
+    })
+    .from(documents)
+    .leftJoin(documentChunks, eq(documentChunks.documentId, documents.id))
+    .where(
+      and(
+        eq(documents.collectionId, collectionId),
+        eq(documents.userId, userId)
+      )
+    )
+    .groupBy(documents.id)
+    .orderBy(desc(documents.createdAt));
+  return rows;
+};
+
+// Includes the full text, which re-chunking needs and listings don't
+export const getDocumentSource = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<
+  | { id: number; name: string; collectionId: number; content: string }
+  | undefined
+> => {
+  const [row] = await db
+    .select({
+      id: documents.id,
+      name: documents.name,
+      collectionId: documents.collectionId,
+      content: documents.content,
+    })
+    .from(documents)
+    .where(and(eq(documents.id, id), eq(documents.userId, userId)))
+    .limit(1);
+  return row;
+};
+
+// Chunks are added separately, once they have been embedded
+export const insertDocument = async ({
+  collectionId,
+  document,
+  chunking,
+  userId,
+}: {
+  collectionId: number;
+  document: KnowledgeDocumentInput;
+  chunking: ChunkingConfig;
+  userId: string;
+}): Promise<{ id: number; name: string; collectionId: number }> => {
+  const [row] = await db
+    .insert(documents)
+    .values({ ...document, ...chunking, collectionId, userId })
+    .returning({
+      id: documents.id,
+      name: documents.name,
+      collectionId: documents.collectionId,
+    });
+  return row;
+};
+
+export const updateDocumentChunking = async ({
+  id,
+  chunking,
+  userId,
+}: {
+  id: number;
+  chunking: ChunkingConfig;
+  userId: string;
+}): Promise<void> => {
+  await db
+    .update(documents)
+    .set(chunking)
+    .where(and(eq(documents.id, id), eq(documents.userId, userId)));
+};
+
+export const deleteDocumentById = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<void> => {
+  await db
+    .delete(documents)
+    .where(and(eq(documents.id, id), eq(documents.userId, userId)));
+};
@@ -0,0 +1,113 @@
+import { asc, eq } from "drizzle-orm";
+import { z } from "zod";
+
+import { outputSchemaSchema } from "@/lib/jsonSchema";
+import { getModelDefinition } from "@/lib/models";
+import { db } from "@/server/db";
+import { promptChains } from "@/server/db/schema";
+import { PromptChain, PromptChainInput } from "@/types/promptHandler";
+import { getChainIssues } from "@/utils/chainSteps";
+
+export const MAX_CHAIN_STEPS = 10;
+
+export const promptChainInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(256),
+    description: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => (value === "" ? undefined : value)),
+    steps: z
+      .array(
+        z
+          .object({
+            name: z.string().trim(),
+            template: z.string().trim().min(1, "Step templates can't be empty"),
+            model: z
+              .string()
+              .refine((id) => getModelDefinition(id), "Unknown model")
+              .optional(),
+            outputSchema: outputSchemaSchema.optional(),
+          })
+          .refine(
+            (step) =>
+              !step.outputSchema ||
+              !step.model ||
+              getModelDefinition(step.model)?.capabilities.json,
+            "Steps with an output schema need a model that supports JSON"
+          )
+      )
+      .min(1, "A chain needs at least one step")
+      .max(MAX_CHAIN_STEPS),
+  })
+  .superRefine((chain, ctx) => {
+    for (const message of getChainIssues(chain.steps)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["steps"], message });
+    }
+  });
+
+const toPromptChain = (row: typeof promptChains.$inferSelect): PromptChain => ({
+  id: row.id,
+  name: row.name,
+  description: row.description ?? undefined,
+  steps: row.steps,
+});
+
+export const getPromptChains = async (): Promise<PromptChain[]> => {
+  const rows = await db
+    .select()
+    .from(promptChains)
+    .orderBy(asc(promptChains.id));
+  return rows.map(toPromptChain);
+};
+
+export const getPromptChain = async (
+  id: number
+): Promise<PromptChain | undefined> => {
+  const [row] = await db
+    .select()
+    .from(promptChains)
+    .where(eq(promptChains.id, id))
+    .limit(1);
+  return row ? toPromptChain(row) : undefined;
+};
+
+export const insertPromptChain = async ({
+  chain,
+  userId,
+}: {
+  chain: PromptChainInput;
+  userId: string;
+}): Promise<PromptChain> => {
+  const values = promptChainInputSchema.parse(chain);
+  const [row] = await db
+    .insert(promptChains)
+    .values({
+      ...values,
+      description: values.description ?? null,
+      userId,
+    })
+    .returning();
+  return toPromptChain(row);
+};
+
+export const updatePromptChainById = async ({
+  id,
+  chain,
+}: {
+  id: number;
+  chain: PromptChainInput;
+}): Promise<PromptChain | undefined> => {
+  const values = promptChainInputSchema.parse(chain);
+  const [row] = await db
+    .update(promptChains)
+    .set({ ...values, description: values.description ?? null })
+    .where(eq(promptChains.id, id))
+    .returning();
+  return row ? toPromptChain(row) : undefined;
+};
+
+export const deletePromptChainById = async (id: number): Promise<void> => {
+  await db.delete(promptChains).where(eq(promptChains.id, id));
+};
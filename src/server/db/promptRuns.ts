@@ -0,0 +1,141 @@
+import { and, desc, eq, gte, ilike, lt, or, sql, SQL } from "drizzle-orm";
+
+import { summarizeUsage } from "@/lib/modelPricing";
+import { db } from "@/server/db";
+import { promptRuns } from "@/server/db/schema";
+import {
+  MultiplePromptResults,
+  PromptResult,
+  PromptRun,
+  PromptRunFilters,
+} from "@/types/promptHandler";
+
+const RUNS_PAGE_SIZE = 50;
+
+// jsonb hands timestamps back as ISO strings
+const reviveResult = (result: PromptResult): PromptResult => ({
+  ...result,
+  timestamp: new Date(result.timestamp),
+});
+
+const toPromptRun = (row: typeof promptRuns.$inferSelect): PromptRun => {
+  const results = row.results.map(reviveResult);
+
+  return {
+    id: row.id,
+    handlerId: row.handlerId,
+    handlerName: row.handlerName,
+    createdAt: row.createdAt,
+    data: {
+      results,
+      totalDuration: row.totalDuration,
+      promptTemplate: row.promptTemplate,
+      templateVersion: row.templateVersion ?? undefined,
+      // Batch-level fields aren't stored, every run carries its own
+      model: results[0]?.model,
+      parameters: results[0]?.parameters,
+      ...summarizeUsage(results),
+      cancelled: results.some((result) => result.status === "cancelled"),
+      userInput: row.input,
+      runId: row.id,
+    },
+  };
+};
+
+export const insertPromptRun = async ({
+  userId,
+  handlerId,
+  handlerName,
+  data,
+}: {
+  userId: string;
+  handlerId: string;
+  handlerName: string;
+  data: MultiplePromptResults;
+}): Promise<PromptRun> => {
+  const [row] = await db
+    .insert(promptRuns)
+    .values({
+      userId,
+      handlerId,
+      handlerName,
+      input: data.userInput,
+      promptTemplate: data.promptTemplate,
+      templateVersion: data.templateVersion ?? null,
+      totalDuration: data.totalDuration,
+      results: data.results,
+    })
+    .returning();
+  return toPromptRun(row);
+};
+
+export const getPromptRuns = async ({
+  userId,
+  filters = {},
+}: {
+  userId: string;
+  filters?: PromptRunFilters;
+}): Promise<PromptRun[]> => {
+  const conditions: (SQL | undefined)[] = [eq(promptRuns.userId, userId)];
+
+  if (filters.handlerId) {
+    conditions.push(eq(promptRuns.handlerId, filters.handlerId));
+  }
+  if (filters.from) {
+    conditions.push(gte(promptRuns.createdAt, filters.from));
+  }
+  if (filters.to) {
+    conditions.push(lt(promptRuns.createdAt, filters.to));
+  }
+  if (filters.failuresOnly) {
+    conditions.push(
+      sql`${promptRuns.results} @? '$[*] ? (@.status != "success")'`
+    );
+  }
+  if (filters.search) {
+    const pattern = `%${filters.search}%`;
+    conditions.push(
+      or(
+        ilike(promptRuns.input, pattern),
+        sql`${promptRuns.results}::text ilike ${pattern}`
+      )
+    );
+  }
+
+  const rows = await db
+    .select()
+    .from(promptRuns)
+    .where(and(...conditions))
+    .orderBy(desc(promptRuns.createdAt))
+    .limit(RUNS_PAGE_SIZE);
+  return rows.map(toPromptRun);
+};
+
+export const getPromptRun = async ({
+  id,
+  userId,
+}: {
+  id: number;
+  userId: string;
+}): Promise<PromptRun | undefined> => {
+  const [row] = await db
+    .select()
+    .from(promptRuns)
+    .where(and(eq(promptRuns.id, id), eq(promptRuns.userId, userId)))
+    .limit(1);
+  return row ? toPromptRun(row) : undefined;
+};
+
+// Distinct handlers the user has run, for the handler filter
+export const getPromptRunHandlers = async (
+  userId: string
+): Promise<{ handlerId: string; handlerName: string }[]> => {
+  return db
+    .selectDistinctOn([promptRuns.handlerId], {
+      handlerId: promptRuns.handlerId,
+      handlerName: promptRuns.handlerName,
+    })
+    .from(promptRuns)
+    .where(eq(promptRuns.userId, userId))
+    .orderBy(promptRuns.handlerId, desc(promptRuns.createdAt));
+};
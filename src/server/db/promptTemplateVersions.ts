@@ -0,0 +1,79 @@
+import { and, desc, eq } from "drizzle-orm";
+
+import { db } from "@/server/db";
+import { promptTemplateVersions } from "@/server/db/schema";
+import { PromptMessage, PromptTemplateVersion } from "@/types/promptHandler";
+
+const toPromptTemplateVersion = (
+  row: typeof promptTemplateVersions.$inferSelect
+): PromptTemplateVersion => ({
+  id: row.id,
+  templateId: row.templateId,
+  version: row.version,
+  text: row.text,
+  systemMessage: row.systemMessage ?? undefined,
+  messages: row.messages ?? undefined,
+  createdAt: row.createdAt,
+});
+
+// Newest first
+export const getPromptTemplateVersions = async (
+  templateId: number
+): Promise<PromptTemplateVersion[]> => {
+  const rows = await db
+    .select()
+    .from(promptTemplateVersions)
+    .where(eq(promptTemplateVersions.templateId, templateId))
+    .orderBy(desc(promptTemplateVersions.version));
+  return rows.map(toPromptTemplateVersion);
+};
+
+export const getPromptTemplateVersion = async ({
+  templateId,
+  version,
+}: {
+  templateId: number;
+  version: number;
+}): Promise<PromptTemplateVersion | undefined> => {
+  const [row] = await db
+    .select()
+    .from(promptTemplateVersions)
+    .where(
+      and(
+        eq(promptTemplateVersions.templateId, templateId),
+        eq(promptTemplateVersions.version, version)
+      )
+    )
+    .limit(1);
+  return row ? toPromptTemplateVersion(row) : undefined;
+};
+
+// Versions are append-only: there is deliberately no update or delete here
+export const insertPromptTemplateVersion = async ({
+  templateId,
+  version,
+  text,
+  systemMessage,
+  messages,
+  userId,
+}: {
+  templateId: number;
+  version: number;
+  text: string;
+  systemMessage?: string;
+  messages?: PromptMessage[];
+  userId: string;
+}): Promise<PromptTemplateVersion> => {
+  const [row] = await db
+    .insert(promptTemplateVersions)
+    .values({
+      templateId,
+      version,
+      text,
+      systemMessage: systemMessage ?? null,
+      messages: messages ?? null,
+      userId,
+    })
+    .returning();
+  return toPromptTemplateVersion(row);
+};
@@ -1,40 +1,381 @@
-// mock data for now, simulate a delay for db call
+import { asc, eq, sql } from "drizzle-orm";
+import { z } from "zod";
 
-import { PromptTemplate } from "@/types/promptHandler";
+import { generationParametersSchema } from "@/lib/generationParameters";
+import { jsonSchemaSchema, outputSchemaSchema } from "@/lib/jsonSchema";
+import { getModelDefinition } from "@/lib/models";
+import { db } from "@/server/db";
+import { getCollection } from "@/server/db/collections";
+import { insertPromptTemplateVersion } from "@/server/db/promptTemplateVersions";
+import { promptTemplates } from "@/server/db/schema";
+import {
+  GenerationParameters,
+  PromptTemplate,
+  PromptTemplateInput,
+  RetrievalConfig,
+} from "@/types/promptHandler";
+import {
+  formatTemplateWording,
+  getTemplateSourceText,
+} from "@/utils/templateMessages";
+import {
+  CONTEXT_VARIABLE,
+  extractTemplateVariables,
+} from "@/utils/templateVariables";
 
 // Re-export for compatibility with existing imports
-export type { PromptTemplate };
+export type { PromptTemplate, PromptTemplateInput };
 
-const getPromptTemplates = async () => {
-  // simulate a delay
-  await new Promise((resolve) => setTimeout(resolve, 500));
-  return [
-    {
-      id: 1,
-      name: "Helpful Assistant",
-      text: "You are a helpful assistant that can answer questions and help with tasks. Answer the user's question based on the following information:\n\n{{INPUT}}",
-      description:
-        "A general-purpose assistant that provides helpful answers and guidance on various topics",
-    },
-    {
-      id: 2,
-      name: "Proofreader",
-      text: "You are an expert proofreader. Review the following text for grammar, spelling, and clarity. Provide suggestions for improvement:\n\n{{INPUT}}",
-      description:
-        "Reviews text for grammar, spelling, and clarity issues with improvement suggestions",
-    },
+const isValidPattern = (pattern: string) => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Lookup files are stored with the template, so keep them modest
+export const MAX_LOOKUP_FILE_LENGTH = 100_000;
+
+// Shared validation for anything that writes a template's editable fields
+export const promptTemplateInputSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required").max(256),
+    text: z.string().trim().min(1, "Template text is required"),
+    description: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => (value === "" ? undefined : value)),
+    systemMessage: z
+      .string()
+      .trim()
+      .optional()
+      .transform((value) => (value === "" ? undefined : value)),
+    messages: z
+      .array(
+        z.object({
+          role: z.enum(["user", "assistant"]),
+          content: z.string().trim().min(1, "Example messages can't be empty"),
+        })
+      )
+      .optional(),
+    variables: z
+      .array(
+        z.object({
+          name: z.string().regex(/^[A-Za-z_][A-Za-z0-9_]*$/),
+          type: z.enum(["text", "longText", "number", "boolean"]),
+          defaultValue: z.string().optional(),
+          description: z.string().optional(),
+        })
+      )
+      .optional(),
+    parameters: generationParametersSchema.optional(),
+    execution: z
+      .discriminatedUnion("type", [
+        z.object({ type: z.literal("serial") }),
+        z.object({
+          type: z.literal("parallel"),
+          maxConcurrency: z.number().int().min(1).max(10).optional(),
+          timeoutMs: z.number().int().min(1000).max(300000).optional(),
+        }),
+      ])
+      .optional(),
+    evaluators: z
+      .array(
+        z.discriminatedUnion("type", [
+          z.object({ type: z.literal("exactMatch"), expected: z.string() }),
+          z.object({
+            type: z.literal("contains"),
+            expected: z.string().min(1),
+          }),
+          z.object({
+            type: z.literal("regex"),
+            pattern: z.string().refine(isValidPattern, "Invalid regex pattern"),
+          }),
+          z.object({ type: z.literal("jsonSchema"), schema: jsonSchemaSchema }),
+          z.object({
+            type: z.literal("jsonPathEquals"),
+            path: z.string().trim().min(1, "JSON path is required"),
+            expected: z.string(),
+          }),
+          z.object({
+            type: z.literal("maxLength"),
+            maxLength: z.number().int().positive(),
+          }),
+          z.object({
+            type: z.literal("maxLatency"),
+            maxMs: z.number().int().positive(),
+          }),
+          z.object({
+            type: z.literal("judge"),
+            rubric: z.string().trim().min(1, "Judge rubric is required"),
+            model: z
+              .string()
+              .refine(
+                (id) => getModelDefinition(id)?.capabilities.json,
+                "Judge model must support JSON output"
+              ),
+            scale: z.object({ min: z.number().int(), max: z.number().int() }),
+            passScore: z.number().int(),
+          }),
+        ])
+      )
+      .superRefine((evaluators, ctx) => {
+        evaluators.forEach((evaluator, index) => {
+          if (evaluator.type !== "judge") return;
+          const { scale, passScore } = evaluator;
+          if (scale.min >= scale.max) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, "scale"],
+              message: "Judge scale minimum must be below its maximum",
+            });
+          } else if (passScore < scale.min || passScore > scale.max) {
+            ctx.addIssue({
+              code: z.ZodIssueCode.custom,
+              path: [index, "passScore"],
+              message: "Judge pass score must be within the scale",
+            });
+          }
+        });
+      })
+      .optional(),
+    outputSchema: outputSchemaSchema.optional(),
+    retrieval: z
+      .object({
+        collectionId: z.number().int().positive(),
+        topK: z.number().int().min(1).max(20).optional(),
+        minSimilarity: z.number().min(-1).max(1).optional(),
+      })
+      .optional(),
+    tools: z
+      .array(
+        z.discriminatedUnion("type", [
+          z.object({ type: z.literal("calculator") }),
+          z.object({ type: z.literal("currentDate") }),
+          z.object({
+            type: z.literal("jsonLookup"),
+            fileName: z.string().trim().min(1).max(256),
+            data: z
+              .unknown()
+              .refine((data) => data !== undefined, "Lookup data is required")
+              .refine(
+                (data) => JSON.stringify(data).length <= MAX_LOOKUP_FILE_LENGTH,
+                "The lookup file is too large"
+              ),
+          }),
+          z.object({ type: z.literal("httpFetch") }),
+        ])
+      )
+      .refine(
+        (tools) =>
+          new Set(tools.map((tool) => tool.type)).size === tools.length,
+        "Each tool can only be added once"
+      )
+      .optional(),
+  })
+  .refine(
+    (template) =>
+      !template.retrieval ||
+      extractTemplateVariables(getTemplateSourceText(template)).includes(
+        CONTEXT_VARIABLE
+      ),
     {
-      id: 3,
-      name: "Brainstorming Assistant",
-      text: "You are a creative brainstorming assistant. Generate three unique ideas or solutions based on the user's request:\n\n{{INPUT}}",
-      description: undefined,
-    },
-  ];
+      message: `Templates with retrieval must use {{${CONTEXT_VARIABLE}}}`,
+      path: ["retrieval"],
+    }
+  )
+  .refine((template) => !(template.tools?.length && template.outputSchema), {
+    message: "Templates can't use tools and an output schema together",
+    path: ["tools"],
+  });
+
+const toPromptTemplate = (
+  row: typeof promptTemplates.$inferSelect
+): PromptTemplate => ({
+  id: row.id,
+  name: row.name,
+  text: row.text,
+  description: row.description ?? undefined,
+  systemMessage: row.systemMessage ?? undefined,
+  messages: row.messages ?? undefined,
+  version: row.version,
+  variables: row.variables ?? undefined,
+  parameters: row.parameters ?? undefined,
+  execution: row.execution ?? undefined,
+  evaluators: row.evaluators ?? undefined,
+  outputSchema: row.outputSchema ?? undefined,
+  retrieval: row.retrieval ?? undefined,
+  tools: row.tools ?? undefined,
+});
+
+/**
+ * A template as it may leave the server
+ * Uploaded lookup files stay private: tool runs load them by template id, and
+ * edits that keep the file get its data back in editPromptTemplate
+ */
+export const toPublicPromptTemplate = (
+  template: PromptTemplate
+): PromptTemplate => ({
+  ...template,
+  tools: template.tools?.map((tool) =>
+    tool.type === "jsonLookup" ? { ...tool, data: undefined } : tool
+  ),
+});
+
+// Public templates, since the list is rendered for every visitor
+const getPromptTemplates = async (): Promise<PromptTemplate[]> => {
+  const rows = await db
+    .select()
+    .from(promptTemplates)
+    .orderBy(asc(promptTemplates.id));
+  return rows.map((row) => toPublicPromptTemplate(toPromptTemplate(row)));
+};
+
+export const getPromptTemplate = async (
+  id: number
+): Promise<PromptTemplate | undefined> => {
+  const [row] = await db
+    .select()
+    .from(promptTemplates)
+    .where(eq(promptTemplates.id, id))
+    .limit(1);
+  return row ? toPromptTemplate(row) : undefined;
+};
+
+/**
+ * Collections are private, so only their owner can bind one to a template
+ * Everyone running the template then retrieves from it, and keeping an
+ * existing binding while editing is always allowed
+ */
+const assertCanBindCollection = async ({
+  retrieval,
+  current,
+  userId,
+}: {
+  retrieval?: RetrievalConfig;
+  current?: RetrievalConfig;
+  userId: string;
+}) => {
+  if (!retrieval || retrieval.collectionId === current?.collectionId) return;
+  if (!(await getCollection({ id: retrieval.collectionId, userId }))) {
+    throw new Error("Templates can only retrieve from your own collections");
+  }
+};
+
+export const insertPromptTemplate = async ({
+  template,
+  userId,
+}: {
+  template: PromptTemplateInput;
+  userId: string;
+}): Promise<PromptTemplate> => {
+  const values = promptTemplateInputSchema.parse(template);
+  await assertCanBindCollection({ retrieval: values.retrieval, userId });
+  const [row] = await db
+    .insert(promptTemplates)
+    .values({
+      ...values,
+      description: values.description ?? null,
+      systemMessage: values.systemMessage ?? null,
+      messages: values.messages ?? null,
+      variables: values.variables ?? null,
+      parameters: values.parameters ?? null,
+      execution: values.execution ?? null,
+      evaluators: values.evaluators ?? null,
+      outputSchema: values.outputSchema ?? null,
+      retrieval: values.retrieval ?? null,
+      tools: values.tools ?? null,
+      userId,
+    })
+    .returning();
+  await insertPromptTemplateVersion({
+    templateId: row.id,
+    version: row.version,
+    text: row.text,
+    systemMessage: row.systemMessage ?? undefined,
+    messages: row.messages ?? undefined,
+    userId,
+  });
+  return toPromptTemplate(row);
+};
+
+// Bumps the version and records a snapshot only when the wording actually changes
+export const updatePromptTemplateById = async ({
+  id,
+  template,
+  userId,
+}: {
+  id: number;
+  template: PromptTemplateInput;
+  userId: string;
+}): Promise<PromptTemplate | undefined> => {
+  const values = promptTemplateInputSchema.parse(template);
+  const current = await getPromptTemplate(id);
+  if (!current) {
+    return undefined;
+  }
+  await assertCanBindCollection({
+    retrieval: values.retrieval,
+    current: current.retrieval,
+    userId,
+  });
+
+  const wordingChanged =
+    formatTemplateWording(current) !== formatTemplateWording(values);
+  const [row] = await db
+    .update(promptTemplates)
+    .set({
+      ...values,
+      description: values.description ?? null,
+      systemMessage: values.systemMessage ?? null,
+      messages: values.messages ?? null,
+      variables: values.variables ?? null,
+      execution: values.execution ?? null,
+      evaluators: values.evaluators ?? null,
+      outputSchema: values.outputSchema ?? null,
+      retrieval: values.retrieval ?? null,
+      tools: values.tools ?? null,
+      ...(wordingChanged && { version: sql`${promptTemplates.version} + 1` }),
+    })
+    .where(eq(promptTemplates.id, id))
+    .returning();
+  if (!row) {
+    return undefined;
+  }
+
+  if (wordingChanged) {
+    await insertPromptTemplateVersion({
+      templateId: row.id,
+      version: row.version,
+      text: row.text,
+      systemMessage: row.systemMessage ?? undefined,
+      messages: row.messages ?? undefined,
+      userId,
+    });
+  }
+  return toPromptTemplate(row);
+};
+
+export const updatePromptTemplateParameters = async ({
+  id,
+  parameters,
+}: {
+  id: number;
+  parameters: GenerationParameters;
+}): Promise<PromptTemplate | undefined> => {
+  const [row] = await db
+    .update(promptTemplates)
+    .set({ parameters: generationParametersSchema.parse(parameters) })
+    .where(eq(promptTemplates.id, id))
+    .returning();
+  return row ? toPromptTemplate(row) : undefined;
 };
 
-export const getPromptTemplate = async (id: number) => {
-  const templates = await getPromptTemplates();
-  return templates.find((p) => p.id === id);
+export const deletePromptTemplateById = async (id: number): Promise<void> => {
+  await db.delete(promptTemplates).where(eq(promptTemplates.id, id));
 };
 
 export default getPromptTemplates;
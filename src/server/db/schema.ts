@@ -1,13 +1,32 @@
 import {
   index,
   integer,
+  jsonb,
   pgTableCreator,
+  text,
   timestamp,
+  uniqueIndex,
   varchar,
+  vector,
 } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
 
 import { env } from "@/env";
+import {
+  ApiKeyScope,
+  ChainStep,
+  DatasetRow,
+  EvaluatorConfig,
+  ExecutionConfig,
+  GenerationParameters,
+  JsonSchema,
+  PromptMessage,
+  PromptResult,
+  RetrievalConfig,
+  TemplateVariable,
+  ToolConfig,
+} from "@/types/promptHandler";
+import { EMBEDDING_DIMENSIONS } from "@/lib/embeddings";
 
 // https://orm.drizzle.team/docs/goodies#multi-project-schema;
 
@@ -33,3 +52,209 @@ export const example_posts = createTable(
   },
   (example) => [index(indexName("post_name")).on(example.name)]
 );
+
+export const promptTemplates = createTable(
+  "prompt_template",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    name: varchar("name", { length: 256 }).notNull(),
+    description: text("description"),
+    text: text("text").notNull(),
+    systemMessage: text("system_message"),
+    messages: jsonb("messages").$type<PromptMessage[]>(),
+    version: integer("version").default(1).notNull(),
+    variables: jsonb("variables").$type<TemplateVariable[]>(),
+    parameters: jsonb("parameters").$type<GenerationParameters>(),
+    execution: jsonb("execution").$type<ExecutionConfig>(),
+    evaluators: jsonb("evaluators").$type<EvaluatorConfig[]>(),
+    outputSchema: jsonb("output_schema").$type<JsonSchema>(),
+    retrieval: jsonb("retrieval").$type<RetrievalConfig>(),
+    tools: jsonb("tools").$type<ToolConfig[]>(),
+    userId: varchar("user_id", { length: 256 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [
+    index(indexName("prompt_template_name")).on(table.name),
+    index(indexName("prompt_template_user_id")).on(table.userId),
+  ]
+);
+
+// Immutable snapshot of a template's wording, one row per edit
+export const promptTemplateVersions = createTable(
+  "prompt_template_version",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    templateId: integer("template_id")
+      .references(() => promptTemplates.id, { onDelete: "cascade" })
+      .notNull(),
+    version: integer("version").notNull(),
+    text: text("text").notNull(),
+    systemMessage: text("system_message"),
+    messages: jsonb("messages").$type<PromptMessage[]>(),
+    userId: varchar("user_id", { length: 256 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [
+    uniqueIndex(indexName("prompt_template_version_template_version")).on(
+      table.templateId,
+      table.version
+    ),
+  ]
+);
+
+// Multi-step prompts, shared like templates and run as advanced handlers
+export const promptChains = createTable(
+  "prompt_chain",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    name: varchar("name", { length: 256 }).notNull(),
+    description: text("description"),
+    steps: jsonb("steps").$type<ChainStep[]>().notNull(),
+    userId: varchar("user_id", { length: 256 }),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [index(indexName("prompt_chain_name")).on(table.name)]
+);
+
+// One row per PromptHandler.execute call, scoped to the Clerk user who ran it
+export const promptRuns = createTable(
+  "prompt_run",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    handlerId: varchar("handler_id", { length: 256 }).notNull(),
+    handlerName: varchar("handler_name", { length: 256 }).notNull(),
+    input: text("input").notNull(),
+    promptTemplate: text("prompt_template").notNull(),
+    templateVersion: integer("template_version"),
+    totalDuration: integer("total_duration").notNull(),
+    results: jsonb("results").$type<PromptResult[]>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [
+    index(indexName("prompt_run_user_created_at")).on(
+      table.userId,
+      table.createdAt
+    ),
+    index(indexName("prompt_run_handler_id")).on(table.handlerId),
+  ]
+);
+
+// Uploaded evaluation inputs, private to the Clerk user who created them
+export const datasets = createTable(
+  "dataset",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    name: varchar("name", { length: 256 }).notNull(),
+    columns: jsonb("columns").$type<string[]>().notNull(),
+    rows: jsonb("rows").$type<DatasetRow[]>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [index(indexName("dataset_user_id")).on(table.userId)]
+);
+
+// Named sets of retrieval sources, private to the Clerk user who created them
+export const collections = createTable(
+  "collection",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    name: varchar("name", { length: 256 }).notNull(),
+    description: text("description"),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }).$onUpdate(
+      () => new Date()
+    ),
+  },
+  (table) => [index(indexName("collection_user_id")).on(table.userId)]
+);
+
+export const documents = createTable(
+  "document",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    collectionId: integer("collection_id")
+      .references(() => collections.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    name: varchar("name", { length: 256 }).notNull(),
+    content: text("content").notNull(),
+    chunkSize: integer("chunk_size").notNull(),
+    chunkOverlap: integer("chunk_overlap").notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+  },
+  (table) => [
+    index(indexName("document_user_id")).on(table.userId),
+    index(indexName("document_collection_id")).on(table.collectionId),
+  ]
+);
+
+// Requires the pgvector extension: CREATE EXTENSION IF NOT EXISTS vector
+export const documentChunks = createTable(
+  "document_chunk",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    documentId: integer("document_id")
+      .references(() => documents.id, { onDelete: "cascade" })
+      .notNull(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    chunkIndex: integer("chunk_index").notNull(),
+    content: text("content").notNull(),
+    embedding: vector("embedding", {
+      dimensions: EMBEDDING_DIMENSIONS,
+    }).notNull(),
+  },
+  (table) => [
+    index(indexName("document_chunk_document_id")).on(table.documentId),
+    index(indexName("document_chunk_embedding")).using(
+      "hnsw",
+      table.embedding.op("vector_cosine_ops")
+    ),
+  ]
+);
+
+// Keys for the HTTP API, resolving to the Clerk user who created them
+export const apiKeys = createTable(
+  "api_key",
+  {
+    id: integer("id").primaryKey().generatedByDefaultAsIdentity(),
+    userId: varchar("user_id", { length: 256 }).notNull(),
+    name: varchar("name", { length: 256 }).notNull(),
+    keyHash: varchar("key_hash", { length: 64 }).notNull(),
+    keyPrefix: varchar("key_prefix", { length: 16 }).notNull(),
+    scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true })
+      .default(sql`CURRENT_TIMESTAMP`)
+      .notNull(),
+    lastUsedAt: timestamp("last_used_at", { withTimezone: true }),
+    revokedAt: timestamp("revoked_at", { withTimezone: true }),
+  },
+  (table) => [
+    index(indexName("api_key_user_id")).on(table.userId),
+    uniqueIndex(indexName("api_key_key_hash")).on(table.keyHash),
+  ]
+);
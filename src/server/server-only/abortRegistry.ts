@@ -0,0 +1,34 @@
+import "server-only";
+
+// In-flight generations by client-supplied request id, so a separate
+// cancelGeneration call can abort them. Scoped to this server instance.
+const controllers = new Map<string, AbortController>();
+
+/**
+ * Runs a generation with an AbortSignal the client can trigger by request id
+ * Without a request id the generation simply isn't cancellable
+ */
+export const withAbortSignal = async <T>({
+  requestId,
+  run,
+}: {
+  requestId?: string;
+  run: (signal?: AbortSignal) => Promise<T>;
+}): Promise<T> => {
+  if (!requestId) {
+    return run(undefined);
+  }
+
+  const controller = new AbortController();
+  controllers.set(requestId, controller);
+  try {
+    return await run(controller.signal);
+  } finally {
+    // eslint-disable-next-line drizzle/enforce-delete-with-where
+    controllers.delete(requestId);
+  }
+};
+
+export const abortGeneration = (requestId: string) => {
+  controllers.get(requestId)?.abort();
+};
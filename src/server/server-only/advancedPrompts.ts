@@ -0,0 +1,83 @@
+import "server-only";
+
+import { generateObject } from "ai";
+import { z } from "zod";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { toTokenUsage } from "@/lib/modelPricing";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import { GenerationParameters } from "@/types/promptHandler";
+
+// Prompts and schemas shared by the blocking and streaming advanced actions
+
+export const basicJsonTemplate = `You are a helpful assistant that can answer questions and help with tasks. Answer the user's question or task in a concise and helpful manner.\n\n`;
+
+export const basicJsonSchema = z.object({
+  answer: z.string().describe("The answer to the user's question"),
+  reasoning: z.string().describe("The reasoning behind the answer"),
+});
+
+// Keep the original temperature unless the caller overrides it
+export const basicJsonParameters = (parameters?: GenerationParameters) => ({
+  temperature: 1,
+  ...parameters,
+});
+
+const stepsTemplate = `You are a helpful assistant that can answer questions and help with tasks. Breakdown the user's question or task into a series of steps.\n\n`;
+const answerTemplate = `You are a helpful assistant that can answer questions and help with tasks. Answer the user's question or task in a concise and helpful manner, using the steps provided.\n\n`;
+
+/**
+ * First stage of the two-stage handler: break the input into steps
+ * Returns the steps and second-stage prompt along with the first call's usage
+ * and attempts
+ */
+export const generateTwoStageAnswerPrompt = async ({
+  input,
+  model,
+  parameters,
+  abortSignal,
+}: {
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  abortSignal?: AbortSignal;
+}) => {
+  const {
+    result: { object, usage },
+    attempts,
+  } = await withProviderLimits({
+    model,
+    abortSignal,
+    run: () =>
+      generateObject({
+        model: getLanguageModel({ id: model, requires: "json" }),
+        prompt: stepsTemplate + input,
+        ...toCallSettings({ model, parameters, output: "object" }),
+        abortSignal,
+        maxRetries: 0,
+        schema: z.object({
+          steps: z
+            .array(z.string())
+            .describe(
+              "An array of strings, each breaking down the user's question into a step"
+            ),
+        }),
+      }),
+    getUsage: (result) => toTokenUsage(result.usage),
+  });
+
+  const fullPrompt =
+    answerTemplate +
+    `Original question: "${input}"\n\n` +
+    `Steps to follow:\n${object.steps
+      .map((step, i) => `${i + 1}. ${step}`)
+      .join("\n")}\n\n`;
+
+  return {
+    steps: object.steps,
+    fullPrompt,
+    usage: toTokenUsage(usage),
+    attempts,
+  };
+};
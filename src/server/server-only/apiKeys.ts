@@ -0,0 +1,44 @@
+import "server-only";
+
+import { AsyncLocalStorage } from "node:async_hooks";
+
+import { auth } from "@clerk/nextjs/server";
+import { headers } from "next/headers";
+
+import { getActiveApiKey } from "@/server/db/apiKeys";
+import { hashApiKey, parseApiKey } from "@/utils/apiKeys";
+
+// Holds the key owner only while an API route body runs
+const apiUser = new AsyncLocalStorage<string>();
+
+/**
+ * Resolves the bearer API key on the current request, if it is still active
+ * Only handleApiRequest calls this; getUserId stays session-only, so keys
+ * can't reach server actions by posting to a page
+ */
+export async function getApiKey() {
+  const key = parseApiKey((await headers()).get("authorization"));
+  if (!key) {
+    return undefined;
+  }
+
+  return getActiveApiKey(await hashApiKey(key));
+}
+
+export const runAsApiUser = <T>({
+  userId,
+  run,
+}: {
+  userId: string;
+  run: () => Promise<T>;
+}): Promise<T> => apiUser.run(userId, run);
+
+/**
+ * The signed-in user, or the key owner when called while an API route runs
+ * For the few actions a handler calls during execute; a server action
+ * request never runs inside an API route, so it only ever sees the session
+ */
+export async function getRunUserId(): Promise<string | null> {
+  const { userId } = await auth();
+  return userId ?? apiUser.getStore() ?? null;
+}
@@ -0,0 +1,26 @@
+import "server-only";
+
+import { createStreamableValue, StreamableValue } from "ai/rsc";
+
+import { AdvancedResponse, ResponseStreamChunk } from "@/types/promptHandler";
+
+/**
+ * Runs a generation in the background and forwards its chunks to the client
+ * The resolved response is sent as the final "finish" chunk; a rejection
+ * surfaces as an error when the client reads the stream
+ */
+export const createResponseStream = (
+  generate: (params: {
+    send: (chunk: ResponseStreamChunk) => void;
+  }) => Promise<AdvancedResponse>
+): StreamableValue<ResponseStreamChunk> => {
+  const stream = createStreamableValue<ResponseStreamChunk>();
+
+  generate({ send: (chunk) => stream.update(chunk) })
+    .then((response) => stream.done({ type: "finish", response }))
+    .catch((error: unknown) =>
+      stream.error(error instanceof Error ? error.message : String(error))
+    );
+
+  return stream.value;
+};
@@ -0,0 +1,39 @@
+import "server-only";
+
+import { anthropic } from "@ai-sdk/anthropic";
+import { openai } from "@ai-sdk/openai";
+import { LanguageModel } from "ai";
+
+import { DEFAULT_MODEL_ID, getModelDefinition } from "@/lib/models";
+import { ModelDefinition } from "@/types/promptHandler";
+
+/**
+ * Resolves a registry id to an AI SDK model instance
+ * Throws for ids that aren't in the registry, and for models lacking a
+ * capability the caller needs (e.g. json for generateObject)
+ *
+ * @example
+ * const model = getLanguageModel({ id: "openai:gpt-4o", requires: "json" });
+ */
+export function getLanguageModel({
+  id = DEFAULT_MODEL_ID,
+  requires,
+}: {
+  id?: string;
+  requires?: keyof ModelDefinition["capabilities"];
+}): LanguageModel {
+  const definition = getModelDefinition(id);
+  if (!definition) {
+    throw new Error(`Unknown model: ${id}`);
+  }
+  if (requires && !definition.capabilities[requires]) {
+    throw new Error(`${definition.displayName} does not support ${requires}`);
+  }
+
+  switch (definition.provider) {
+    case "openai":
+      return openai(definition.modelId);
+    case "anthropic":
+      return anthropic(definition.modelId);
+  }
+}
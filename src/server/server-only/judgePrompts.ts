@@ -0,0 +1,60 @@
+import "server-only";
+
+import { z } from "zod";
+
+import { JudgeScale } from "@/types/promptHandler";
+import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+import { extractTemplateVariables } from "@/utils/templateVariables";
+
+// Prompt and schema for LLM-as-judge evaluators (see judgeResponse)
+
+export const judgeSystemMessage = ({ min, max }: JudgeScale) =>
+  `You are an impartial evaluator. Grade the response strictly against the rubric you are given. ` +
+  `Give a whole-number score from ${min} (worst) to ${max} (best), and a short rationale that explains the score.`;
+
+export const judgeSchema = ({ min, max }: JudgeScale) =>
+  z.object({
+    rationale: z.string().describe("Why the response earned this score"),
+    score: z
+      .number()
+      .describe(`Whole-number score from ${min} to ${max} inclusive`),
+  });
+
+/**
+ * Fills the rubric's placeholders and appends whatever it didn't reference,
+ * so a bare rubric still sees the input and response it is grading
+ */
+export const buildJudgePrompt = ({
+  rubric,
+  values,
+  input,
+  prompt,
+  response,
+}: {
+  rubric: string;
+  values: Record<string, string>;
+  input: string;
+  prompt: string;
+  response: string;
+}) => {
+  const sections = { input, prompt, response };
+  const filled = insertInputIntoPrompt({
+    template: rubric,
+    values: { ...values, ...sections },
+  });
+  const referenced = extractTemplateVariables(rubric);
+  const appended = Object.entries(sections)
+    .filter(([name]) => !referenced.includes(name))
+    .map(([name, text]) => `<${name}>\n${text}\n</${name}>`);
+
+  return [`Rubric:\n${filled}`, ...appended].join("\n\n");
+};
+
+// Models occasionally drift outside the range or give halves
+export const clampScore = ({
+  score,
+  scale,
+}: {
+  score: number;
+  scale: JudgeScale;
+}) => Math.min(scale.max, Math.max(scale.min, Math.round(score)));
@@ -0,0 +1,145 @@
+import "server-only";
+
+import { APICallError } from "ai";
+
+import { DEFAULT_MODEL_ID, getModelDefinition } from "@/lib/models";
+import { PROVIDER_RATE_LIMITS, RETRY_POLICY } from "@/lib/rateLimits";
+import { TokenUsage } from "@/types/promptHandler";
+
+const WINDOW_MS = 60_000;
+
+interface WindowEntry {
+  timestamp: number;
+  tokens: number; // Filled in once the call reports usage
+}
+
+// Calls made in the last minute per provider. Like the abort registry this
+// is per server instance, so limits are best-effort across instances.
+const windows = new Map<string, WindowEntry[]>();
+
+const sleep = ({ ms, signal }: { ms: number; signal?: AbortSignal }) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", handleAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", handleAbort, { once: true });
+  });
+
+// Waits until the provider's last minute has room for another request
+const acquireSlot = async ({
+  provider,
+  signal,
+}: {
+  provider: keyof typeof PROVIDER_RATE_LIMITS;
+  signal?: AbortSignal;
+}): Promise<WindowEntry> => {
+  const limit = PROVIDER_RATE_LIMITS[provider];
+
+  for (;;) {
+    const now = Date.now();
+    const entries = (windows.get(provider) ?? []).filter(
+      (entry) => now - entry.timestamp < WINDOW_MS
+    );
+    windows.set(provider, entries);
+
+    const tokens = entries.reduce((sum, entry) => sum + entry.tokens, 0);
+    if (
+      entries.length < limit.requestsPerMinute &&
+      tokens < limit.tokensPerMinute
+    ) {
+      const entry = { timestamp: now, tokens: 0 };
+      entries.push(entry);
+      return entry;
+    }
+
+    await sleep({ ms: entries[0].timestamp + WINDOW_MS - now, signal });
+  }
+};
+
+export const isRetryableError = (error: unknown) =>
+  APICallError.isInstance(error) &&
+  (error.statusCode === 429 ||
+    (error.statusCode !== undefined && error.statusCode >= 500));
+
+// Honours retry-after when the provider sends it, otherwise backs off exponentially
+const getRetryDelay = ({
+  error,
+  attempt,
+}: {
+  error: unknown;
+  attempt: number;
+}) => {
+  const retryAfter = APICallError.isInstance(error)
+    ? Number(error.responseHeaders?.["retry-after"])
+    : NaN;
+  const delay =
+    Number.isFinite(retryAfter) && retryAfter > 0
+      ? retryAfter * 1000
+      : RETRY_POLICY.baseDelayMs * 2 ** (attempt - 1) +
+        Math.random() * RETRY_POLICY.baseDelayMs;
+  return Math.min(delay, RETRY_POLICY.maxDelayMs);
+};
+
+/**
+ * Runs a model call within its provider's rate limit, retrying 429/5xx
+ * responses with backoff. Calls should pass maxRetries: 0 to the AI SDK so
+ * retries aren't doubled up. canRetry lets streaming calls give up once
+ * chunks have already reached the client.
+ * Resolves with the number of attempts it took, for the run's result
+ */
+export const withProviderLimits = async <T>({
+  model = DEFAULT_MODEL_ID,
+  abortSignal,
+  run,
+  getUsage,
+  canRetry = () => true,
+}: {
+  model?: string;
+  abortSignal?: AbortSignal;
+  run: () => Promise<T>;
+  getUsage: (result: T) => TokenUsage | undefined;
+  canRetry?: () => boolean;
+}): Promise<{ result: T; attempts: number }> => {
+  const provider = getModelDefinition(model)?.provider;
+
+  for (let attempt = 1; ; attempt++) {
+    const entry = provider
+      ? await acquireSlot({ provider, signal: abortSignal })
+      : undefined;
+
+    try {
+      const result = await run();
+      if (entry) {
+        entry.tokens = getUsage(result)?.totalTokens ?? 0;
+      }
+      return { result, attempts: attempt };
+    } catch (error) {
+      if (
+        attempt >= RETRY_POLICY.maxAttempts ||
+        !isRetryableError(error) ||
+        !canRetry() ||
+        abortSignal?.aborted
+      ) {
+        // Only the message survives the trip back through a server action
+        throw attempt > 1 && error instanceof Error
+          ? new Error(`${error.message} (after ${attempt} attempts)`, {
+              cause: error,
+            })
+          : error;
+      }
+      await sleep({
+        ms: getRetryDelay({ error, attempt }),
+        signal: abortSignal,
+      });
+    }
+  }
+};
@@ -0,0 +1,142 @@
+import "server-only";
+
+import { z, ZodError } from "zod";
+
+import { generationParametersSchema } from "@/lib/generationParameters";
+import { getModelDefinition } from "@/lib/models";
+import { getPromptChains } from "@/server/db/promptChains";
+import { markApiKeyUsed } from "@/server/db/apiKeys";
+import getPromptTemplates from "@/server/db/promptTemplates";
+import { getApiKey, runAsApiUser } from "@/server/server-only/apiKeys";
+import { ApiKeyScope, PromptHandler } from "@/types/promptHandler";
+import { createPromptHandlers } from "@/utils/createPromptHandlers";
+import { TemplateVariableError } from "@/utils/templateVariables";
+
+// The largest batch the UI offers
+const MAX_API_RUN_COUNT = 200;
+
+/**
+ * Thrown by API route bodies to answer with a specific status
+ */
+export class ApiError extends Error {
+  readonly status: number;
+
+  constructor({ status, message }: { status: number; message: string }) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+export const executeRequestSchema = z
+  .object({
+    input: z.string().default(""),
+    variables: z.record(z.string()).optional(),
+    runCount: z.number().int().min(1).max(MAX_API_RUN_COUNT).default(1),
+    model: z
+      .string()
+      .refine((id) => getModelDefinition(id) !== undefined, "Unknown model")
+      .optional(),
+    parameters: generationParametersSchema.optional(),
+  })
+  .refine((body) => body.input.trim() || body.variables, {
+    message: "Provide an input or variables",
+    path: ["input"],
+  });
+
+/**
+ * Every handler the UI offers, built the same way BasicPrompt builds them
+ */
+export const loadPromptHandlers = async (): Promise<PromptHandler[]> => {
+  const [promptTemplates, promptChains] = await Promise.all([
+    getPromptTemplates(),
+    getPromptChains(),
+  ]);
+  return createPromptHandlers(promptTemplates, promptChains);
+};
+
+// Handlers without their execute function, as listed by the API
+export const toHandlerSummary = (handler: PromptHandler) => ({
+  id: handler.id,
+  name: handler.name,
+  description: handler.description,
+  category: handler.category,
+  variables: handler.variables,
+  requiresJson: handler.requiresJson ?? false,
+  defaultParameters: handler.defaultParameters,
+});
+
+// Route params are strings; ids that aren't integers can't match a row
+export const parseRouteId = (id: string) => {
+  const parsed = Number(id);
+  if (!Number.isInteger(parsed)) {
+    throw new ApiError({ status: 404, message: "Not found" });
+  }
+  return parsed;
+};
+
+export const readJsonBody = (request: Request): Promise<unknown> =>
+  request.json().catch(() => {
+    throw new ApiError({ status: 400, message: "Body must be JSON" });
+  });
+
+const toErrorResponse = (error: unknown) => {
+  if (error instanceof ApiError) {
+    return Response.json({ error: error.message }, { status: error.status });
+  }
+  if (error instanceof ZodError) {
+    return Response.json(
+      { error: "Invalid request", issues: error.issues },
+      { status: 400 }
+    );
+  }
+  if (error instanceof TemplateVariableError) {
+    return Response.json(
+      { error: error.message, issues: error.issues },
+      { status: 400 }
+    );
+  }
+
+  console.error("API request failed", error);
+  return Response.json({ error: "Internal server error" }, { status: 500 });
+};
+
+/**
+ * Runs an API route body for the owner of the request's bearer key
+ * Answers 401 without an active key and 403 when the key lacks the scope,
+ * and maps thrown errors to JSON responses
+ * The body runs as the key owner for getRunUserId, so its runs are saved
+ */
+export const handleApiRequest = async ({
+  scope,
+  run,
+}: {
+  scope: ApiKeyScope;
+  run: (userId: string) => Promise<unknown>;
+}): Promise<Response> => {
+  const apiKey = await getApiKey();
+  if (!apiKey) {
+    return Response.json(
+      { error: "Missing or invalid API key" },
+      { status: 401 }
+    );
+  }
+  if (!apiKey.scopes.includes(scope)) {
+    return Response.json(
+      { error: `This API key is missing the ${scope} scope` },
+      { status: 403 }
+    );
+  }
+
+  try {
+    await markApiKeyUsed(apiKey.id);
+    return Response.json(
+      await runAsApiUser({
+        userId: apiKey.userId,
+        run: () => run(apiKey.userId),
+      })
+    );
+  } catch (error) {
+    return toErrorResponse(error);
+  }
+};
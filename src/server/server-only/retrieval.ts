@@ -0,0 +1,105 @@
+import "server-only";
+
+import { openai } from "@ai-sdk/openai";
+import { embed, embedMany } from "ai";
+
+import { EMBEDDING_MODEL_ID } from "@/lib/embeddings";
+import { pgVectorStore } from "@/server/db/documentChunks";
+import {
+  ChunkingConfig,
+  RetrievedChunk,
+  VectorStore,
+} from "@/types/promptHandler";
+import { chunkText } from "@/utils/chunkText";
+import { formatRetrievedContext } from "@/utils/retrievedChunks";
+
+const embeddingModel = openai.embedding(EMBEDDING_MODEL_ID);
+
+export const DEFAULT_TOP_K = 4;
+// Below this, chunks are usually unrelated text that only shares vocabulary
+export const DEFAULT_MIN_SIMILARITY = 0.3;
+
+/**
+ * Chunks and embeds a document, then stores its chunks
+ * With replace, the document's old chunks are only removed once the new ones
+ * are embedded, so a failed re-chunk leaves the document searchable
+ * Returns how many chunks were stored
+ */
+export const ingestDocument = async ({
+  userId,
+  document,
+  content,
+  chunking,
+  replace = false,
+  store = pgVectorStore,
+}: {
+  userId: string;
+  document: { id: number; name: string; collectionId: number };
+  content: string;
+  chunking: ChunkingConfig;
+  replace?: boolean;
+  store?: VectorStore;
+}): Promise<number> => {
+  const chunks = chunkText({ text: content, ...chunking });
+  const { embeddings } = await embedMany({
+    model: embeddingModel,
+    values: chunks,
+  });
+
+  if (replace) {
+    await store.deleteDocument({ userId, documentId: document.id });
+  }
+  await store.addChunks({
+    userId,
+    document,
+    chunks: chunks.map((chunk, index) => ({
+      index,
+      content: chunk,
+      embedding: embeddings[index],
+    })),
+  });
+  return chunks.length;
+};
+
+// Searches every collection of the user unless collectionId is given
+export const retrieveChunks = async ({
+  userId,
+  query,
+  collectionId,
+  topK = DEFAULT_TOP_K,
+  minSimilarity = DEFAULT_MIN_SIMILARITY,
+  abortSignal,
+  store = pgVectorStore,
+}: {
+  userId: string;
+  query: string;
+  collectionId?: number;
+  topK?: number;
+  minSimilarity?: number;
+  abortSignal?: AbortSignal;
+  store?: VectorStore;
+}): Promise<RetrievedChunk[]> => {
+  const { embedding } = await embed({
+    model: embeddingModel,
+    value: query,
+    abortSignal,
+  });
+  return store.search({ userId, embedding, topK, minSimilarity, collectionId });
+};
+
+/**
+ * Prompt for the RAG Answer handler's answering call
+ */
+export const buildRagPrompt = ({
+  input,
+  chunks,
+}: {
+  input: string;
+  chunks: RetrievedChunk[];
+}) => `You are a helpful assistant. Answer the user's question using only the context below, and name the sources you used. If the context doesn't contain the answer, say so.
+
+<context>
+${formatRetrievedContext(chunks)}
+</context>
+
+Question: ${input}`;
@@ -0,0 +1,160 @@
+import "server-only";
+
+import { generateObject, generateText, NoObjectGeneratedError } from "ai";
+
+import { toCallSettings } from "@/lib/generationParameters";
+import { calculateCost, sumTokenUsage, toTokenUsage } from "@/lib/modelPricing";
+import { DEFAULT_MODEL_ID, getModelDisplayName } from "@/lib/models";
+import { getLanguageModel } from "@/server/server-only/getLanguageModel";
+import { withProviderLimits } from "@/server/server-only/providerLimits";
+import {
+  getSchemaIssues,
+  toOutputSchema,
+} from "@/server/server-only/structuredOutput";
+import { withSpan } from "@/server/server-only/tracing";
+import {
+  AdvancedResponse,
+  ChainStep,
+  GenerationParameters,
+  TokenUsage,
+  TraceSpan,
+} from "@/types/promptHandler";
+import { formatChainStepOutput } from "@/utils/chainSteps";
+import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+import { DEFAULT_INPUT_VARIABLE } from "@/utils/templateVariables";
+
+const runStep = async ({
+  step,
+  prompt,
+  model,
+  parameters,
+  abortSignal,
+}: {
+  step: ChainStep;
+  prompt: string;
+  model: string;
+  parameters?: GenerationParameters;
+  abortSignal?: AbortSignal;
+}): Promise<{
+  output: string | object;
+  usage: TokenUsage;
+  attempts: number;
+}> => {
+  const { outputSchema } = step;
+
+  if (!outputSchema) {
+    const { result, attempts } = await withProviderLimits({
+      model,
+      abortSignal,
+      run: () =>
+        generateText({
+          model: getLanguageModel({ id: model }),
+          prompt,
+          ...toCallSettings({ model, parameters }),
+          abortSignal,
+          maxRetries: 0,
+        }),
+      getUsage: (result) => toTokenUsage(result.usage),
+    });
+    return { output: result.text, usage: toTokenUsage(result.usage), attempts };
+  }
+
+  try {
+    const { result, attempts } = await withProviderLimits({
+      model,
+      abortSignal,
+      run: () =>
+        generateObject({
+          model: getLanguageModel({ id: model, requires: "json" }),
+          prompt,
+          ...toCallSettings({ model, parameters, output: "object" }),
+          schema: toOutputSchema(outputSchema),
+          abortSignal,
+          maxRetries: 0,
+        }),
+      getUsage: (result) => toTokenUsage(result.usage),
+    });
+    return {
+      output: result.object,
+      usage: toTokenUsage(result.usage),
+      attempts,
+    };
+  } catch (error) {
+    if (!NoObjectGeneratedError.isInstance(error)) throw error;
+    throw new Error(
+      `Step "${step.name}" didn't match its output schema: ${getSchemaIssues({
+        text: error.text,
+        schema: outputSchema,
+      }).join("; ")}`
+    );
+  }
+};
+
+/**
+ * Runs a chain's steps in order, filling each template with the chain's
+ * input and every earlier step's output
+ * The last step's output is the run's response; every step adds a log entry
+ * and a child span of trace
+ * A failing step fails the run, naming the step in the error
+ */
+export const runChainSteps = async ({
+  steps,
+  input,
+  model,
+  parameters,
+  abortSignal,
+  trace,
+}: {
+  steps: ChainStep[];
+  input: string;
+  model?: string;
+  parameters?: GenerationParameters;
+  abortSignal?: AbortSignal;
+  trace: TraceSpan;
+}): Promise<AdvancedResponse> => {
+  const values: Record<string, string> = { [DEFAULT_INPUT_VARIABLE]: input };
+  const logs: NonNullable<AdvancedResponse["logs"]> = [];
+  const usages: TokenUsage[] = [];
+  const costs: (number | undefined)[] = [];
+  let attempts = 0;
+  let last: { prompt: string; output: string | object } | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    const prompt = insertInputIntoPrompt({ template: step.template, values });
+    const stepModel = step.model ?? model ?? DEFAULT_MODEL_ID;
+    const result = await withSpan({
+      parent: trace,
+      name: step.name,
+      model: stepModel,
+      input: prompt,
+      run: () =>
+        runStep({ step, prompt, model: stepModel, parameters, abortSignal }),
+      describe: ({ output, usage }) => ({ output, usage }),
+    });
+
+    values[step.name] = formatChainStepOutput(result.output);
+    usages.push(result.usage);
+    costs.push(calculateCost({ model: stepModel, usage: result.usage }));
+    // Reports the most-retried step, as the two-stage handler does
+    attempts = Math.max(attempts, result.attempts);
+    logs.push({
+      label: `Step ${index + 1}: ${step.name} (${getModelDisplayName(
+        stepModel
+      )})`,
+      text: `${prompt}\n\n---\n\n${values[step.name]}`,
+    });
+    last = { prompt, output: result.output };
+  }
+
+  return {
+    response: last?.output ?? "",
+    prompt: last?.prompt,
+    logs,
+    usage: sumTokenUsage(usages),
+    // Steps can use different models, so each is priced separately
+    cost: costs.every((cost): cost is number => cost !== undefined)
+      ? costs.reduce((sum, cost) => sum + cost, 0)
+      : undefined,
+    attempts,
+  };
+};
@@ -0,0 +1,42 @@
+import "server-only";
+
+import { jsonSchema, Schema } from "ai";
+
+import { JsonSchema } from "@/types/promptHandler";
+import { validateJsonSchema } from "@/utils/validateJsonSchema";
+
+/**
+ * Wraps a user-written schema for generateObject
+ * Responses are checked with validateJsonSchema, the same subset the
+ * jsonSchema evaluator uses
+ */
+export const toOutputSchema = (schema: JsonSchema): Schema<object> =>
+  jsonSchema<object>(schema as Parameters<typeof jsonSchema>[0], {
+    validate: (value) => {
+      const issues = validateJsonSchema({ value, schema });
+      return issues.length === 0
+        ? { success: true, value: value as object }
+        : { success: false, error: new Error(issues.join("; ")) };
+    },
+  });
+
+/**
+ * Why a NoObjectGeneratedError's raw text didn't match the schema
+ */
+export const getSchemaIssues = ({
+  text,
+  schema,
+}: {
+  text?: string;
+  schema: JsonSchema;
+}): string[] => {
+  try {
+    const issues = validateJsonSchema({
+      value: JSON.parse(text ?? ""),
+      schema,
+    });
+    return issues.length > 0 ? issues : ["Response didn't match the schema"];
+  } catch {
+    return ["Response isn't valid JSON"];
+  }
+};
@@ -0,0 +1,167 @@
+import "server-only";
+
+import { tool, ToolSet } from "ai";
+import { z } from "zod";
+
+import { env } from "@/env";
+import { withSpan } from "@/server/server-only/tracing";
+import { ToolConfig, TraceSpan } from "@/types/promptHandler";
+import { evaluateExpression } from "@/utils/calculator";
+import { getJsonPathValue } from "@/utils/evaluators";
+import { formatToolValue } from "@/utils/tools";
+
+// Responses are truncated so one large page can't fill the context window
+const MAX_FETCH_CHARS = 10_000;
+const FETCH_TIMEOUT_MS = 10_000;
+
+const fetchAllowedUrl = async ({
+  url,
+  abortSignal,
+}: {
+  url: string;
+  abortSignal?: AbortSignal;
+}) => {
+  const { protocol, hostname } = new URL(url);
+  if (protocol !== "https:" && protocol !== "http:") {
+    throw new Error(`Unsupported protocol ${protocol}`);
+  }
+  if (!env.TOOL_FETCH_ALLOWED_HOSTS.includes(hostname.toLowerCase())) {
+    throw new Error(`Host ${hostname} is not allowed`);
+  }
+
+  const response = await fetch(url, {
+    // Redirects could leave the allowlist, so they're returned, not followed
+    redirect: "manual",
+    signal: AbortSignal.any([
+      AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      ...(abortSignal ? [abortSignal] : []),
+    ]),
+  });
+  const body = await response.text();
+  return {
+    status: response.status,
+    body:
+      body.length > MAX_FETCH_CHARS
+        ? `${body.slice(0, MAX_FETCH_CHARS)}\n[truncated]`
+        : body,
+  };
+};
+
+// Runs one tool call as a span, handing failures back to the model as data
+type RecordCall = <T>(params: {
+  args: object;
+  run: () => Promise<T>;
+}) => Promise<T | { error: string }>;
+
+const createTool = ({
+  config,
+  record,
+}: {
+  config: ToolConfig;
+  record: RecordCall;
+}) => {
+  switch (config.type) {
+    case "calculator":
+      return tool({
+        description:
+          "Evaluates an arithmetic expression using + - * / % ^ and parentheses",
+        parameters: z.object({ expression: z.string() }),
+        execute: async (args) =>
+          record({
+            args,
+            run: async () => evaluateExpression(args.expression),
+          }),
+      });
+    case "currentDate":
+      return tool({
+        description: "Returns the current date and time",
+        parameters: z.object({
+          timeZone: z
+            .string()
+            .optional()
+            .describe("IANA time zone such as Europe/London; UTC if omitted"),
+        }),
+        execute: async (args) =>
+          record({
+            args,
+            run: async () => {
+              const now = new Date();
+              return {
+                iso: now.toISOString(),
+                local: now.toLocaleString("en-US", {
+                  timeZone: args.timeZone ?? "UTC",
+                  dateStyle: "full",
+                  timeStyle: "long",
+                }),
+              };
+            },
+          }),
+      });
+    case "jsonLookup":
+      return tool({
+        description: `Reads a value from ${config.fileName} by path, e.g. "items[0].name". An empty path lists the top-level keys`,
+        parameters: z.object({ path: z.string() }),
+        execute: async (args) =>
+          record({
+            args,
+            run: async () => {
+              if (args.path.trim()) {
+                return (
+                  getJsonPathValue({ value: config.data, path: args.path }) ??
+                  null
+                );
+              }
+              return typeof config.data === "object" && config.data !== null
+                ? Object.keys(config.data)
+                : config.data;
+            },
+          }),
+      });
+    case "httpFetch":
+      return tool({
+        description: `Fetches a URL with GET and returns the status and body. Only these hosts are allowed: ${
+          env.TOOL_FETCH_ALLOWED_HOSTS.join(", ") || "none"
+        }`,
+        parameters: z.object({ url: z.string().url() }),
+        execute: async (args, { abortSignal }) =>
+          record({
+            args,
+            run: () => fetchAllowedUrl({ url: args.url, abortSignal }),
+          }),
+      });
+  }
+};
+
+/**
+ * AI SDK tools for a template's tool configs, named after their type
+ * Every call is recorded as a child span of parent and reported to onCall;
+ * a failing call returns its error to the model instead of failing the run,
+ * so it can try again
+ */
+export const buildToolSet = ({
+  configs,
+  parent,
+  onCall,
+}: {
+  configs: ToolConfig[];
+  parent: TraceSpan;
+  onCall?: (call: { name: string; args: object; result: unknown }) => void;
+}): ToolSet =>
+  Object.fromEntries(
+    configs.map((config) => {
+      const record: RecordCall = async ({ args, run }) => {
+        const result = await withSpan({
+          parent,
+          name: `tool: ${config.type}`,
+          input: JSON.stringify(args, null, 2),
+          run,
+          describe: (result) => ({ output: formatToolValue(result) }),
+        }).catch((error: unknown) => ({
+          error: error instanceof Error ? error.message : String(error),
+        }));
+        onCall?.({ name: config.type, args, result });
+        return result;
+      };
+      return [config.type, createTool({ config, record })];
+    })
+  );
@@ -0,0 +1,108 @@
+import "server-only";
+
+import { AdvancedResponse, TraceSpan, TokenUsage } from "@/types/promptHandler";
+
+const formatOutput = (output: string | object) =>
+  typeof output === "string" ? output : JSON.stringify(output, null, 2);
+
+const getErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Opens a span, added to the parent's children when there is one
+ * Spans are plain objects so the finished tree can be returned as-is
+ */
+export const startSpan = ({
+  name,
+  model,
+  input,
+  parent,
+}: {
+  name: string;
+  model?: string;
+  input?: string;
+  parent?: TraceSpan;
+}): TraceSpan => {
+  const startTime = Date.now();
+  const span: TraceSpan = { name, model, input, startTime, endTime: startTime };
+  if (parent) {
+    parent.children = [...(parent.children ?? []), span];
+  }
+  return span;
+};
+
+export const endSpan = ({
+  span,
+  output,
+  usage,
+  error,
+}: {
+  span: TraceSpan;
+  output?: string | object;
+  usage?: TokenUsage;
+  error?: string;
+}) => {
+  span.endTime = Date.now();
+  span.output = output === undefined ? undefined : formatOutput(output);
+  span.usage = usage;
+  span.error = error;
+};
+
+/**
+ * Runs one stage as a child span, recording its output and usage, or its
+ * error before rethrowing
+ */
+export const withSpan = async <T>({
+  parent,
+  name,
+  model,
+  input,
+  run,
+  describe,
+}: {
+  parent: TraceSpan;
+  name: string;
+  model?: string;
+  input?: string;
+  run: (span: TraceSpan) => Promise<T>;
+  describe: (result: T) => { output?: string | object; usage?: TokenUsage };
+}): Promise<T> => {
+  const span = startSpan({ parent, name, model, input });
+  try {
+    const result = await run(span);
+    endSpan({ span, ...describe(result) });
+    return result;
+  } catch (error) {
+    endSpan({ span, error: getErrorMessage(error) });
+    throw error;
+  }
+};
+
+/**
+ * Runs a multi-stage handler under a root span
+ * A failing stage resolves with the error and the partial trace instead of
+ * throwing, so the client can show where it failed; aborts still throw
+ */
+export const withTrace = async ({
+  name,
+  input,
+  abortSignal,
+  run,
+}: {
+  name: string;
+  input: string;
+  abortSignal?: AbortSignal;
+  run: (root: TraceSpan) => Promise<AdvancedResponse>;
+}): Promise<AdvancedResponse> => {
+  const root = startSpan({ name, input });
+  try {
+    const response = await run(root);
+    endSpan({ span: root, output: response.response, usage: response.usage });
+    return { ...response, trace: root };
+  } catch (error) {
+    if (abortSignal?.aborted) throw error;
+    console.error(error);
+    endSpan({ span: root, error: getErrorMessage(error) });
+    return { response: "", error: root.error, trace: root };
+  }
+};
@@ -1,24 +1,253 @@
 // Consolidated types for prompt handling system
 
+// An entry in the model registry (src/lib/models.ts)
+export interface ModelDefinition {
+  id: string; // Registry key, "<provider>:<modelId>"
+  provider: "openai" | "anthropic";
+  modelId: string; // The provider's own model name
+  displayName: string;
+  capabilities: {
+    json: boolean; // Supports structured output via generateObject
+    temperature: boolean; // Accepts sampling parameters (reasoning models don't)
+  };
+}
+
+// Sampling/generation settings passed through to generateText/generateObject
+export interface GenerationParameters {
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  seed?: number;
+  stopSequences?: string[];
+}
+
+// Token counts reported by the provider, summed when a run makes several calls
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// USD per million tokens, keyed by model registry id in src/lib/modelPricing.ts
+export interface ModelPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+// Per-provider budget enforced before each model call (src/lib/rateLimits.ts)
+export interface ProviderRateLimit {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+// How a handler schedules the runs of a batch (see src/utils/executeRuns.ts)
+export type ExecutionConfig =
+  | { type: "serial" }
+  | { type: "parallel"; maxConcurrency?: number; timeoutMs?: number };
+
+// The subset of JSON Schema understood by src/utils/validateJsonSchema.ts
+export interface JsonSchema {
+  type?:
+    | "object"
+    | "array"
+    | "string"
+    | "number"
+    | "integer"
+    | "boolean"
+    | "null";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | boolean | null)[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+// An assertion checked against every run of a template (src/utils/evaluators.ts)
+// Expected values may use {{placeholders}}, filled from the run's inputs
+export type EvaluatorConfig =
+  | { type: "exactMatch"; expected: string }
+  | { type: "contains"; expected: string }
+  | { type: "regex"; pattern: string }
+  | { type: "jsonSchema"; schema: JsonSchema }
+  | { type: "jsonPathEquals"; path: string; expected: string }
+  | { type: "maxLength"; maxLength: number }
+  | { type: "maxLatency"; maxMs: number }
+  | {
+      // Scored by another model; the rubric can use {{input}}, {{prompt}},
+      // {{response}} and the run's own values
+      type: "judge";
+      rubric: string;
+      model: string; // Registry id, must support json
+      scale: JudgeScale;
+      passScore: number; // Scores at or above this pass
+    };
+
+// A local tool a template lets the model call (src/server/server-only/tools.ts)
+export type ToolConfig =
+  | { type: "calculator" }
+  | { type: "currentDate" }
+  | {
+      // Answers path lookups over an uploaded JSON file, kept with the template
+      type: "jsonLookup";
+      fileName: string;
+      data: unknown;
+    }
+  | { type: "httpFetch" }; // GET only, to hosts in TOOL_FETCH_ALLOWED_HOSTS
+
+// Inclusive range of whole-number scores a judge can give
+export interface JudgeScale {
+  min: number;
+  max: number;
+}
+
+// Outcome of one evaluator on one run; the label is kept so history reads on its own
+export interface EvaluationResult {
+  type: EvaluatorConfig["type"];
+  label: string;
+  passed: boolean;
+  message?: string; // Why the check failed
+  score?: number; // Judge evaluators only, within scale
+  scale?: JudgeScale;
+  rationale?: string;
+  usage?: TokenUsage; // The judge call's tokens, counted in batch totals
+  cost?: number;
+}
+
+// Average of one judge's scores across the runs it scored
+export interface JudgeScoreSummary {
+  label: string;
+  average: number;
+  count: number;
+  scale: JudgeScale;
+}
+
+// A named {{placeholder}} in a template, with optional type and default
+export interface TemplateVariable {
+  name: string;
+  type: "text" | "longText" | "number" | "boolean";
+  defaultValue?: string;
+  description?: string;
+}
+
+// One turn of a chat-style prompt; templates only store user/assistant examples
+export interface PromptMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
 // Database prompt template type (from promptTemplates.ts)
 export interface PromptTemplate {
   id: number;
+  name: string;
+  text: string; // Always sent as the final user message
+  description?: string;
+  systemMessage?: string;
+  messages?: PromptMessage[]; // Few-shot examples sent before the final user message
+  version: number; // Current version number, bumped whenever the wording changes
+  variables?: TemplateVariable[]; // Declared types/defaults; names come from text
+  parameters?: GenerationParameters; // Saved defaults for the parameters panel
+  execution?: ExecutionConfig; // Defaults to serial
+  evaluators?: EvaluatorConfig[]; // Checked against every run after execute
+  outputSchema?: JsonSchema; // Generate objects matching this instead of text
+  retrieval?: RetrievalConfig; // Fills {{CONTEXT}} from a collection
+  tools?: ToolConfig[]; // Tools the model may call while answering
+}
+
+// Chunks retrieved for the run's input are inserted as {{CONTEXT}}
+export interface RetrievalConfig {
+  collectionId: number;
+  topK?: number;
+  minSimilarity?: number;
+}
+
+// One step of a chain (src/utils/chainSteps.ts); its output is available to
+// later steps as {{name}}, and the chain's input as {{INPUT}}
+export interface ChainStep {
+  name: string;
+  template: string;
+  model?: string; // Registry id, defaults to the model picked for the run
+  outputSchema?: JsonSchema; // Generate an object instead of text
+}
+
+// Stored multi-step prompt, run as an advanced handler
+export interface PromptChain {
+  id: number;
+  name: string;
+  description?: string;
+  steps: ChainStep[]; // Run in order
+}
+
+export interface PromptChainInput {
+  name: string;
+  description?: string;
+  steps: ChainStep[];
+}
+
+// Immutable snapshot of a template's wording
+export interface PromptTemplateVersion {
+  id: number;
+  templateId: number;
+  version: number;
+  text: string;
+  systemMessage?: string;
+  messages?: PromptMessage[];
+  createdAt: Date;
+}
+
+// Editable fields when creating or updating a template
+export interface PromptTemplateInput {
   name: string;
   text: string;
   description?: string;
+  systemMessage?: string;
+  messages?: PromptMessage[];
+  variables?: TemplateVariable[];
+  parameters?: GenerationParameters;
+  execution?: ExecutionConfig;
+  evaluators?: EvaluatorConfig[];
+  outputSchema?: JsonSchema;
+  retrieval?: RetrievalConfig;
+  tools?: ToolConfig[];
 }
 
+// Outcome of a single run; failures keep their message in PromptResult.error
+// "invalid" runs got a response that didn't match the template's output schema
+export type RunStatus =
+  | "success"
+  | "error"
+  | "timeout"
+  | "cancelled"
+  | "invalid";
+
 // Result from a single prompt execution (consolidated from basicPrompt.ts and MultiplePromptResponse.tsx)
 // Using the more flexible version with string | object response to support future JSON responses
 export interface PromptResult {
-  response: string | object;
+  runIndex: number; // Position in the batch, stable regardless of completion order
+  status: RunStatus;
+  response: string | object; // Empty for runs that didn't succeed
+  error?: string; // Set for every status except success
+  attempts?: number; // Provider calls made for this run, including retries
   prompt?: string; // Optional for advanced handlers that might not have a meaningful prompt
+  messages?: PromptMessage[]; // The full conversation sent, for message-based templates
   logs?: {
     label: string;
     text: string;
   }[];
   duration: number;
   timestamp: Date;
+  templateVersion?: number; // Only set for database templates
+  model?: string; // Registry id of the model that produced this result
+  parameters?: GenerationParameters;
+  usage?: TokenUsage; // Missing when the call failed before the provider responded
+  cost?: number; // USD, missing when the model has no price in the table
+  timeToFirstToken?: number; // ms, only recorded for streamed runs
+  evaluations?: EvaluationResult[]; // Only set when the template has evaluators
+  trace?: TraceSpan; // Only set by multi-stage handlers
 }
 
 // Results from multiple prompt executions (consolidated from basicPrompt.ts and MultiplePromptResponse.tsx)
@@ -26,7 +255,14 @@ export interface MultiplePromptResults {
   results: PromptResult[];
   totalDuration: number;
   promptTemplate: string;
+  templateVersion?: number; // Version of the template that was executed
+  model?: string; // Registry id of the model used for the batch
+  parameters?: GenerationParameters;
+  usage?: TokenUsage; // Summed across every run in the batch
+  cost?: number;
+  cancelled?: boolean; // Set when the batch was stopped early; results are partial
   userInput: string;
+  runId?: number; // Set once the batch has been saved to run history
 }
 
 // New unified handler interface for both database and complex prompts
@@ -35,12 +271,49 @@ export interface PromptHandler {
   name: string;
   description?: string;
   category: "basic" | "advanced";
+  variables?: TemplateVariable[]; // Omitted for handlers that take a single free-text input
+  requiresJson?: boolean; // Only models with the json capability can run this handler
+  defaultParameters?: GenerationParameters; // Template defaults for the parameters panel
   execute: (params: {
-    input: string;
+    input: string; // Free-text input, or a readable summary of the variable values
+    variables?: Record<string, string>;
     runCount: number;
+    model?: string; // Registry id, defaults to DEFAULT_MODEL_ID
+    parameters?: GenerationParameters;
+    // When set, runs are streamed and each partial result is reported as it grows
+    onProgress?: (params: { runIndex: number; result: PromptResult }) => void;
+    signal?: AbortSignal; // Aborting marks unfinished runs as cancelled
+    // Extra values for evaluator expectations, e.g. a dataset row's expected output
+    evaluationValues?: Record<string, string>;
   }) => Promise<MultiplePromptResults>;
 }
 
+// One column of a side-by-side comparison across handlers
+export interface HandlerComparisonResult {
+  handlerId: string;
+  handlerName: string;
+  data?: MultiplePromptResults;
+  error?: string; // Set instead of data when the handler failed outright
+}
+
+// A saved batch from run history
+export interface PromptRun {
+  id: number;
+  handlerId: string;
+  handlerName: string;
+  createdAt: Date;
+  data: MultiplePromptResults;
+}
+
+// Filters for browsing run history, all optional
+export interface PromptRunFilters {
+  handlerId?: string;
+  from?: Date;
+  to?: Date;
+  search?: string;
+  failuresOnly?: boolean; // Only batches with at least one unsuccessful run
+}
+
 export interface AdvancedResponse {
   response: string | object;
   prompt?: string;
@@ -48,4 +321,185 @@ export interface AdvancedResponse {
     label: string;
     text: string;
   }[];
+  trace?: TraceSpan; // Timed stages, for handlers with more than one call
+  usage?: TokenUsage;
+  cost?: number; // Set when calls used different models; otherwise priced from usage
+  attempts?: number;
+  // Set instead of throwing when a stage failed, so the trace survives the
+  // server action boundary; the run is recorded as an error
+  error?: string;
+}
+
+// One timed stage of a run (src/server/server-only/tracing.ts); a chain's
+// root span holds one child per step
+export interface TraceSpan {
+  name: string;
+  startTime: number; // ms since epoch
+  endTime: number;
+  model?: string; // Registry id, for spans that call a model
+  input?: string;
+  output?: string; // Objects are stored as JSON
+  usage?: TokenUsage;
+  error?: string;
+  children?: TraceSpan[];
+}
+
+// Chunks sent from a streaming server action; the last one is always "finish"
+export type ResponseStreamChunk =
+  | { type: "text-delta"; text: string }
+  | { type: "partial-object"; object: object }
+  | { type: "finish"; response: AdvancedResponse };
+
+// Latency percentiles in ms, over the runs that succeeded
+export interface LatencySummary {
+  min: number;
+  median: number;
+  p95: number;
+  max: number;
+}
+
+// Text responses that are the same answer once case and whitespace are ignored
+export interface AnswerCluster {
+  answer: string; // The first response seen in the cluster, as returned
+  count: number;
+  runIndexes: number[];
+}
+
+// How often each value appeared for one field across JSON responses
+export interface FieldDistribution {
+  field: string; // Dot path, e.g. "answer.confidence"
+  values: { value: string; count: number }[]; // Most common first
+}
+
+// Aggregate view of a large batch, computed on the client
+export interface BatchSummary {
+  runCount: number;
+  statusCounts: Record<RunStatus, number>;
+  errorRate: number; // Share of runs that didn't succeed, 0-1
+  latency?: LatencySummary; // Missing when no run succeeded
+  answerClusters: AnswerCluster[];
+  fieldDistributions: FieldDistribution[];
+}
+
+// One dataset row, keyed by column name
+export type DatasetRow = Record<string, string>;
+
+// Uploaded inputs for batch evaluation, owned by one user
+export interface Dataset {
+  id: number;
+  name: string;
+  columns: string[]; // In file order
+  rows: DatasetRow[];
+  createdAt: Date;
+}
+
+export interface DatasetInput {
+  name: string;
+  columns: string[];
+  rows: DatasetRow[];
+}
+
+// One dataset row run through a handler
+export interface DatasetRowResult {
+  rowIndex: number;
+  values: Record<string, string>; // Variable values sent for this row
+  data?: MultiplePromptResults;
+  error?: string; // Set instead of data when the row couldn't run at all
+}
+
+// Named set of documents, owned by one user and searched as a unit
+export interface Collection {
+  id: number;
+  name: string;
+  description?: string;
+  documentCount: number;
+  createdAt: Date;
+}
+
+export interface CollectionInput {
+  name: string;
+  description?: string;
+}
+
+// Uploaded text for retrieval, stored as chunks in one collection
+export interface KnowledgeDocument {
+  id: number;
+  collectionId: number;
+  name: string;
+  chunkSize: number;
+  chunkOverlap: number;
+  chunkCount: number;
+  createdAt: Date;
+}
+
+export interface KnowledgeDocumentInput {
+  name: string;
+  content: string; // Plain text or markdown; PDFs are pasted as their text
+}
+
+// Character limits for splitting a document, see src/utils/chunkText.ts
+export interface ChunkingConfig {
+  chunkSize: number;
+  chunkOverlap: number;
+}
+
+export interface DocumentChunk {
+  index: number; // Position within its document
+  content: string;
+}
+
+export interface EmbeddedChunk extends DocumentChunk {
+  embedding: number[];
+}
+
+export interface RetrievedChunk extends DocumentChunk {
+  documentId: number;
+  documentName: string;
+  similarity: number; // Cosine similarity to the query, -1 to 1
+}
+
+// Storage for document chunks, searched by embedding similarity
+export interface VectorStore {
+  addChunks(params: {
+    userId: string;
+    document: { id: number; name: string; collectionId: number };
+    chunks: EmbeddedChunk[];
+  }): Promise<void>;
+  // Best matches first, at most topK and none below minSimilarity
+  // Without a collectionId every collection of the user is searched
+  search(params: {
+    userId: string;
+    embedding: number[];
+    topK: number;
+    minSimilarity?: number;
+    collectionId?: number;
+  }): Promise<RetrievedChunk[]>;
+  deleteDocument(params: { userId: string; documentId: number }): Promise<void>;
+}
+
+// What an API key may do; routes outside a key's scopes answer 403
+export type ApiKeyScope =
+  | "templates:read"
+  | "handlers:execute"
+  | "datasets:manage";
+
+// Personal key for the HTTP API; only a hash and a display prefix are stored
+export interface ApiKey {
+  id: number;
+  name: string;
+  keyPrefix: string; // The first characters, to tell keys apart in the list
+  scopes: ApiKeyScope[];
+  createdAt: Date;
+  lastUsedAt?: Date; // Updated on every authenticated API request
+  revokedAt?: Date; // Revoked keys stay listed but no longer authenticate
+}
+
+export interface ApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// Returned once on creation; the full key can't be recovered afterwards
+export interface CreatedApiKey extends ApiKey {
+  key: string;
 }
@@ -0,0 +1,54 @@
+import { ApiKeyScope } from "@/types/promptHandler";
+
+export const API_KEY_PREFIX = "pd_";
+// Shown in the key list; long enough to tell keys apart, too short to guess
+export const API_KEY_DISPLAY_LENGTH = 10;
+
+const toHex = (bytes: ArrayBuffer) =>
+  Array.from(new Uint8Array(bytes), (byte) =>
+    byte.toString(16).padStart(2, "0")
+  ).join("");
+
+/**
+ * A new random key: the prefix followed by 32 bytes of hex
+ */
+export const generateApiKey = () =>
+  `${API_KEY_PREFIX}${toHex(
+    crypto.getRandomValues(new Uint8Array(32)).buffer
+  )}`;
+
+// Keys are high-entropy, so a plain SHA-256 is enough to store them
+export const hashApiKey = async (key: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(key)));
+
+/**
+ * Reads an API key from an Authorization header
+ * Only bearer tokens with the key prefix count, so Clerk session tokens
+ * sent the same way are left alone
+ */
+export const parseApiKey = (authorization: string | null) => {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1].startsWith(API_KEY_PREFIX) ? match[1] : undefined;
+};
+
+export const API_KEY_SCOPES: {
+  value: ApiKeyScope;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "templates:read",
+    label: "Read templates",
+    description: "List handlers and fetch prompt templates",
+  },
+  {
+    value: "handlers:execute",
+    label: "Execute",
+    description: "Run handlers and fetch saved runs",
+  },
+  {
+    value: "datasets:manage",
+    label: "Manage datasets",
+    description: "List, upload and delete datasets",
+  },
+];
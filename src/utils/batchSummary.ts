@@ -0,0 +1,142 @@
+import {
+  AnswerCluster,
+  BatchSummary,
+  FieldDistribution,
+  LatencySummary,
+  PromptResult,
+  RunStatus,
+} from "@/types/promptHandler";
+
+// Nearest-rank percentile over an ascending list
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.max(Math.ceil((p / 100) * sorted.length) - 1, 0)];
+
+export const summarizeLatency = (
+  durations: number[]
+): LatencySummary | undefined => {
+  if (durations.length === 0) {
+    return undefined;
+  }
+
+  const sorted = [...durations].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return {
+    min: sorted[0],
+    median:
+      sorted.length % 2 === 0
+        ? (sorted[middle - 1] + sorted[middle]) / 2
+        : sorted[middle],
+    p95: percentile(sorted, 95),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+// "Paris." and "paris" count as the same answer
+const normalizeAnswer = (text: string) =>
+  text
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/[.!?]+$/, "");
+
+/**
+ * Groups successful text responses into distinct answers, most common first
+ */
+export const clusterAnswers = (results: PromptResult[]): AnswerCluster[] => {
+  const clusters = new Map<string, AnswerCluster>();
+
+  for (const result of results) {
+    if (result.status !== "success" || typeof result.response !== "string") {
+      continue;
+    }
+    const key = normalizeAnswer(result.response);
+    const cluster = clusters.get(key);
+    if (cluster) {
+      cluster.count++;
+      cluster.runIndexes.push(result.runIndex);
+    } else {
+      clusters.set(key, {
+        answer: result.response,
+        count: 1,
+        runIndexes: [result.runIndex],
+      });
+    }
+  }
+
+  return [...clusters.values()].sort((a, b) => b.count - a.count);
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Nested objects become dot paths; arrays and primitives are leaf values
+const flattenFields = (
+  value: Record<string, unknown>,
+  prefix = ""
+): [string, string][] =>
+  Object.entries(value).flatMap(([key, child]) => {
+    const field = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child)) {
+      return flattenFields(child, field);
+    }
+    return [
+      [field, typeof child === "string" ? child : JSON.stringify(child)],
+    ] as [string, string][];
+  });
+
+/**
+ * Counts each field's values across successful JSON object responses
+ * Fields keep the order they first appear in
+ */
+export const distributeFields = (
+  results: PromptResult[]
+): FieldDistribution[] => {
+  const fields = new Map<string, Map<string, number>>();
+
+  for (const result of results) {
+    if (result.status !== "success" || !isPlainObject(result.response)) {
+      continue;
+    }
+    for (const [field, value] of flattenFields(result.response)) {
+      const counts = fields.get(field) ?? new Map<string, number>();
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+      fields.set(field, counts);
+    }
+  }
+
+  return [...fields.entries()].map(([field, counts]) => ({
+    field,
+    values: [...counts.entries()]
+      .map(([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count),
+  }));
+};
+
+export const summarizeBatch = (results: PromptResult[]): BatchSummary => {
+  const statusCounts: Record<RunStatus, number> = {
+    success: 0,
+    error: 0,
+    timeout: 0,
+    cancelled: 0,
+    invalid: 0,
+  };
+  for (const result of results) {
+    statusCounts[result.status]++;
+  }
+
+  return {
+    runCount: results.length,
+    statusCounts,
+    errorRate:
+      results.length > 0
+        ? (results.length - statusCounts.success) / results.length
+        : 0,
+    latency: summarizeLatency(
+      results
+        .filter((result) => result.status === "success")
+        .map((result) => result.duration)
+    ),
+    answerClusters: clusterAnswers(results),
+    fieldDistributions: distributeFields(results),
+  };
+};
@@ -0,0 +1,119 @@
+/**
+ * Thrown for expressions the calculator can't read or evaluate
+ */
+export class CalculatorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CalculatorError";
+  }
+}
+
+const TOKEN_PATTERN = /\s*(\d+(?:\.\d+)?(?:e[+-]?\d+)?|\.\d+|[-+*/%^()])/gy;
+
+const tokenize = (expression: string): string[] => {
+  const tokens: string[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+  while (TOKEN_PATTERN.lastIndex < expression.trimEnd().length) {
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(expression);
+    if (!match) {
+      throw new CalculatorError(
+        `Unexpected character "${expression.slice(start).trim()[0]}"`
+      );
+    }
+    tokens.push(match[1]);
+  }
+  return tokens;
+};
+
+/**
+ * Evaluates arithmetic with + - * / % ^, parentheses and unary minus
+ * A small recursive-descent parser, so model-supplied input is never run as code
+ *
+ * @example
+ * evaluateExpression("2 ^ 3 * (1 + 1)"); // 16
+ */
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+
+  // expression := term (("+" | "-") term)*
+  const parseExpression = (): number => {
+    let value = parseTerm();
+    while (peek() === "+" || peek() === "-") {
+      value = next() === "+" ? value + parseTerm() : value - parseTerm();
+    }
+    return value;
+  };
+
+  // term := unary (("*" | "/" | "%") unary)*
+  const parseTerm = (): number => {
+    let value = parseUnary();
+    while (peek() === "*" || peek() === "/" || peek() === "%") {
+      const operator = next();
+      const right = parseUnary();
+      if (operator !== "*" && right === 0) {
+        throw new CalculatorError("Division by zero");
+      }
+      value =
+        operator === "*"
+          ? value * right
+          : operator === "/"
+          ? value / right
+          : value % right;
+    }
+    return value;
+  };
+
+  // unary := ("-" | "+") unary | power, so -2 ^ 2 is -(2 ^ 2)
+  const parseUnary = (): number => {
+    if (peek() === "-") {
+      next();
+      return -parseUnary();
+    }
+    if (peek() === "+") {
+      next();
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  // power := primary ("^" unary)?, so 2 ^ 3 ^ 2 is 2 ^ 9
+  const parsePower = (): number => {
+    const base = parsePrimary();
+    if (peek() !== "^") return base;
+    next();
+    return base ** parseUnary();
+  };
+
+  const parsePrimary = (): number => {
+    const token = next();
+    if (token === "(") {
+      const value = parseExpression();
+      if (next() !== ")") {
+        throw new CalculatorError("Missing closing parenthesis");
+      }
+      return value;
+    }
+    if (token === undefined) {
+      throw new CalculatorError("Unexpected end of expression");
+    }
+    const value = Number(token);
+    if (Number.isNaN(value)) {
+      throw new CalculatorError(`Unexpected "${token}"`);
+    }
+    return value;
+  };
+
+  const value = parseExpression();
+  if (position < tokens.length) {
+    throw new CalculatorError(`Unexpected "${tokens[position]}"`);
+  }
+  if (!Number.isFinite(value)) {
+    throw new CalculatorError("The result is not a finite number");
+  }
+  return value;
+};
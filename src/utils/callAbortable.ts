@@ -0,0 +1,37 @@
+import { cancelGeneration } from "@/server/actions/cancelGeneration";
+import { RunCancelledError } from "@/utils/executeRuns";
+
+/**
+ * Calls a server action so it can be cancelled from the client
+ * On abort the promise rejects at once, and the server-side AI SDK call is
+ * aborted through cancelGeneration using the request id passed to the action
+ */
+export const callAbortable = async <T>({
+  signal,
+  call,
+}: {
+  signal?: AbortSignal;
+  call: (requestId?: string) => Promise<T>;
+}): Promise<T> => {
+  if (!signal) {
+    return call(undefined);
+  }
+  if (signal.aborted) {
+    throw new RunCancelledError();
+  }
+
+  const requestId = crypto.randomUUID();
+  return new Promise<T>((resolve, reject) => {
+    const handleAbort = () => {
+      reject(new RunCancelledError());
+      cancelGeneration(requestId).catch((error) =>
+        console.error("Failed to cancel generation", error)
+      );
+    };
+
+    signal.addEventListener("abort", handleAbort, { once: true });
+    call(requestId)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener("abort", handleAbort));
+  });
+};
@@ -0,0 +1,49 @@
+import { ChainStep } from "@/types/promptHandler";
+import {
+  DEFAULT_INPUT_VARIABLE,
+  extractTemplateVariables,
+} from "@/utils/templateVariables";
+
+// Step names become {{placeholders}}, so they follow the same rules
+const STEP_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Placeholders a step can use: the chain's input, then earlier step outputs
+ */
+export const getChainStepVariables = ({
+  steps,
+  index,
+}: {
+  steps: ChainStep[];
+  index: number;
+}): string[] => [
+  DEFAULT_INPUT_VARIABLE,
+  ...steps.slice(0, index).map((step) => step.name),
+];
+
+/**
+ * Problems that would stop a chain from running, e.g. a step that
+ * references a later step's output
+ */
+export const getChainIssues = (steps: ChainStep[]): string[] =>
+  steps.flatMap((step, index) => {
+    const label = `Step ${index + 1}`;
+    if (!STEP_NAME_PATTERN.test(step.name)) {
+      return [`${label} needs a name made of letters, digits and underscores`];
+    }
+    if (step.name === DEFAULT_INPUT_VARIABLE) {
+      return [`${label} can't be named ${DEFAULT_INPUT_VARIABLE}`];
+    }
+    if (steps.findIndex((other) => other.name === step.name) !== index) {
+      return [`${label} reuses the name "${step.name}"`];
+    }
+
+    const available = getChainStepVariables({ steps, index });
+    return extractTemplateVariables(step.template)
+      .filter((name) => !available.includes(name))
+      .map((name) => `${label} references unknown output "${name}"`);
+  });
+
+// Object outputs are passed to later steps as JSON
+export const formatChainStepOutput = (output: string | object) =>
+  typeof output === "string" ? output : JSON.stringify(output, null, 2);
@@ -0,0 +1,74 @@
+export const DEFAULT_CHUNK_SIZE = 1000;
+export const DEFAULT_CHUNK_OVERLAP = 200;
+
+// Coarsest first, so chunks break between paragraphs before sentences or words
+const SEPARATORS = ["\n\n", "\n", ". ", " "];
+
+// Pieces keep their trailing separator, so joining them restores the text
+const splitPieces = (
+  text: string,
+  size: number,
+  separators: string[]
+): string[] => {
+  if (text.length <= size) return [text];
+
+  const [separator, ...rest] = separators;
+  if (separator === undefined) {
+    return Array.from({ length: Math.ceil(text.length / size) }, (_, i) =>
+      text.slice(i * size, (i + 1) * size)
+    );
+  }
+
+  const parts = text.split(separator);
+  if (parts.length === 1) return splitPieces(text, size, rest);
+  return parts.flatMap((part, i) =>
+    splitPieces(i < parts.length - 1 ? part + separator : part, size, rest)
+  );
+};
+
+/**
+ * Splits a document into chunks of at most chunkSize characters
+ * Each chunk repeats up to chunkOverlap characters from the end of the
+ * previous one, so text near a boundary is retrievable from either side
+ */
+export const chunkText = ({
+  text,
+  chunkSize = DEFAULT_CHUNK_SIZE,
+  chunkOverlap = DEFAULT_CHUNK_OVERLAP,
+}: {
+  text: string;
+  chunkSize?: number;
+  chunkOverlap?: number;
+}): string[] => {
+  if (chunkOverlap >= chunkSize) {
+    throw new Error("Chunk overlap must be smaller than the chunk size");
+  }
+
+  const pieces = splitPieces(
+    text.replace(/\r\n/g, "\n").trim(),
+    chunkSize,
+    SEPARATORS
+  );
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let length = 0;
+
+  for (const piece of pieces) {
+    if (current.length > 0 && length + piece.length > chunkSize) {
+      chunks.push(current.join(""));
+      // Keep the previous chunk's tail as overlap, as long as it leaves room
+      while (
+        current.length > 0 &&
+        (length > chunkOverlap || length + piece.length > chunkSize)
+      ) {
+        length -= current[0].length;
+        current = current.slice(1);
+      }
+    }
+    current.push(piece);
+    length += piece.length;
+  }
+  if (current.length > 0) chunks.push(current.join(""));
+
+  return chunks.map((chunk) => chunk.trim()).filter(Boolean);
+};
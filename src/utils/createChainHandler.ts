@@ -0,0 +1,23 @@
+import { PromptChain, PromptHandler } from "@/types/promptHandler";
+import { runPromptChain } from "@/server/actions/runPromptChain";
+
+import { createAdvancedHandler } from "./createAdvancedHandler";
+
+/**
+ * Converts a stored PromptChain to an advanced PromptHandler
+ * Uses the chain-${id} convention for handler IDs
+ * Steps without their own model use the run's model, so the run model needs
+ * json support only when one of those steps has an output schema
+ */
+export const createChainHandler = (chain: PromptChain): PromptHandler =>
+  createAdvancedHandler({
+    id: `chain-${chain.id}`,
+    name: chain.name,
+    description:
+      chain.description ??
+      `${chain.steps.length}-step chain: ${chain.steps
+        .map((step) => step.name)
+        .join(" → ")}`,
+    asyncFunction: (params) => runPromptChain({ chainId: chain.id, ...params }),
+    requiresJson: chain.steps.some((step) => step.outputSchema && !step.model),
+  });
@@ -1,15 +1,71 @@
 import {
+  AdvancedResponse,
   PromptTemplate,
   PromptHandler,
-  PromptResult,
 } from "@/types/promptHandler";
-import { getPromptTemplate } from "@/server/db/promptTemplates";
 import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+import { readResponseStream } from "@/utils/readResponseStream";
+import { callAbortable } from "@/utils/callAbortable";
+import { evaluateResults } from "@/utils/evaluators";
+import {
+  executeRuns,
+  RunFailedError,
+  RunSchemaError,
+  withRunSignal,
+} from "@/utils/executeRuns";
 import { generateAIResponse } from "@/server/actions/generateAIResponse";
+import { generateStructuredResponse } from "@/server/actions/generateStructuredResponse";
+import { generateToolResponse } from "@/server/actions/generateToolResponse";
+import { streamAIResponse } from "@/server/actions/streamAIResponse";
+import { fetchPromptTemplate } from "@/server/actions/fetchPromptTemplate";
+import { retrieveTemplateContext } from "@/server/actions/retrieveTemplateContext";
+import { calculateCost, summarizeUsage } from "@/lib/modelPricing";
+import { DEFAULT_MODEL_ID } from "@/lib/models";
+import {
+  buildPromptMessages,
+  formatPromptMessages,
+  formatTemplateWording,
+  getTemplateSourceText,
+} from "@/utils/templateMessages";
+import {
+  CONTEXT_VARIABLE,
+  DEFAULT_INPUT_VARIABLE,
+  formatTemplateValues,
+  resolveTemplateVariables,
+  validateTemplateValues,
+} from "@/utils/templateVariables";
+import {
+  formatRetrievedContext,
+  toRetrievalLogs,
+} from "@/utils/retrievedChunks";
+
+// {{CONTEXT}} is filled by retrieval, so callers aren't asked for it
+const getInputVariables = (template: PromptTemplate) =>
+  resolveTemplateVariables({
+    text: getTemplateSourceText(template),
+    declared: template.variables,
+  }).filter(
+    (variable) => !template.retrieval || variable.name !== CONTEXT_VARIABLE
+  );
 
 /**
  * Converts a database PromptTemplate to a PromptHandler
  * Uses the db-${id} convention for handler IDs
+ * The template is re-fetched on every execute so edits apply immediately
+ * Variable values are validated against the fresh template before any model call
+ * Templates with a system message or examples go through the messages API
+ * Runs are streamed when the caller passes onProgress, except for templates
+ * with an output schema: those generate objects, and responses that don't
+ * match the schema are recorded as invalid with the raw output in the logs
+ * Aborting the signal records the current and remaining runs as cancelled
+ * The template's evaluators are checked against every run once the batch ends,
+ * with judge evaluators scoring successful runs in parallel
+ * Runs are scheduled with the template's execution config, serial by default
+ * Templates with a retrieval config search their collection once per execute,
+ * with the input as the query, and every run logs the chunks it was given;
+ * a failed search fails every run rather than the whole execute
+ * Templates with tools generate without streaming, logging and tracing every
+ * tool call the model makes
  */
 export const createDbPromptHandler = (
   template: PromptTemplate
@@ -18,52 +74,205 @@ export const createDbPromptHandler = (
   name: template.name,
   description: template.description,
   category: "basic",
-  execute: async ({ input, runCount }) => {
-    const templateData = await getPromptTemplate(template.id);
+  variables: getInputVariables(template),
+  defaultParameters: template.parameters,
+  requiresJson: template.outputSchema !== undefined,
+  execute: async ({
+    input,
+    variables,
+    runCount,
+    model = DEFAULT_MODEL_ID,
+    parameters,
+    onProgress,
+    signal,
+    evaluationValues,
+  }) => {
+    const templateData = await fetchPromptTemplate(template.id);
     if (!templateData) {
       throw new Error("Prompt template not found");
     }
 
-    const processedPrompt = insertInputIntoPrompt(templateData.text, input);
-    const results: PromptResult[] = [];
-    const startTime = Date.now();
-
-    for (let i = 0; i < runCount; i++) {
-      const runStartTime = Date.now();
-
-      try {
-        const response = await generateAIResponse(processedPrompt);
-
-        const runEndTime = Date.now();
-        const duration = runEndTime - runStartTime;
+    const templateVariables = getInputVariables(templateData);
+    const usesDefaultInput = templateVariables.some(
+      (variable) => variable.name === DEFAULT_INPUT_VARIABLE
+    );
+    const inputValues = validateTemplateValues({
+      variables: templateVariables,
+      values:
+        variables ??
+        (usesDefaultInput ? { [DEFAULT_INPUT_VARIABLE]: input } : {}),
+    });
+    const retrieval = templateData.retrieval
+      ? await retrieveTemplateContext({
+          templateId: templateData.id,
+          query:
+            inputValues[DEFAULT_INPUT_VARIABLE] ??
+            formatTemplateValues(inputValues),
+        }).then(
+          (chunks) => ({ chunks, error: undefined }),
+          (error: unknown) => ({ chunks: undefined, error })
+        )
+      : undefined;
+    const chunks = retrieval?.chunks;
+    const values = chunks
+      ? { ...inputValues, [CONTEXT_VARIABLE]: formatRetrievedContext(chunks) }
+      : inputValues;
+    const retrievalLogs = chunks ? toRetrievalLogs(chunks) : undefined;
+    // Explicit parameters win; otherwise use the template's saved defaults
+    const effectiveParameters = parameters ?? templateData.parameters;
+    const messages = buildPromptMessages({ template: templateData, values });
+    const processedPrompt = messages
+      ? formatPromptMessages(messages)
+      : insertInputIntoPrompt({ template: templateData.text, values });
+    const request = {
+      ...(messages ? { messages } : { prompt: processedPrompt }),
+      model,
+      parameters: effectiveParameters,
+    };
+    const getRunDetails = (runStartTime: number) => ({
+      prompt: processedPrompt,
+      messages,
+      logs: retrievalLogs,
+      timestamp: new Date(runStartTime),
+      templateVersion: templateData.version,
+      model,
+      parameters: effectiveParameters,
+    });
 
-        results.push({
-          response: response,
-          prompt: processedPrompt,
-          duration: duration,
-          timestamp: new Date(runStartTime),
-        });
-      } catch (error) {
-        const runEndTime = Date.now();
-        const duration = runEndTime - runStartTime;
+    const execution = templateData.execution ?? { type: "serial" };
+    const { results, totalDuration } = await executeRuns({
+      runCount,
+      execution,
+      run: async ({ runIndex, runStartTime, runSignal }) => {
+        if (retrieval?.error) {
+          throw retrieval.error;
+        }
+        const { outputSchema, tools } = templateData;
+        const abortSignal = withRunSignal({ signal, runSignal });
+        // Rejects with RunCancelledError as soon as either signal aborts
+        const { response, usage, timeToFirstToken, attempts, trace, logs } =
+          await callAbortable({
+            signal: abortSignal,
+            call: async (
+              requestId
+            ): Promise<AdvancedResponse & { timeToFirstToken?: number }> => {
+              if (tools?.length) {
+                const result = await generateToolResponse({
+                  ...request,
+                  templateId: templateData.id,
+                  requestId,
+                });
+                const logs = [...(retrievalLogs ?? []), ...(result.logs ?? [])];
+                if (result.error !== undefined) {
+                  throw new RunFailedError({
+                    message: result.error,
+                    details: {
+                      logs,
+                      usage: result.usage,
+                      cost: calculateCost({ model, usage: result.usage }),
+                      attempts: result.attempts,
+                      trace: result.trace,
+                    },
+                  });
+                }
+                return { ...result, logs };
+              }
+              if (outputSchema) {
+                const structured = await generateStructuredResponse({
+                  ...request,
+                  schema: outputSchema,
+                  requestId,
+                });
+                if ("issues" in structured) {
+                  throw new RunSchemaError(structured);
+                }
+                return {
+                  response: structured.object,
+                  usage: structured.usage,
+                  attempts: structured.attempts,
+                  timeToFirstToken: undefined,
+                };
+              }
+              return onProgress
+                ? readResponseStream({
+                    stream: await streamAIResponse({ ...request, requestId }),
+                    startTime: runStartTime,
+                    onUpdate: (partial) => {
+                      // Late chunks can still arrive while the server aborts
+                      if (abortSignal.aborted) return;
+                      onProgress({
+                        runIndex,
+                        result: {
+                          ...getRunDetails(runStartTime),
+                          runIndex,
+                          status: "success",
+                          response: partial,
+                          duration: Date.now() - runStartTime,
+                        },
+                      });
+                    },
+                  })
+                : generateAIResponse({ ...request, requestId }).then(
+                    ({ text, usage, attempts }) => ({
+                      response: text,
+                      usage,
+                      attempts,
+                      timeToFirstToken: undefined,
+                    })
+                  );
+            },
+          });
 
-        results.push({
-          response: `Error: ${
-            error instanceof Error ? error.message : "Unknown error occurred"
-          }`,
-          prompt: processedPrompt,
-          duration: duration,
-          timestamp: new Date(runStartTime),
-        });
-      }
-    }
+        return {
+          ...getRunDetails(runStartTime),
+          response,
+          logs: logs ?? retrievalLogs,
+          duration: Date.now() - runStartTime,
+          usage,
+          cost: calculateCost({ model, usage }),
+          timeToFirstToken,
+          attempts,
+          trace,
+        };
+      },
+      onError: ({ error, runStartTime }) => ({
+        ...getRunDetails(runStartTime),
+        duration: Date.now() - runStartTime,
+        ...(error instanceof RunFailedError && error.details),
+        // Invalid responses were still generated and billed
+        ...(error instanceof RunSchemaError && {
+          usage: error.usage,
+          cost: error.usage && calculateCost({ model, usage: error.usage }),
+          attempts: error.attempts,
+          logs: error.text
+            ? [
+                ...(retrievalLogs ?? []),
+                { label: "Raw output", text: error.text },
+              ]
+            : retrievalLogs,
+        }),
+      }),
+    });
 
-    const totalDuration = Date.now() - startTime;
+    const evaluatedResults = await evaluateResults({
+      results,
+      evaluators: templateData.evaluators,
+      // The values actually sent win over extra columns with the same name
+      values: { ...evaluationValues, ...values },
+      input,
+      execution,
+      signal,
+    });
 
     return {
-      results,
+      results: evaluatedResults,
       totalDuration,
-      promptTemplate: templateData.text,
+      promptTemplate: formatTemplateWording(templateData),
+      templateVersion: templateData.version,
+      model,
+      parameters: effectiveParameters,
+      ...summarizeUsage(evaluatedResults),
+      ...(signal?.aborted && { cancelled: true }),
       userInput: input,
     };
   },
@@ -1,9 +1,18 @@
-import { PromptTemplate, PromptHandler } from "@/types/promptHandler";
+import {
+  PromptChain,
+  PromptTemplate,
+  PromptHandler,
+} from "@/types/promptHandler";
 import { basicPromptJson } from "@/server/actions/basicPromptJson";
+import { ragAnswer } from "@/server/actions/ragAnswer";
+import { streamBasicPromptJson } from "@/server/actions/streamBasicPromptJson";
+import { streamTwoStagePromptJson } from "@/server/actions/streamTwoStagePromptJson";
 import { twoStagePromptJson } from "@/server/actions/twoStagePrompt";
 
 import { createDbPromptHandler } from "./createDbPromptHandler";
 import { createAdvancedHandler } from "./createAdvancedHandler";
+import { createChainHandler } from "./createChainHandler";
+import { withRunHistory } from "./withRunHistory";
 
 const ADVANCED_HANDLERS = [
   {
@@ -11,16 +20,27 @@ const ADVANCED_HANDLERS = [
     name: "Structured JSON Response",
     description: "Returns structured answer with reasoning using JSON schema",
     asyncFunction: basicPromptJson,
+    streamFunction: streamBasicPromptJson,
     // Enable parallel execution with concurrency limit
     execution: { type: "parallel", maxConcurrency: 3 },
+    requiresJson: true,
   },
   {
     id: "two-stage-json-response",
     name: "Two Stage JSON Response",
     description: "Returns structured answer with reasoning using JSON schema",
     asyncFunction: twoStagePromptJson,
+    streamFunction: streamTwoStagePromptJson,
     // Keep serial execution (this is also the default if omitted)
     execution: { type: "serial" },
+    requiresJson: true,
+  },
+  {
+    id: "rag-answer",
+    name: "RAG Answer",
+    description: "Answers from your uploaded documents, citing the chunks used",
+    asyncFunction: ragAnswer,
+    execution: { type: "serial" },
   },
 ] as const;
 
@@ -33,13 +53,15 @@ const validateUniqueIds = (handlers: PromptHandler[]): void => {
 };
 
 export const createPromptHandlers = (
-  promptTemplates: PromptTemplate[]
+  promptTemplates: PromptTemplate[],
+  promptChains: PromptChain[] = []
 ): PromptHandler[] => {
   const handlers = [
     ...promptTemplates.map(createDbPromptHandler),
     ...ADVANCED_HANDLERS.map(createAdvancedHandler),
+    ...promptChains.map(createChainHandler),
   ];
 
   validateUniqueIds(handlers);
-  return handlers;
+  return handlers.map(withRunHistory);
 };
@@ -0,0 +1,110 @@
+/**
+ * Line-based diff shaped for side-by-side rendering
+ * Adjacent removals and additions are paired up as "changed" rows so both
+ * columns stay aligned
+ */
+
+export interface DiffRow {
+  type: "unchanged" | "added" | "removed" | "changed";
+  left?: string;
+  right?: string;
+  leftLineNumber?: number;
+  rightLineNumber?: number;
+}
+
+type DiffOp =
+  | { type: "equal"; left: number; right: number }
+  | { type: "remove"; left: number }
+  | { type: "add"; right: number };
+
+// Classic LCS table walk; template texts are small enough for O(n*m)
+const computeOps = (a: string[], b: string[]): DiffOp[] => {
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: "equal", left: i++, right: j++ });
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "remove", left: i++ });
+    } else {
+      ops.push({ type: "add", right: j++ });
+    }
+  }
+  while (i < a.length) ops.push({ type: "remove", left: i++ });
+  while (j < b.length) ops.push({ type: "add", right: j++ });
+
+  return ops;
+};
+
+export const diffLines = ({
+  before,
+  after,
+}: {
+  before: string;
+  after: string;
+}): DiffRow[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const ops = computeOps(a, b);
+  const rows: DiffRow[] = [];
+
+  let index = 0;
+  while (index < ops.length) {
+    const op = ops[index];
+
+    if (op.type === "equal") {
+      rows.push({
+        type: "unchanged",
+        left: a[op.left],
+        right: b[op.right],
+        leftLineNumber: op.left + 1,
+        rightLineNumber: op.right + 1,
+      });
+      index++;
+      continue;
+    }
+
+    // Collect a run of removals followed by additions and pair them up
+    const removed: number[] = [];
+    const added: number[] = [];
+    while (index < ops.length && ops[index].type === "remove") {
+      removed.push((ops[index++] as { left: number }).left);
+    }
+    while (index < ops.length && ops[index].type === "add") {
+      added.push((ops[index++] as { right: number }).right);
+    }
+
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({
+        type:
+          left !== undefined && right !== undefined
+            ? "changed"
+            : left !== undefined
+            ? "removed"
+            : "added",
+        left: left !== undefined ? a[left] : undefined,
+        right: right !== undefined ? b[right] : undefined,
+        leftLineNumber: left !== undefined ? left + 1 : undefined,
+        rightLineNumber: right !== undefined ? right + 1 : undefined,
+      });
+    }
+  }
+
+  return rows;
+};
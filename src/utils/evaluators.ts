@@ -0,0 +1,400 @@
+import { judgeResponse } from "@/server/actions/judgeResponse";
+import {
+  EvaluationResult,
+  EvaluatorConfig,
+  ExecutionConfig,
+  JudgeScoreSummary,
+  PromptResult,
+} from "@/types/promptHandler";
+import { callAbortable } from "@/utils/callAbortable";
+import {
+  executeRuns,
+  RunCancelledError,
+  withRunSignal,
+} from "@/utils/executeRuns";
+import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+import { validateJsonSchema } from "@/utils/validateJsonSchema";
+
+export const EVALUATOR_TYPES: {
+  value: EvaluatorConfig["type"];
+  label: string;
+}[] = [
+  { value: "exactMatch", label: "Exact match" },
+  { value: "contains", label: "Contains" },
+  { value: "regex", label: "Regex" },
+  { value: "jsonSchema", label: "JSON schema" },
+  { value: "jsonPathEquals", label: "JSON path equals" },
+  { value: "maxLength", label: "Max length" },
+  { value: "maxLatency", label: "Max latency" },
+  { value: "judge", label: "LLM judge" },
+];
+
+const JUDGE_LABEL_LENGTH = 40;
+
+type JudgeConfig = Extract<EvaluatorConfig, { type: "judge" }>;
+type AssertionConfig = Exclude<EvaluatorConfig, JudgeConfig>;
+type Judgement = Omit<EvaluationResult, "type" | "label">;
+
+export const getEvaluatorLabel = (evaluator: EvaluatorConfig): string => {
+  switch (evaluator.type) {
+    case "exactMatch":
+      return `Equals "${evaluator.expected}"`;
+    case "contains":
+      return `Contains "${evaluator.expected}"`;
+    case "regex":
+      return `Matches /${evaluator.pattern}/`;
+    case "jsonSchema":
+      return "Matches JSON schema";
+    case "jsonPathEquals":
+      return `${evaluator.path} equals "${evaluator.expected}"`;
+    case "maxLength":
+      return `At most ${evaluator.maxLength} characters`;
+    case "maxLatency":
+      return `Under ${evaluator.maxMs}ms`;
+    case "judge": {
+      // Keyed on the rubric so scores stay comparable across template versions
+      const rubric = evaluator.rubric.trim().replace(/\s+/g, " ");
+      return `Judge: ${
+        rubric.length > JUDGE_LABEL_LENGTH
+          ? `${rubric.slice(0, JUDGE_LABEL_LENGTH)}…`
+          : rubric
+      }`;
+    }
+  }
+};
+
+const getResponseText = (response: unknown) =>
+  typeof response === "string" ? response : JSON.stringify(response);
+
+// Text responses can still hold JSON, e.g. a template that asks for it
+const parseResponse = (response: string | object): unknown => {
+  if (typeof response !== "string") return response;
+  try {
+    return JSON.parse(response);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Reads a dot/bracket path such as "answer.items[0].name"; a leading "$." is optional
+ */
+export const getJsonPathValue = ({
+  value,
+  path,
+}: {
+  value: unknown;
+  path: string;
+}): unknown =>
+  path
+    .replace(/^\$\.?/, "")
+    .split(/\.|\[(\d+)\]/)
+    .filter((segment) => segment !== undefined && segment !== "")
+    .reduce<unknown>(
+      (current, segment) =>
+        typeof current === "object" && current !== null
+          ? (current as Record<string, unknown>)[segment]
+          : undefined,
+      value
+    );
+
+const check = ({
+  evaluator,
+  result,
+  values,
+}: {
+  evaluator: AssertionConfig;
+  result: PromptResult;
+  values: Record<string, string>;
+}): { passed: boolean; message?: string } => {
+  const text = getResponseText(result.response);
+  const fill = (expected: string) =>
+    insertInputIntoPrompt({ template: expected, values });
+
+  switch (evaluator.type) {
+    case "exactMatch": {
+      const expected = fill(evaluator.expected);
+      return text.trim() === expected.trim()
+        ? { passed: true }
+        : { passed: false, message: `Expected "${expected}"` };
+    }
+    case "contains": {
+      const expected = fill(evaluator.expected);
+      return text.includes(expected)
+        ? { passed: true }
+        : { passed: false, message: `Missing "${expected}"` };
+    }
+    case "regex": {
+      try {
+        return new RegExp(evaluator.pattern).test(text)
+          ? { passed: true }
+          : { passed: false, message: "No match" };
+      } catch {
+        return { passed: false, message: "Invalid pattern" };
+      }
+    }
+    case "jsonSchema": {
+      const parsed = parseResponse(result.response);
+      if (parsed === undefined) {
+        return { passed: false, message: "Response isn't JSON" };
+      }
+      const issues = validateJsonSchema({
+        value: parsed,
+        schema: evaluator.schema,
+      });
+      return issues.length === 0
+        ? { passed: true }
+        : { passed: false, message: issues.join("; ") };
+    }
+    case "jsonPathEquals": {
+      const actual = getJsonPathValue({
+        value: parseResponse(result.response),
+        path: evaluator.path,
+      });
+      const expected = fill(evaluator.expected);
+      if (actual === undefined) {
+        return { passed: false, message: `${evaluator.path} not found` };
+      }
+      return getResponseText(actual) === expected
+        ? { passed: true }
+        : { passed: false, message: `Got ${getResponseText(actual)}` };
+    }
+    case "maxLength":
+      return text.length <= evaluator.maxLength
+        ? { passed: true }
+        : { passed: false, message: `${text.length} characters` };
+    case "maxLatency":
+      return result.duration <= evaluator.maxMs
+        ? { passed: true }
+        : { passed: false, message: `Took ${result.duration}ms` };
+  }
+};
+
+const judge = async ({
+  evaluator,
+  result,
+  values,
+  input,
+  signal,
+}: {
+  evaluator: JudgeConfig;
+  result: PromptResult;
+  values: Record<string, string>;
+  input: string;
+  signal?: AbortSignal;
+}): Promise<Judgement> => {
+  try {
+    const { score, rationale, usage, cost } = await callAbortable({
+      signal,
+      call: (requestId) =>
+        judgeResponse({
+          rubric: evaluator.rubric,
+          model: evaluator.model,
+          scale: evaluator.scale,
+          values,
+          input,
+          prompt: result.prompt ?? "",
+          response: getResponseText(result.response),
+          requestId,
+        }),
+    });
+    return {
+      passed: score >= evaluator.passScore,
+      score,
+      scale: evaluator.scale,
+      rationale,
+      usage,
+      cost,
+      ...(score < evaluator.passScore && {
+        message: `Scored below ${evaluator.passScore}`,
+      }),
+    };
+  } catch (error) {
+    if (!(error instanceof RunCancelledError)) {
+      console.error(error);
+    }
+    return {
+      passed: false,
+      message:
+        error instanceof RunCancelledError
+          ? "Judging was cancelled"
+          : "Judge failed to score the response",
+    };
+  }
+};
+
+const RUN_NOT_SUCCEEDED: Judgement = {
+  passed: false,
+  message: "Run did not succeed",
+};
+
+/**
+ * Runs every evaluator against one run; runs that didn't succeed fail them all
+ * Deterministic checks are local, judges call their model through the server
+ */
+export const evaluateResult = async ({
+  result,
+  evaluators,
+  values,
+  input = "",
+  signal,
+}: {
+  result: PromptResult;
+  evaluators: EvaluatorConfig[];
+  values: Record<string, string>;
+  input?: string; // The batch's user input, for a judge's {{input}}
+  signal?: AbortSignal;
+}): Promise<EvaluationResult[]> =>
+  Promise.all(
+    evaluators.map(async (evaluator) => ({
+      type: evaluator.type,
+      label: getEvaluatorLabel(evaluator),
+      ...(result.status !== "success"
+        ? RUN_NOT_SUCCEEDED
+        : evaluator.type === "judge"
+        ? await judge({ evaluator, result, values, input, signal })
+        : check({ evaluator, result, values })),
+    }))
+  );
+
+/**
+ * Evaluates a batch; judge calls are scheduled with the batch's execution
+ * config, so they share its concurrency and timeout limits
+ */
+export const evaluateResults = async ({
+  results,
+  evaluators,
+  values,
+  input = "",
+  execution,
+  signal,
+}: {
+  results: PromptResult[];
+  evaluators?: EvaluatorConfig[];
+  values: Record<string, string>;
+  input?: string;
+  execution: ExecutionConfig;
+  signal?: AbortSignal;
+}): Promise<PromptResult[]> => {
+  if (!evaluators?.length) {
+    return results;
+  }
+
+  // Keyed by run and evaluator position
+  const getKey = (result: PromptResult, evaluatorIndex: number) =>
+    `${result.runIndex}:${evaluatorIndex}`;
+  const judgeCalls = results.flatMap((result) =>
+    result.status === "success"
+      ? evaluators.flatMap((evaluator, evaluatorIndex) =>
+          evaluator.type === "judge"
+            ? [{ result, evaluator, key: getKey(result, evaluatorIndex) }]
+            : []
+        )
+      : []
+  );
+  const judgements = new Map<string, Judgement>();
+
+  const { results: judgeRuns } = await executeRuns({
+    runCount: judgeCalls.length,
+    execution,
+    run: async ({ runIndex, runStartTime, runSignal }) => {
+      const { result, evaluator, key } = judgeCalls[runIndex];
+      judgements.set(
+        key,
+        await judge({
+          evaluator,
+          result,
+          values,
+          input,
+          signal: withRunSignal({ signal, runSignal }),
+        })
+      );
+      return {
+        response: "",
+        duration: Date.now() - runStartTime,
+        timestamp: new Date(runStartTime),
+      };
+    },
+    onError: ({ runStartTime }) => ({
+      duration: Date.now() - runStartTime,
+      timestamp: new Date(runStartTime),
+    }),
+  });
+
+  // Timed-out judges may still settle late, so their outcome comes from the run
+  for (const { runIndex, status, error } of judgeRuns) {
+    if (status !== "success") {
+      judgements.set(judgeCalls[runIndex].key, {
+        passed: false,
+        message: `Judge failed: ${error}`,
+      });
+    }
+  }
+
+  return results.map((result) => ({
+    ...result,
+    evaluations: evaluators.map((evaluator, evaluatorIndex) => ({
+      type: evaluator.type,
+      label: getEvaluatorLabel(evaluator),
+      ...(result.status !== "success"
+        ? RUN_NOT_SUCCEEDED
+        : evaluator.type === "judge"
+        ? judgements.get(getKey(result, evaluatorIndex))!
+        : check({ evaluator, result, values })),
+    })),
+  }));
+};
+
+/**
+ * Runs that passed every evaluator, out of the runs that were evaluated
+ */
+export const getPassRate = (
+  results: PromptResult[]
+): { passed: number; total: number } | undefined => {
+  const evaluated = results.filter((result) => result.evaluations?.length);
+  if (evaluated.length === 0) {
+    return undefined;
+  }
+  return {
+    passed: evaluated.filter((result) =>
+      result.evaluations!.every((evaluation) => evaluation.passed)
+    ).length,
+    total: evaluated.length,
+  };
+};
+
+/**
+ * Average score per judge across the runs it scored, in evaluator order
+ * Judges are matched by label, so batches from different template versions
+ * can be compared as long as the rubric is unchanged
+ */
+export const getJudgeScores = (
+  results: PromptResult[]
+): JudgeScoreSummary[] => {
+  const totals = new Map<
+    string,
+    { sum: number; count: number; scale: JudgeScoreSummary["scale"] }
+  >();
+
+  for (const { label, score, scale } of results.flatMap(
+    (result) => result.evaluations ?? []
+  )) {
+    if (score === undefined || !scale) continue;
+    const total = totals.get(label) ?? { sum: 0, count: 0, scale };
+    totals.set(label, {
+      ...total,
+      sum: total.sum + score,
+      count: total.count + 1,
+    });
+  }
+
+  return Array.from(totals, ([label, { sum, count, scale }]) => ({
+    label,
+    average: sum / count,
+    count,
+    scale,
+  }));
+};
+
+export const formatJudgeScore = ({ average, scale }: JudgeScoreSummary) =>
+  `${average.toFixed(1)} / ${scale.max}`;
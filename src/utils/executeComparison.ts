@@ -0,0 +1,103 @@
+import {
+  GenerationParameters,
+  HandlerComparisonResult,
+  PromptHandler,
+  TemplateVariable,
+} from "@/types/promptHandler";
+import {
+  DEFAULT_INPUT_VARIABLE,
+  TemplateVariableError,
+} from "@/utils/templateVariables";
+
+/**
+ * Union of the variables of every compared handler, first declaration wins
+ * Returns undefined when none of them take variables
+ */
+export const mergeHandlerVariables = (
+  handlers: PromptHandler[]
+): TemplateVariable[] | undefined => {
+  const merged = new Map<string, TemplateVariable>();
+  for (const handler of handlers) {
+    for (const variable of handler.variables ?? []) {
+      if (!merged.has(variable.name)) {
+        merged.set(variable.name, variable);
+      }
+    }
+  }
+  return merged.size > 0 ? [...merged.values()] : undefined;
+};
+
+// Each handler only receives the values for its own placeholders
+const pickHandlerVariables = ({
+  handler,
+  variables,
+}: {
+  handler: PromptHandler;
+  variables?: Record<string, string>;
+}): Record<string, string> | undefined => {
+  if (!variables || !handler.variables) return undefined;
+  return Object.fromEntries(
+    handler.variables
+      .filter((variable) => variables[variable.name] !== undefined)
+      .map((variable) => [variable.name, variables[variable.name]])
+  );
+};
+
+/**
+ * Runs the same input through several handlers concurrently
+ * A failing handler becomes an error column rather than failing the comparison
+ */
+export const executeComparison = async ({
+  handlers,
+  input,
+  variables,
+  runCount,
+  model,
+  parameters,
+  signal,
+}: {
+  handlers: PromptHandler[];
+  input: string;
+  variables?: Record<string, string>;
+  runCount: number;
+  model?: string;
+  parameters?: GenerationParameters;
+  signal?: AbortSignal;
+}): Promise<HandlerComparisonResult[]> => {
+  const settled = await Promise.allSettled(
+    handlers.map((handler) =>
+      handler.execute({
+        // Free-text handlers get the main input rather than the summary
+        input: handler.variables
+          ? input
+          : variables?.[DEFAULT_INPUT_VARIABLE] ?? input,
+        variables: pickHandlerVariables({ handler, variables }),
+        runCount,
+        model,
+        parameters,
+        signal,
+      })
+    )
+  );
+
+  return settled.map((outcome, index) => {
+    const handler = handlers[index];
+    if (outcome.status === "fulfilled") {
+      return {
+        handlerId: handler.id,
+        handlerName: handler.name,
+        data: outcome.value,
+      };
+    }
+
+    console.error(outcome.reason);
+    return {
+      handlerId: handler.id,
+      handlerName: handler.name,
+      error:
+        outcome.reason instanceof TemplateVariableError
+          ? outcome.reason.message
+          : "Failed to get response from AI",
+    };
+  });
+};
@@ -0,0 +1,118 @@
+import {
+  DatasetRow,
+  DatasetRowResult,
+  GenerationParameters,
+  PromptHandler,
+} from "@/types/promptHandler";
+import {
+  DEFAULT_INPUT_VARIABLE,
+  formatTemplateValues,
+  TemplateVariableError,
+} from "@/utils/templateVariables";
+
+/**
+ * Names a dataset column has to be mapped to before the handler can run
+ * Free-text handlers take a single INPUT
+ */
+export const getHandlerInputNames = (handler: PromptHandler): string[] =>
+  handler.variables?.map((variable) => variable.name) ?? [
+    DEFAULT_INPUT_VARIABLE,
+  ];
+
+/**
+ * Maps each input to the column with the same name, ignoring case
+ * A lone input with no matching column falls back to the first column
+ */
+export const getDefaultColumnMapping = ({
+  inputNames,
+  columns,
+}: {
+  inputNames: string[];
+  columns: string[];
+}): Record<string, string> =>
+  Object.fromEntries(
+    inputNames.flatMap((name) => {
+      const column =
+        columns.find((column) => column.toLowerCase() === name.toLowerCase()) ??
+        (inputNames.length === 1 ? columns[0] : undefined);
+      return column === undefined ? [] : [[name, column]];
+    })
+  );
+
+// Unmapped inputs are left out so the handler can apply defaults or report them
+const getRowValues = ({
+  row,
+  mapping,
+}: {
+  row: DatasetRow;
+  mapping: Record<string, string>;
+}): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(mapping).map(([name, column]) => [name, row[column] ?? ""])
+  );
+
+/**
+ * Runs a handler once per dataset row, one row at a time
+ * Each row's runs follow the handler's own execution config; a row that
+ * fails outright is recorded with its error and the next row still runs
+ * Aborting stops after the row in flight, which records its runs as cancelled
+ */
+export const executeDataset = async ({
+  handler,
+  rows,
+  mapping,
+  runCount,
+  model,
+  parameters,
+  signal,
+  onRowComplete,
+}: {
+  handler: PromptHandler;
+  rows: DatasetRow[];
+  mapping: Record<string, string>;
+  runCount: number;
+  model?: string;
+  parameters?: GenerationParameters;
+  signal?: AbortSignal;
+  onRowComplete?: (params: { result: DatasetRowResult }) => void;
+}): Promise<DatasetRowResult[]> => {
+  const results: DatasetRowResult[] = [];
+
+  for (const [rowIndex, row] of rows.entries()) {
+    if (signal?.aborted) break;
+
+    const values = getRowValues({ row, mapping });
+    let result: DatasetRowResult;
+    try {
+      const data = await handler.execute({
+        // Free-text handlers get the mapped value rather than the summary
+        input: handler.variables
+          ? formatTemplateValues(values)
+          : values[DEFAULT_INPUT_VARIABLE] ?? "",
+        variables: handler.variables ? values : undefined,
+        runCount,
+        model,
+        parameters,
+        signal,
+        // Every column, so evaluators can compare against e.g. {{expected}}
+        evaluationValues: row,
+      });
+      result = { rowIndex, values, data };
+    } catch (error) {
+      console.error(error);
+      result = {
+        rowIndex,
+        values,
+        error:
+          error instanceof TemplateVariableError
+            ? error.issues.join(", ")
+            : "Failed to get response from AI",
+      };
+    }
+
+    results.push(result);
+    onRowComplete?.({ result });
+  }
+
+  return results;
+};
@@ -0,0 +1,218 @@
+import {
+  ExecutionConfig,
+  PromptResult,
+  RunStatus,
+  TokenUsage,
+} from "@/types/promptHandler";
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+// Handlers build everything else; the executor owns identity and outcome
+type RunDetails = Omit<PromptResult, "runIndex" | "status">;
+
+/**
+ * Thrown when the user cancels; the run is recorded as cancelled
+ */
+export class RunCancelledError extends Error {
+  constructor() {
+    super("Run cancelled");
+    this.name = "RunCancelledError";
+  }
+}
+
+/**
+ * Thrown when a parallel run exceeds its timeoutMs
+ */
+export class RunTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timeout after ${timeoutMs}ms`);
+    this.name = "RunTimeoutError";
+  }
+}
+
+/**
+ * Thrown when a response doesn't match the template's output schema
+ * The raw output and usage are kept so onError can still record them
+ */
+export class RunSchemaError extends Error {
+  readonly issues: string[];
+  readonly text?: string;
+  readonly usage?: TokenUsage;
+  readonly attempts?: number;
+
+  constructor({
+    issues,
+    text,
+    usage,
+    attempts,
+  }: {
+    issues: string[];
+    text?: string;
+    usage?: TokenUsage;
+    attempts?: number;
+  }) {
+    super(`Schema violation: ${issues.join("; ")}`);
+    this.name = "RunSchemaError";
+    this.issues = issues;
+    this.text = text;
+    this.usage = usage;
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Thrown when a handler resolves with an error instead of a response
+ * Carries what the handler recorded before failing, e.g. a partial trace
+ */
+export class RunFailedError extends Error {
+  readonly details: Partial<Omit<RunDetails, "response">>;
+
+  constructor({
+    message,
+    details,
+  }: {
+    message: string;
+    details: Partial<Omit<RunDetails, "response">>;
+  }) {
+    super(message);
+    this.name = "RunFailedError";
+    this.details = details;
+  }
+}
+
+/**
+ * The user's signal, if any, combined with a run's own
+ */
+export const withRunSignal = ({
+  signal,
+  runSignal,
+}: {
+  signal?: AbortSignal;
+  runSignal: AbortSignal;
+}) => (signal ? AbortSignal.any([signal, runSignal]) : runSignal);
+
+const getRunStatus = (error: unknown): RunStatus => {
+  if (error instanceof RunCancelledError) return "cancelled";
+  if (error instanceof RunTimeoutError) return "timeout";
+  if (error instanceof RunSchemaError) return "invalid";
+  return "error";
+};
+
+/**
+ * Schedules a batch of runs for any handler type
+ * Serial runs one at a time; parallel keeps up to maxConcurrency runs in
+ * flight and fails any run that takes longer than timeoutMs
+ * Each run gets its own signal, aborted when the run times out, so handlers
+ * can cancel the server call instead of just no longer waiting for it
+ * Failures never reject the batch: onError adds handler-specific details and
+ * the executor records the status and message
+ * Results always come back in run order, whatever order they finished in
+ */
+export const executeRuns = async ({
+  runCount,
+  execution,
+  run,
+  onError,
+}: {
+  runCount: number;
+  execution: ExecutionConfig;
+  run: (params: {
+    runIndex: number;
+    runStartTime: number;
+    runSignal: AbortSignal;
+  }) => Promise<RunDetails>;
+  onError: (params: {
+    error: unknown;
+    runIndex: number;
+    runStartTime: number;
+  }) => Omit<RunDetails, "response">;
+}): Promise<{ results: PromptResult[]; totalDuration: number }> => {
+  const overallStartTime = Date.now();
+
+  const executeRun = async (
+    runIndex: number,
+    timeoutMs?: number
+  ): Promise<PromptResult> => {
+    const runStartTime = Date.now();
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      const pending = run({
+        runIndex,
+        runStartTime,
+        runSignal: controller.signal,
+      });
+      // Race between actual execution and timeout
+      const result = await (timeoutMs === undefined
+        ? pending
+        : Promise.race([
+            pending,
+            new Promise<never>((_, reject) => {
+              timer = setTimeout(() => {
+                // Rejected first, so the run is recorded as a timeout rather
+                // than as cancelled by the abort
+                reject(new RunTimeoutError(timeoutMs));
+                controller.abort();
+              }, timeoutMs);
+            }),
+          ]));
+      return { ...result, runIndex, status: "success" };
+    } catch (error) {
+      return {
+        ...onError({ error, runIndex, runStartTime }),
+        runIndex,
+        status: getRunStatus(error),
+        response: "",
+        error: error instanceof Error ? error.message : String(error),
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+
+  if (execution.type === "serial") {
+    const results: PromptResult[] = [];
+    for (let i = 0; i < runCount; i++) {
+      results.push(await executeRun(i));
+    }
+
+    return {
+      results,
+      // Sum of run durations, so time spent between runs isn't counted
+      totalDuration: results.reduce((sum, result) => sum + result.duration, 0),
+    };
+  }
+
+  // Rolling concurrency: a new run starts as soon as any slot frees up
+  const maxConcurrency = execution.maxConcurrency ?? runCount;
+  const timeoutMs = execution.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const results: PromptResult[] = [];
+  const activePromises = new Map<number, Promise<PromptResult>>();
+  let started = 0;
+
+  const startNextRun = () => {
+    const runIndex = started++;
+    const promise = executeRun(runIndex, timeoutMs).then((result) => {
+      // eslint-disable-next-line drizzle/enforce-delete-with-where
+      activePromises.delete(runIndex);
+      results.push(result);
+      return result;
+    });
+    activePromises.set(runIndex, promise);
+  };
+
+  while (started < runCount || activePromises.size > 0) {
+    while (activePromises.size < maxConcurrency && started < runCount) {
+      startNextRun();
+    }
+    // Wait for at least one run to complete
+    await Promise.race(activePromises.values());
+  }
+
+  return {
+    results: results.sort((a, b) => a.runIndex - b.runIndex),
+    // Wall-clock time, since runs overlap
+    totalDuration: Date.now() - overallStartTime,
+  };
+};
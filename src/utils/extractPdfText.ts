@@ -0,0 +1,14 @@
+/**
+ * Text of every page of a PDF, pages separated by blank lines so chunking
+ * prefers to split between them
+ * Scanned PDFs without a text layer come back empty
+ */
+export const extractPdfText = async (data: Uint8Array): Promise<string> => {
+  // Loaded on demand, since pdf.js is large and only PDF uploads need it
+  const { extractText } = await import("unpdf");
+  const { text } = await extractText(data);
+  return text
+    .map((page) => page.trim())
+    .filter(Boolean)
+    .join("\n\n");
+};
@@ -0,0 +1,53 @@
+// Helper function for proper type discrimination
+export const getDataType = (
+  data: string | object | null
+): "text" | "json" | "empty" => {
+  // Handle null/undefined
+  if (data === null || data === undefined) {
+    return "empty";
+  }
+
+  // Handle strings
+  if (typeof data === "string") {
+    return "text";
+  }
+
+  // Handle arrays (should be JSON)
+  if (Array.isArray(data)) {
+    return "json";
+  }
+
+  // Handle complex objects that should be JSON-stringified
+  if (typeof data === "object") {
+    return "json";
+  }
+
+  // Handle other primitive types (numbers, booleans, etc.) as text
+  return "text";
+};
+
+// Helper function to safely stringify objects with circular reference protection
+export const safeStringify = (data: object): string => {
+  try {
+    // Simple circular reference protection using a Set to track seen objects
+    const seen = new Set();
+    return JSON.stringify(
+      data,
+      (key, value) => {
+        if (typeof value === "object" && value !== null) {
+          if (seen.has(value)) {
+            return "[Circular Reference]";
+          }
+          seen.add(value);
+        }
+        return value;
+      },
+      2
+    );
+  } catch {
+    // Fallback for truly unstringifiable objects
+    return `[Object: ${
+      data.constructor?.name || "Unknown"
+    }]\n\nNote: This object cannot be serialized to JSON.`;
+  }
+};
@@ -1,5 +1,17 @@
-const insertInputIntoPrompt = (template: string, input: string) => {
-  return template.replace("{{INPUT}}", input);
+import { VARIABLE_PATTERN } from "@/utils/templateVariables";
+
+// Replaces every {{name}} occurrence; unknown placeholders are left untouched
+const insertInputIntoPrompt = ({
+  template,
+  values,
+}: {
+  template: string;
+  values: Record<string, string>;
+}) => {
+  return template.replace(
+    VARIABLE_PATTERN,
+    (match, name: string) => values[name] ?? match
+  );
 };
 
 export default insertInputIntoPrompt;
@@ -0,0 +1,158 @@
+import { DatasetRow } from "@/types/promptHandler";
+
+// Keeps uploads within the server action body limit
+export const MAX_DATASET_ROWS = 1000;
+
+/**
+ * Thrown when an uploaded file can't be turned into dataset rows
+ */
+export class DatasetParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetParseError";
+  }
+}
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new DatasetParseError("Unterminated quoted field");
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  // Blank lines, including a trailing newline, aren't rows
+  return records.filter((fields) => fields.some((value) => value !== ""));
+};
+
+const parseCsv = (text: string) => {
+  const [header, ...records] = parseCsvRecords(text);
+  if (!header) {
+    throw new DatasetParseError("The file has no header row");
+  }
+
+  const columns = header.map((column) => column.trim());
+  if (columns.some((column) => column === "")) {
+    throw new DatasetParseError("Every column needs a header");
+  }
+  const rows = records.map((fields) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, fields[index] ?? ""])
+    )
+  );
+  return { columns, rows };
+};
+
+// Nested values are kept as JSON so they can still fill a template variable
+const toCellValue = (value: unknown) => {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+const parseJsonl = (text: string) => {
+  const columns: string[] = [];
+  const rows: DatasetRow[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === "") return;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new DatasetParseError(`Line ${index + 1} isn't valid JSON`);
+    }
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new DatasetParseError(`Line ${index + 1} must be a JSON object`);
+    }
+
+    const row: DatasetRow = {};
+    for (const [key, value] of Object.entries(parsed)) {
+      if (!columns.includes(key)) columns.push(key);
+      row[key] = toCellValue(value);
+    }
+    rows.push(row);
+  });
+
+  // Keys missing from a line become empty cells
+  return {
+    columns,
+    rows: rows.map((row) =>
+      Object.fromEntries(columns.map((column) => [column, row[column] ?? ""]))
+    ),
+  };
+};
+
+/**
+ * Reads a CSV (with a header row) or JSONL upload into columns and rows
+ * The format is picked from the file extension
+ */
+export const parseDataset = ({
+  fileName,
+  text,
+}: {
+  fileName: string;
+  text: string;
+}): { columns: string[]; rows: DatasetRow[] } => {
+  const extension = fileName.split(".").pop()?.toLowerCase();
+  const parsed =
+    extension === "csv"
+      ? parseCsv(text)
+      : extension === "jsonl" || extension === "ndjson"
+      ? parseJsonl(text)
+      : undefined;
+
+  if (!parsed) {
+    throw new DatasetParseError("Upload a .csv or .jsonl file");
+  }
+  if (new Set(parsed.columns).size !== parsed.columns.length) {
+    throw new DatasetParseError("Column names must be unique");
+  }
+  if (parsed.rows.length === 0) {
+    throw new DatasetParseError("The file has no rows");
+  }
+  if (parsed.rows.length > MAX_DATASET_ROWS) {
+    throw new DatasetParseError(
+      `Datasets are limited to ${MAX_DATASET_ROWS} rows`
+    );
+  }
+  return parsed;
+};
@@ -0,0 +1,38 @@
+import { readStreamableValue, StreamableValue } from "ai/rsc";
+
+import { AdvancedResponse, ResponseStreamChunk } from "@/types/promptHandler";
+
+/**
+ * Reads a streaming action's chunks, reporting the response as it grows
+ * Time to first token is measured from startTime to the first content chunk
+ */
+export const readResponseStream = async ({
+  stream,
+  startTime,
+  onUpdate,
+}: {
+  stream: StreamableValue<ResponseStreamChunk>;
+  startTime: number;
+  onUpdate: (response: string | object) => void;
+}): Promise<AdvancedResponse & { timeToFirstToken?: number }> => {
+  let text = "";
+  let timeToFirstToken: number | undefined;
+
+  for await (const chunk of readStreamableValue(stream)) {
+    if (!chunk) continue;
+
+    if (chunk.type === "finish") {
+      return { ...chunk.response, timeToFirstToken };
+    }
+
+    timeToFirstToken ??= Date.now() - startTime;
+    if (chunk.type === "text-delta") {
+      text += chunk.text;
+      onUpdate(text);
+    } else {
+      onUpdate(chunk.object);
+    }
+  }
+
+  throw new Error("Stream ended without a response");
+};
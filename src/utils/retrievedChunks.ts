@@ -0,0 +1,32 @@
+import { RetrievedChunk } from "@/types/promptHandler";
+
+export const formatChunkSource = (chunk: RetrievedChunk) =>
+  `${chunk.documentName} #${chunk.index + 1}`;
+
+export const formatChunkLabel = (chunk: RetrievedChunk) =>
+  `${formatChunkSource(chunk)} (similarity ${chunk.similarity.toFixed(3)})`;
+
+/**
+ * Context block for a prompt, each chunk tagged with its source so the model
+ * can cite it
+ */
+export const formatRetrievedContext = (chunks: RetrievedChunk[]) =>
+  chunks.length > 0
+    ? chunks
+        .map(
+          (chunk) =>
+            `<chunk source="${formatChunkSource(chunk)}">\n${
+              chunk.content
+            }\n</chunk>`
+        )
+        .join("\n")
+    : "No relevant documents were found.";
+
+// One log entry per chunk, so a bad answer can be traced to what was found
+export const toRetrievalLogs = (chunks: RetrievedChunk[]) =>
+  chunks.length > 0
+    ? chunks.map((chunk) => ({
+        label: formatChunkLabel(chunk),
+        text: chunk.content,
+      }))
+    : [{ label: "retrieval", text: "No chunks matched the input" }];
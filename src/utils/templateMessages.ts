@@ -0,0 +1,70 @@
+import { PromptMessage, PromptTemplate } from "@/types/promptHandler";
+import insertInputIntoPrompt from "@/utils/insertInputIntoPrompt";
+
+type TemplateWording = Pick<
+  PromptTemplate,
+  "text" | "systemMessage" | "messages"
+>;
+
+const ROLE_LABELS: Record<PromptMessage["role"], string> = {
+  system: "System",
+  user: "User",
+  assistant: "Assistant",
+};
+
+export const isMessageTemplate = (template: TemplateWording) =>
+  template.systemMessage !== undefined || (template.messages?.length ?? 0) > 0;
+
+/**
+ * All of a template's wording in one string, for placeholder detection
+ */
+export const getTemplateSourceText = (template: TemplateWording) =>
+  [
+    template.systemMessage ?? "",
+    ...(template.messages ?? []).map((message) => message.content),
+    template.text,
+  ].join("\n");
+
+/**
+ * Renders placeholders into every message: system, examples, then text as the final user turn
+ * Returns undefined for plain templates, which are still sent as a single prompt
+ */
+export const buildPromptMessages = ({
+  template,
+  values,
+}: {
+  template: TemplateWording;
+  values: Record<string, string>;
+}): PromptMessage[] | undefined => {
+  if (!isMessageTemplate(template)) {
+    return undefined;
+  }
+
+  const render = (content: string) =>
+    insertInputIntoPrompt({ template: content, values });
+  return [
+    ...(template.systemMessage !== undefined
+      ? [{ role: "system" as const, content: render(template.systemMessage) }]
+      : []),
+    ...(template.messages ?? []).map((message) => ({
+      role: message.role,
+      content: render(message.content),
+    })),
+    { role: "user", content: render(template.text) },
+  ];
+};
+
+/**
+ * Flattens a conversation for copying, searching and diffing
+ */
+export const formatPromptMessages = (messages: PromptMessage[]) =>
+  messages
+    .map((message) => `[${ROLE_LABELS[message.role]}]\n${message.content}`)
+    .join("\n\n");
+
+export const formatTemplateWording = (template: TemplateWording) =>
+  isMessageTemplate(template)
+    ? formatPromptMessages(buildPromptMessages({ template, values: {} }) ?? [])
+    : template.text;
+
+export const getRoleLabel = (role: PromptMessage["role"]) => ROLE_LABELS[role];
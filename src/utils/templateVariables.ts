@@ -0,0 +1,110 @@
+import { TemplateVariable } from "@/types/promptHandler";
+
+// Placeholder syntax: {{name}}, whitespace inside the braces is allowed
+export const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+// The legacy single-input placeholder; templates using only this keep the plain textarea
+export const DEFAULT_INPUT_VARIABLE = "INPUT";
+
+// Filled with retrieved chunks in templates that have a retrieval config
+export const CONTEXT_VARIABLE = "CONTEXT";
+
+/**
+ * Thrown before any model call when supplied values don't fit the template
+ */
+export class TemplateVariableError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid template variables: ${issues.join("; ")}`);
+    this.name = "TemplateVariableError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Returns the unique placeholder names in the order they first appear
+ */
+export const extractTemplateVariables = (text: string): string[] => {
+  const names = new Set<string>();
+  for (const match of text.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+};
+
+/**
+ * Merges detected placeholders with the template's declarations
+ * Declarations for names no longer in the text are dropped
+ */
+export const resolveTemplateVariables = ({
+  text,
+  declared = [],
+}: {
+  text: string;
+  declared?: TemplateVariable[];
+}): TemplateVariable[] =>
+  extractTemplateVariables(text).map(
+    (name) =>
+      declared.find((variable) => variable.name === name) ?? {
+        name,
+        type: name === DEFAULT_INPUT_VARIABLE ? "longText" : "text",
+      }
+  );
+
+export const isSingleInputTemplate = (variables: TemplateVariable[]) =>
+  variables.length === 1 && variables[0].name === DEFAULT_INPUT_VARIABLE;
+
+/**
+ * Applies defaults and checks for missing, unknown and mistyped values
+ * Returns the complete value map, or throws TemplateVariableError
+ */
+export const validateTemplateValues = ({
+  variables,
+  values,
+}: {
+  variables: TemplateVariable[];
+  values: Record<string, string>;
+}): Record<string, string> => {
+  const issues: string[] = [];
+  const resolved: Record<string, string> = {};
+
+  for (const name of Object.keys(values)) {
+    if (!variables.some((variable) => variable.name === name)) {
+      issues.push(`Unknown variable "${name}"`);
+    }
+  }
+
+  for (const variable of variables) {
+    const raw = values[variable.name];
+    const value = raw?.trim() ? raw : variable.defaultValue;
+
+    if (value === undefined || value.trim() === "") {
+      issues.push(`Missing value for "${variable.name}"`);
+      continue;
+    }
+    if (variable.type === "number" && Number.isNaN(Number(value))) {
+      issues.push(`"${variable.name}" must be a number`);
+      continue;
+    }
+    if (variable.type === "boolean" && value !== "true" && value !== "false") {
+      issues.push(`"${variable.name}" must be true or false`);
+      continue;
+    }
+
+    resolved[variable.name] = value;
+  }
+
+  if (issues.length > 0) {
+    throw new TemplateVariableError(issues);
+  }
+  return resolved;
+};
+
+/**
+ * Readable one-string summary of variable values, used as the run's input
+ */
+export const formatTemplateValues = (values: Record<string, string>) =>
+  Object.entries(values)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n");
@@ -0,0 +1,43 @@
+import { ToolConfig } from "@/types/promptHandler";
+
+export const TOOL_TYPES: {
+  value: ToolConfig["type"];
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "calculator",
+    label: "Calculator",
+    description: "Arithmetic with + - * / % ^ and parentheses",
+  },
+  {
+    value: "currentDate",
+    label: "Current date",
+    description: "Today's date and time, in any time zone",
+  },
+  {
+    value: "jsonLookup",
+    label: "JSON lookup",
+    description: "Reads values by path from an uploaded JSON file",
+  },
+  {
+    value: "httpFetch",
+    label: "HTTP fetch",
+    description: "GET requests to the server's allowlisted hosts",
+  },
+];
+
+// Tool results are often objects; logs and spans store text
+export const formatToolValue = (value: unknown) =>
+  typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+/**
+ * Log entry text for one tool call
+ */
+export const formatToolCall = ({
+  args,
+  result,
+}: {
+  args: unknown;
+  result: unknown;
+}) => `Arguments: ${formatToolValue(args)}\nResult: ${formatToolValue(result)}`;
@@ -0,0 +1,31 @@
+import { TraceSpan } from "@/types/promptHandler";
+
+export interface TraceRow {
+  span: TraceSpan;
+  depth: number;
+  offset: number; // Share of the root's duration before the span starts, 0-1
+  width: number; // Share of the root's duration the span took, 0-1
+}
+
+/**
+ * Flattens a trace depth-first into waterfall rows, timed against the root
+ * Instant spans still get a sliver of width so they stay visible
+ */
+export const flattenTrace = (root: TraceSpan): TraceRow[] => {
+  const total = Math.max(root.endTime - root.startTime, 1);
+  const rows: TraceRow[] = [];
+
+  const visit = (span: TraceSpan, depth: number) => {
+    const offset = (span.startTime - root.startTime) / total;
+    rows.push({
+      span,
+      depth,
+      offset,
+      width: Math.max((span.endTime - span.startTime) / total, 0.005),
+    });
+    span.children?.forEach((child) => visit(child, depth + 1));
+  };
+
+  visit(root, 0);
+  return rows;
+};
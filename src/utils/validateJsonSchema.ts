@@ -0,0 +1,98 @@
+import { JsonSchema } from "@/types/promptHandler";
+
+const getJsonType = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: NonNullable<JsonSchema["type"]>) => {
+  if (type === "integer") return Number.isInteger(value);
+  return getJsonType(value) === type;
+};
+
+/**
+ * Checks a value against the JsonSchema subset: type, enum, object
+ * properties/required/additionalProperties, array items, and number/string
+ * bounds. Unknown keywords are ignored rather than rejected
+ * Returns one message per problem, each prefixed with the value's path
+ */
+export const validateJsonSchema = ({
+  value,
+  schema,
+  path = "$",
+}: {
+  value: unknown;
+  schema: JsonSchema;
+  path?: string;
+}): string[] => {
+  if (schema.type && !matchesType(value, schema.type)) {
+    return [`${path} should be ${schema.type}, got ${getJsonType(value)}`];
+  }
+
+  const issues: string[] = [];
+  if (
+    schema.enum &&
+    !schema.enum.some((option) => option === (value as typeof option))
+  ) {
+    issues.push(`${path} should be one of ${JSON.stringify(schema.enum)}`);
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path} should be at least ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push(`${path} should be at most ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      issues.push(
+        `${path} should have at least ${schema.minLength} characters`
+      );
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      issues.push(`${path} should have at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    value.forEach((item, index) =>
+      issues.push(
+        ...validateJsonSchema({
+          value: item,
+          schema: items,
+          path: `${path}[${index}]`,
+        })
+      )
+    );
+  }
+
+  if (getJsonType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) {
+        issues.push(`${path}.${key} is required`);
+      }
+    }
+    for (const [key, child] of Object.entries(record)) {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        issues.push(
+          ...validateJsonSchema({
+            value: child,
+            schema: childSchema,
+            path: `${path}.${key}`,
+          })
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push(`${path}.${key} is not allowed`);
+      }
+    }
+  }
+
+  return issues;
+};
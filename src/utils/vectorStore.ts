@@ -0,0 +1,61 @@
+import { cosineSimilarity } from "ai";
+
+import { EmbeddedChunk, VectorStore } from "@/types/promptHandler";
+
+interface StoredChunk extends EmbeddedChunk {
+  userId: string;
+  collectionId: number;
+  documentId: number;
+  documentName: string;
+}
+
+/**
+ * VectorStore kept in memory, for tests and local experiments
+ * Searches compare the query against every chunk, so keep it small
+ */
+export const createInMemoryVectorStore = (): VectorStore => {
+  let chunks: StoredChunk[] = [];
+
+  return {
+    addChunks: async ({ userId, document, chunks: added }) => {
+      chunks = [
+        ...chunks,
+        ...added.map((chunk) => ({
+          ...chunk,
+          userId,
+          collectionId: document.collectionId,
+          documentId: document.id,
+          documentName: document.name,
+        })),
+      ];
+    },
+    search: async ({
+      userId,
+      embedding,
+      topK,
+      minSimilarity = -1,
+      collectionId,
+    }) =>
+      chunks
+        .filter(
+          (chunk) =>
+            chunk.userId === userId &&
+            (collectionId === undefined || chunk.collectionId === collectionId)
+        )
+        .map((chunk) => ({
+          documentId: chunk.documentId,
+          documentName: chunk.documentName,
+          index: chunk.index,
+          content: chunk.content,
+          similarity: cosineSimilarity(chunk.embedding, embedding),
+        }))
+        .filter((chunk) => chunk.similarity >= minSimilarity)
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, topK),
+    deleteDocument: async ({ userId, documentId }) => {
+      chunks = chunks.filter(
+        (chunk) => chunk.userId !== userId || chunk.documentId !== documentId
+      );
+    },
+  };
+};
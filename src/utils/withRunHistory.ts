@@ -0,0 +1,25 @@
+import { PromptHandler } from "@/types/promptHandler";
+import { savePromptRun } from "@/server/actions/savePromptRun";
+
+/**
+ * Wraps a handler so every execute call is saved to run history
+ * Persistence failures are logged but never fail the run itself
+ */
+export const withRunHistory = (handler: PromptHandler): PromptHandler => ({
+  ...handler,
+  execute: async (params) => {
+    const data = await handler.execute(params);
+
+    try {
+      const runId = await savePromptRun({
+        handlerId: handler.id,
+        handlerName: handler.name,
+        data,
+      });
+      return runId === null ? data : { ...data, runId };
+    } catch (error) {
+      console.error("Failed to save run history", error);
+      return data;
+    }
+  },
+});